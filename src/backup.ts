@@ -0,0 +1,145 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { relPath } from './utils';
+
+/**
+ * Suffixes of the files svn leaves next to a conflicted file: the local version
+ * (`.working` after a merge, `.mine` after an update) and the base and incoming
+ * versions (`.merge-left.r<N>`, `.merge-right.r<N>`, or `.r<N>` after an update).
+ */
+const CONFLICT_SUFFIX_RE = /\.(working|mine|merge-left\.r\d+|merge-right\.r\d+|r\d+)$/;
+
+/** Suffixes of the local version, the one `restore` puts back. */
+const LOCAL_SUFFIXES = ['.working', '.mine'];
+
+const BACKUP_DIR_RE = /^svnmerge-(\d{14})\.backup$/;
+
+/** One backed-up conflict: the conflict files of a path for one revision. */
+export interface BackupEntry {
+  /** Start timestamp of the session that made the backup */
+  startTs: string;
+  revision: number;
+  /** Workspace-relative path of the conflicted file, forward slashes */
+  path: string;
+  /** Absolute paths of the copies in the backup folder */
+  files: string[];
+}
+
+/** Backup folder of a session: `svnmerge-<ts>.backup` in the output directory. */
+export function backupDirPath(outputDir: string, startTs: string): string {
+  return path.join(outputDir, `svnmerge-${startTs}.backup`);
+}
+
+/**
+ * Copy the conflict files of `conflictPath` into the backup folder, under
+ * `r<revision>/<relative path>` (e.g. `r1001/src/hero.lua.working`).
+ * Returns the copies; none when svn left no conflict files (tree and property conflicts).
+ * Throws when a file cannot be copied.
+ */
+export function backupConflictFiles(conflictPath: string, workspace: string, revision: number, backupDir: string): string[] {
+  const dir = path.dirname(conflictPath);
+  const base = path.basename(conflictPath);
+  let names: string[];
+  try {
+    names = fs.readdirSync(dir);
+  } catch {
+    return [];
+  }
+  const conflictFiles = names.filter((name) => name.startsWith(base) && name.match(CONFLICT_SUFFIX_RE)?.index === base.length);
+  if (conflictFiles.length === 0) return [];
+
+  const target = path.join(backupDir, `r${revision}`, path.dirname(relPath(conflictPath, workspace)));
+  fs.mkdirSync(target, { recursive: true });
+  return conflictFiles.map((name) => {
+    const copy = path.join(target, name);
+    fs.copyFileSync(path.join(dir, name), copy);
+    return copy;
+  });
+}
+
+/** Backup folders in the output directory, newest session first. */
+function listBackupDirs(outputDir: string): { startTs: string; dir: string }[] {
+  let names: string[];
+  try {
+    names = fs.readdirSync(outputDir);
+  } catch {
+    return [];
+  }
+  return names
+    .map((name) => name.match(BACKUP_DIR_RE))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map((match) => ({ startTs: match[1], dir: path.join(outputDir, match[0]) }))
+    .sort((a, b) => b.startTs.localeCompare(a.startTs));
+}
+
+/** Every file below `dir`, relative to it with forward slashes. */
+function walk(dir: string, prefix = ''): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const rel = prefix ? `${prefix}/${entry.name}` : entry.name;
+    return entry.isDirectory() ? walk(path.join(dir, entry.name), rel) : [rel];
+  });
+}
+
+/**
+ * List the backed-up conflicts in the output directory: newest session first,
+ * then by revision and path.
+ */
+export function listBackups(outputDir: string): BackupEntry[] {
+  const entries: BackupEntry[] = [];
+  for (const { startTs, dir } of listBackupDirs(outputDir)) {
+    const revDirs = fs.readdirSync(dir).filter((name) => /^r\d+$/.test(name))
+      .sort((a, b) => parseInt(a.slice(1), 10) - parseInt(b.slice(1), 10));
+    for (const revDir of revDirs) {
+      const byPath = new Map<string, string[]>();
+      for (const file of walk(path.join(dir, revDir))) {
+        const name = path.posix.basename(file);
+        const match = name.match(CONFLICT_SUFFIX_RE);
+        if (!match) continue;
+        const original = file.slice(0, file.length - match[0].length);
+        byPath.set(original, [...(byPath.get(original) ?? []), path.join(dir, revDir, file)]);
+      }
+      for (const [original, files] of [...byPath].sort(([a], [b]) => a.localeCompare(b))) {
+        entries.push({ startTs, revision: parseInt(revDir.slice(1), 10), path: original, files: files.sort() });
+      }
+    }
+  }
+  return entries;
+}
+
+/** The copy of the local version in a backup entry, if svn left one. */
+export function localCopy(entry: BackupEntry): string | undefined {
+  return entry.files.find((file) => LOCAL_SUFFIXES.some((suffix) => file.endsWith(suffix)));
+}
+
+/**
+ * Put the backed-up local version of `target` (workspace-relative) back into
+ * the working copy. Without `startTs` the newest session that backed up the path
+ * is used; without `revision`, its earliest revision, which holds the content
+ * from before the session merged anything into the file.
+ * Returns the entry that was restored. Throws when there is no local copy.
+ */
+export function restoreLocal(
+  outputDir: string,
+  workspace: string,
+  target: string,
+  selection: { startTs?: string; revision?: number } = {},
+): BackupEntry {
+  const rel = target.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/$/, '');
+  const candidates = listBackups(outputDir).filter((e) =>
+    e.path === rel &&
+    (selection.startTs === undefined || e.startTs.startsWith(selection.startTs)) &&
+    (selection.revision === undefined || e.revision === selection.revision) &&
+    localCopy(e) !== undefined);
+  if (candidates.length === 0) {
+    const scope = [
+      selection.startTs ? ` in session ${selection.startTs}` : '',
+      selection.revision !== undefined ? ` for r${selection.revision}` : '',
+    ].join('');
+    throw new Error(`No backup of the local version of "${rel}"${scope} in ${outputDir}.`);
+  }
+  const newest = candidates[0].startTs;
+  const entry = candidates.find((e) => e.startTs === newest)!;
+  fs.copyFileSync(localCopy(entry)!, path.join(workspace, rel));
+  return entry;
+}
@@ -2,6 +2,30 @@ import * as fs from 'fs';
 import { load as yamlLoad } from 'js-yaml';
 import * as path from 'path';
 
+import { parseHooks } from './hooks';
+import { LOG_LEVELS } from './logger';
+import { parseMessageTemplate } from './message';
+import { parseReportFormats, ReportFormat } from './report';
+import { parseRetention } from './retention';
+import { parseTicketConfig } from './tickets';
+import {
+    ConflictType, DirtyPolicy, HookConfig, LogLevel, MessageTemplate, ResolveRule, ResolveStrategy, RetentionPolicy, RevisionFilter,
+    TargetFailurePolicy, TicketConfig
+} from './types';
+import { parseRevisionList } from './utils';
+
+const RESOLVE_STRATEGIES: ResolveStrategy[] = [
+  'working', 'mine-full', 'theirs-full', 'mine-conflict', 'theirs-conflict', 'base', 'postpone', 'fail',
+];
+const CONFLICT_TYPES: ConflictType[] = ['text', 'tree', 'property'];
+const TARGET_FAILURE_POLICIES: TargetFailurePolicy[] = ['stop', 'continue'];
+export const DIRTY_POLICIES: DirtyPolicy[] = ['abort', 'continue', 'stash'];
+/** Incoming actions and local states svn reports for tree conflicts */
+const TREE_INCOMING = ['edit', 'add', 'delete', 'replace'];
+const TREE_LOCAL = [
+  'edit', 'obstruction', 'delete', 'missing', 'unversioned', 'add', 'replace', 'moved-away', 'moved-here',
+];
+
 /**
  * Values that can be loaded from a YAML config file.
  * All fields are optional — CLI arguments always take precedence.
@@ -10,12 +34,55 @@ import * as path from 'path';
  *
  *   workspace: /path/to/working-copy
  *   from: http://svn.example.com/branches/feature
+ *   targets:                   # optional: merge into several working copies
+ *     - /path/to/release-1.0
+ *     - /path/to/release-1.1
+ *   on-target-failure: continue
+ *   on-dirty: stash            # optional: abort, continue or stash uncommitted changes
  *   ignore:
  *     - src/thirdparty/generated
  *     - assets/auto-generated/catalog.json
+ *   resolve:
+ *     - path: assets
+ *       accept: theirs-full
+ *     - path: config/localization
+ *       type: [text, property]
+ *       accept: postpone
+ *     - incoming: delete
+ *       local: edit
+ *       accept: fail
+ *   block: [1001, 1005-1007]
+ *   message:
+ *     template: "{verb} {revisions} from {branch}\n{entries}\n{conflicts}"
+ *     entry: "r{rev} {author} {date}: {body}"
+ *     first-line: true
+ *   tickets:                   # optional: collect ticket references from log messages
+ *     pattern: "#(\\d+)"
+ *     url: https://tracker.example.com/issue/{id}
+ *   log-level: debug           # optional: debug, info, warn, error
+ *   retention:                 # optional: prune old logs and reports at startup
+ *     max-count: 50
+ *     max-age: 30d
+ *   hooks:                     # optional: shell commands run at each stage
+ *     pre-merge: ./tools/check-build.sh
+ *     post-commit: [./tools/notify.sh]
+ *   author: [alice, bob]
+ *   grep: "#88279"
+ *   since: 7d
+ *   touching: src/gameplay
+ *   profiles:                  # optional: --profile <name> overrides the keys above
+ *     hotfix:
+ *       from: http://svn.example.com/branches/hotfix
+ *       commit: true
  */
 export interface ConfigFile {
   workspace?: string;
+  /** Working copies to merge into one after another; replaces `workspace` */
+  targets?: string[];
+  /** Whether a failed target stops the remaining ones (default stop) */
+  onTargetFailure?: TargetFailurePolicy;
+  /** What to do with uncommitted changes instead of asking (mirror of --on-dirty) */
+  onDirty?: DirtyPolicy;
   from?: string;
   /** Workspace-relative paths (files or folders) to silently discard on conflict */
   ignore?: string[];
@@ -27,48 +94,58 @@ export interface ConfigFile {
   output?: string;
   /** Mirror of the -V / --verbose CLI flag. */
   verbose?: boolean;
+  /** Lowest level written to the log and event files (mirror of --log-level) */
+  logLevel?: LogLevel;
+  /** Old runs whose logs and reports are deleted from the output directory at startup */
+  retention?: RetentionPolicy;
   /**
    * Automatically run `svn commit` after a successful merge.
    * Mirror of the -C / --commit CLI flag.
    */
   commit?: boolean;
+  /** `commit: each` — commit every revision separately (mirror of --commit-each) */
+  commitEach?: boolean;
+  /**
+   * Conflict resolution rules, checked in order (first match wins).
+   * Conflicts matching no rule use the built-in default
+   * (tree → working, text/property → theirs-full).
+   */
+  resolve?: ResolveRule[];
+  /** Machine-readable report formats. Mirror of the --report CLI option. */
+  report?: ReportFormat[];
+  /**
+   * Revision filter from the `author`, `grep`, `since`, `until` and `touching` keys.
+   * Mirror of the CLI options of the same names; each CLI option replaces its key.
+   */
+  filter?: RevisionFilter;
+  /** Revisions that must never be merged; skipped during auto-discovery */
+  block?: number[];
+  /** Commit message format; its keys replace those of the `.svnmergerc` section */
+  message?: MessageTemplate;
+  /** Ticket pattern and link for the Tickets section and --ticket */
+  tickets?: TicketConfig;
+  /** Shell commands run before the merge, after each revision, around the commit and on failure */
+  hooks?: HookConfig;
+  /** Name of the profile whose settings were applied (--profile) */
+  profile?: string;
+  /** Names of all profiles defined in the file */
+  profiles?: string[];
 }
 
 /**
  * Load and parse a YAML config file.
  * workspace paths are resolved relative to the config file's directory.
- * Throws if the file cannot be read or is malformed.
+ * With `profile`, the keys of that entry in `profiles:` replace the top-level ones.
+ * Throws if the file cannot be read or is malformed, or the profile does not exist.
  */
-export function loadConfig(configPath: string): ConfigFile {
+export function loadConfig(configPath: string, profile?: string): ConfigFile {
   const resolved = path.resolve(configPath);
-
-  if (!fs.existsSync(resolved)) {
-    throw new Error(`Config file not found: "${resolved}"`);
-  }
-
-  let raw: string;
-  try {
-    raw = fs.readFileSync(resolved, 'utf8');
-  } catch (e: unknown) {
-    const msg = e instanceof Error ? e.message : String(e);
-    throw new Error(`Cannot read config file "${resolved}": ${msg}`);
-  }
-
-  let parsed: unknown;
-  try {
-    parsed = yamlLoad(raw);
-  } catch (e: unknown) {
-    const msg = e instanceof Error ? e.message : String(e);
-    throw new Error(`Failed to parse YAML config "${resolved}": ${msg}`);
-  }
-
-  if (!parsed || typeof parsed !== 'object') {
-    throw new Error(`Config file "${resolved}" is empty or not a YAML mapping.`);
-  }
-
-  const doc = parsed as Record<string, unknown>;
+  const doc = selectProfile(readConfigDoc(resolved), profile, resolved);
   const config: ConfigFile = {};
   const dir = path.dirname(resolved);
+  if (profile) config.profile = profile;
+  const profiles = doc['profiles'];
+  if (profiles && typeof profiles === 'object') config.profiles = Object.keys(profiles);
 
   // workspace: resolve relative paths against the config file's directory
   const ws = doc['workspace'];
@@ -77,6 +154,36 @@ export function loadConfig(configPath: string): ConfigFile {
     config.workspace = path.isAbsolute(trimmed) ? trimmed : path.resolve(dir, trimmed);
   }
 
+  // targets: list of working copies, resolved like workspace
+  const targets = doc['targets'];
+  if (targets !== undefined) {
+    if (!Array.isArray(targets) || targets.length === 0 || targets.some((t) => typeof t !== 'string' || !t.trim())) {
+      throw new Error(`"targets" in config "${resolved}" must be a non-empty list of working copy paths.`);
+    }
+    config.targets = (targets as string[]).map((t) => {
+      const trimmed = t.trim();
+      return path.isAbsolute(trimmed) ? trimmed : path.resolve(dir, trimmed);
+    });
+  }
+
+  // on-target-failure: stop | continue
+  const onTargetFailure = doc['on-target-failure'];
+  if (onTargetFailure !== undefined) {
+    if (!TARGET_FAILURE_POLICIES.includes(onTargetFailure as TargetFailurePolicy)) {
+      throw new Error(`"on-target-failure" in config "${resolved}" must be ${TARGET_FAILURE_POLICIES.join(' or ')}.`);
+    }
+    config.onTargetFailure = onTargetFailure as TargetFailurePolicy;
+  }
+
+  // on-dirty: abort | continue | stash
+  const onDirty = doc['on-dirty'];
+  if (onDirty !== undefined) {
+    if (!DIRTY_POLICIES.includes(onDirty as DirtyPolicy)) {
+      throw new Error(`"on-dirty" in config "${resolved}" must be ${DIRTY_POLICIES.join(', ')}.`);
+    }
+    config.onDirty = onDirty as DirtyPolicy;
+  }
+
   // from
   const fromUrl = doc['from'];
   if (typeof fromUrl === 'string' && fromUrl.trim()) {
@@ -103,15 +210,260 @@ export function loadConfig(configPath: string): ConfigFile {
     config.verbose = verbose;
   }
 
-  // commit
+  // log-level: debug | info | warn | error
+  const logLevel = doc['log-level'];
+  if (logLevel !== undefined) {
+    if (!LOG_LEVELS.includes(logLevel as LogLevel)) {
+      throw new Error(`"log-level" in config "${resolved}" must be ${LOG_LEVELS.join(', ')}.`);
+    }
+    config.logLevel = logLevel as LogLevel;
+  }
+
+  // retention: { max-count?, max-age? }
+  if (doc['retention'] !== undefined) {
+    config.retention = parseRetention(doc['retention'], `config "${resolved}"`);
+  }
+
+  // commit: true / false, or "each" for one commit per revision
   const commit = doc['commit'];
   if (typeof commit === 'boolean') {
     config.commit = commit;
+  } else if (commit === 'each') {
+    config.commitEach = true;
+  } else if (commit !== undefined) {
+    throw new Error(`"commit" in config "${resolved}" must be true, false or each.`);
+  }
+
+  // report: a format name, a comma-separated string, or a list of names
+  const report = doc['report'];
+  if (typeof report === 'string' || Array.isArray(report)) {
+    const value = Array.isArray(report) ? report.filter((x) => typeof x === 'string').join(',') : report;
+    try {
+      config.report = parseReportFormats(value);
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      throw new Error(`Invalid "report" in config "${resolved}": ${msg}`);
+    }
+  }
+
+  // resolve: list of { path?, type?, accept }
+  const resolve = doc['resolve'];
+  if (resolve !== undefined) {
+    config.resolve = parseResolveRules(resolve, resolved);
+  }
+
+  // block: revision numbers or ranges ("1005-1007")
+  const block = doc['block'];
+  if (block !== undefined) {
+    const items = Array.isArray(block) ? block : [block];
+    try {
+      config.block = parseRevisionList(items.map(String).join(','));
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      throw new Error(`Invalid "block" in config "${resolved}": ${msg}`);
+    }
+  }
+
+  // message: { template?, entry?, first-line? }
+  if (doc['message'] !== undefined) {
+    config.message = parseMessageTemplate(doc['message'], `config "${resolved}"`);
+  }
+
+  // tickets: { pattern?, url? } or a bare pattern
+  if (doc['tickets'] !== undefined) {
+    config.tickets = parseTicketConfig(doc['tickets'], `config "${resolved}"`);
+  }
+
+  // hooks: { <stage>: command or list of commands }
+  if (doc['hooks'] !== undefined) {
+    config.hooks = parseHooks(doc['hooks'], `config "${resolved}"`);
+  }
+
+  // author / grep / since / until / touching: revision filter
+  const filter = parseFilter(doc, resolved);
+  if (filter) {
+    config.filter = filter;
   }
 
   return config;
 }
 
+/** Read and parse the YAML document of a config file. */
+function readConfigDoc(resolved: string): Record<string, unknown> {
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Config file not found: "${resolved}"`);
+  }
+
+  let raw: string;
+  try {
+    raw = fs.readFileSync(resolved, 'utf8');
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    throw new Error(`Cannot read config file "${resolved}": ${msg}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = yamlLoad(raw);
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    throw new Error(`Failed to parse YAML config "${resolved}": ${msg}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error(`Config file "${resolved}" is empty or not a YAML mapping.`);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/** Profiles of a config document, validated: name → mapping of overrides. */
+function profileMap(doc: Record<string, unknown>, configPath: string): Record<string, Record<string, unknown>> {
+  const profiles = doc['profiles'];
+  if (profiles === undefined) return {};
+  if (!profiles || typeof profiles !== 'object' || Array.isArray(profiles)) {
+    throw new Error(`"profiles" in config "${configPath}" must be a mapping of profile names to settings.`);
+  }
+  for (const [name, value] of Object.entries(profiles)) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error(`Profile "${name}" in config "${configPath}" must be a mapping.`);
+    }
+    if ('profiles' in value) {
+      throw new Error(`Profile "${name}" in config "${configPath}" cannot contain "profiles".`);
+    }
+  }
+  return profiles as Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Apply a profile: its keys replace the top-level keys of the same name
+ * (lists such as `ignore` are replaced, not appended).
+ * Without a profile, the top-level settings are used as they are.
+ */
+function selectProfile(doc: Record<string, unknown>, profile: string | undefined, configPath: string): Record<string, unknown> {
+  const profiles = profileMap(doc, configPath);
+  if (profile === undefined) return doc;
+  const overrides = profiles[profile];
+  if (!overrides) {
+    const names = Object.keys(profiles);
+    throw new Error(
+      `Profile "${profile}" not found in config "${configPath}". ` +
+      (names.length > 0 ? `Available: ${names.join(', ')}.` : 'The config has no "profiles" section.')
+    );
+  }
+  return { ...doc, ...overrides };
+}
+
+/**
+ * List the profiles of a config file in file order, with the source URL each one
+ * merges from (its own `from`, or the top-level default).
+ * Throws if the file cannot be read or is malformed.
+ */
+export function listProfiles(configPath: string): { name: string; from?: string }[] {
+  const resolved = path.resolve(configPath);
+  const doc = readConfigDoc(resolved);
+  return Object.entries(profileMap(doc, resolved)).map(([name, overrides]) => {
+    const from = overrides['from'] ?? doc['from'];
+    return { name, from: typeof from === 'string' && from.trim() ? from.trim() : undefined };
+  });
+}
+
+/**
+ * Validate the `resolve:` section.
+ * `type`, `incoming` and `local` may be a single value or a list of them.
+ * A rule with `incoming` or `local` only matches tree conflicts.
+ */
+function parseResolveRules(value: unknown, configPath: string): ResolveRule[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`"resolve" in config "${configPath}" must be a list of rules.`);
+  }
+  return value.map((item, index) => {
+    const where = `resolve[${index}] in config "${configPath}"`;
+    if (!item || typeof item !== 'object') {
+      throw new Error(`${where} must be a mapping with "accept" and optional "path"/"type"/"incoming"/"local".`);
+    }
+    const entry = item as Record<string, unknown>;
+
+    const accept = entry['accept'];
+    if (typeof accept !== 'string' || !RESOLVE_STRATEGIES.includes(accept as ResolveStrategy)) {
+      throw new Error(`${where}: "accept" must be one of ${RESOLVE_STRATEGIES.join(', ')}.`);
+    }
+    const rule: ResolveRule = { accept: accept as ResolveStrategy };
+
+    const rulePath = entry['path'];
+    if (typeof rulePath === 'string' && rulePath.trim()) {
+      rule.path = rulePath.trim();
+    } else if (rulePath !== undefined) {
+      throw new Error(`${where}: "path" must be a non-empty string.`);
+    }
+
+    const type = entry['type'];
+    if (type !== undefined) {
+      const types = Array.isArray(type) ? type : [type];
+      for (const t of types) {
+        if (!CONFLICT_TYPES.includes(t as ConflictType)) {
+          throw new Error(`${where}: "type" must be ${CONFLICT_TYPES.join(', ')} or a list of them.`);
+        }
+      }
+      rule.types = types as ConflictType[];
+    }
+
+    for (const [key, allowed] of [['incoming', TREE_INCOMING], ['local', TREE_LOCAL]] as const) {
+      const value = entry[key];
+      if (value === undefined) continue;
+      const values = Array.isArray(value) ? value : [value];
+      for (const v of values) {
+        if (!allowed.includes(v as string)) {
+          throw new Error(`${where}: "${key}" must be ${allowed.join(', ')} or a list of them.`);
+        }
+      }
+      rule[key] = values as string[];
+    }
+    if ((rule.incoming || rule.local) && rule.types && !rule.types.includes('tree')) {
+      throw new Error(`${where}: "incoming"/"local" only apply to tree conflicts.`);
+    }
+
+    return rule;
+  });
+}
+
+/** A string or a list of strings (also accepts a comma-separated string). */
+function stringList(value: unknown, key: string, configPath: string): string[] {
+  const items = Array.isArray(value) ? value : [value];
+  if (items.some((item) => typeof item !== 'string')) {
+    throw new Error(`"${key}" in config "${configPath}" must be a string or a list of strings.`);
+  }
+  return (items as string[]).flatMap((item) => item.split(',')).map((s) => s.trim()).filter(Boolean);
+}
+
+/**
+ * Read the revision filter keys. YAML turns unquoted dates into Date objects;
+ * those are converted back to YYYY-MM-DD (or an ISO timestamp when they have a time).
+ */
+function parseFilter(doc: Record<string, unknown>, configPath: string): RevisionFilter | undefined {
+  const filter: RevisionFilter = {};
+  if (doc['author'] !== undefined) filter.authors = stringList(doc['author'], 'author', configPath);
+  if (doc['touching'] !== undefined) filter.touching = stringList(doc['touching'], 'touching', configPath);
+  if (doc['grep'] !== undefined) {
+    if (typeof doc['grep'] !== 'string') {
+      throw new Error(`"grep" in config "${configPath}" must be a string.`);
+    }
+    filter.grep = doc['grep'];
+  }
+  for (const key of ['since', 'until'] as const) {
+    const value = doc[key];
+    if (value === undefined) continue;
+    if (value instanceof Date) {
+      const iso = value.toISOString();
+      filter[key] = iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+    } else if (typeof value === 'string' && value.trim()) {
+      filter[key] = value.trim();
+    } else {
+      throw new Error(`"${key}" in config "${configPath}" must be a date (YYYY-MM-DD) or an age like 7d.`);
+    }
+  }
+  return Object.keys(filter).length > 0 ? filter : undefined;
+}
+
 /**
  * Walk up the directory tree from `startDir`, looking for `svn-merge-tool.yaml` or `.yml`.
  * Returns the absolute path to the first match found, or undefined if none exists.
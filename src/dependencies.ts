@@ -0,0 +1,90 @@
+import { branchRelative } from './filter';
+import { LogEntry } from './types';
+
+/**
+ * An eligible revision that was not selected but changes paths that a later
+ * selected revision also changes. Merging the later one without it usually
+ * conflicts or leaves half a change.
+ */
+export interface RevisionDependency {
+  /** The unselected eligible revision */
+  revision: number;
+  /** Selected revisions after it that change the same paths */
+  dependents: number[];
+  /** Repository paths changed by both, from the unselected revision's log */
+  paths: string[];
+}
+
+/** Actions that change everything below a directory, not just its properties. */
+const TREE_ACTIONS = ['A', 'D', 'R'];
+
+type ChangedPath = NonNullable<LogEntry['paths']>[number];
+
+/**
+ * True when two changed paths touch the same content: the same path, or a
+ * directory that was added, deleted or replaced and a path below it.
+ * A modified directory (`M`) is only a property change, e.g. svn:mergeinfo,
+ * and does not cover its children.
+ */
+function overlaps(a: ChangedPath, b: ChangedPath): boolean {
+  if (a.path === b.path) return true;
+  if (TREE_ACTIONS.includes(a.action) && b.path.startsWith(a.path + '/')) return true;
+  if (TREE_ACTIONS.includes(b.action) && a.path.startsWith(b.path + '/')) return true;
+  return false;
+}
+
+/**
+ * Find the eligible revisions that are not in `selected` but come before a
+ * selected revision changing the same paths. `entries` must hold verbose log
+ * entries (with changed paths) of the selected and the eligible revisions;
+ * revisions without one are skipped. Sorted by revision.
+ */
+export function findDependencies(
+  selected: number[],
+  eligible: number[],
+  entries: Map<number, LogEntry>,
+): RevisionDependency[] {
+  const chosen = new Set(selected);
+  const sortedSelected = [...chosen].sort((a, b) => a - b);
+  const dependencies: RevisionDependency[] = [];
+  for (const revision of [...new Set(eligible)].sort((a, b) => a - b)) {
+    if (chosen.has(revision)) continue;
+    const changed = entries.get(revision)?.paths ?? [];
+    if (changed.length === 0) continue;
+    const dependents: number[] = [];
+    const paths = new Set<string>();
+    for (const later of sortedSelected.filter((rev) => rev > revision)) {
+      const shared = changed.filter((p) => (entries.get(later)?.paths ?? []).some((q) => overlaps(p, q)));
+      if (shared.length === 0) continue;
+      dependents.push(later);
+      for (const p of shared) paths.add(p.path);
+    }
+    if (dependents.length > 0) {
+      dependencies.push({ revision, dependents, paths: [...paths].sort() });
+    }
+  }
+  return dependencies;
+}
+
+/**
+ * Console lines for the dependency warning, two per revision:
+ *   r1003 → r1005, r1007  src/hero.lua, src/skill.lua (+1 more)
+ *     Fix hero buff
+ * Paths are relative to the source branch; at most `maxPaths` are listed.
+ */
+export function formatDependencies(
+  dependencies: RevisionDependency[],
+  entries: Map<number, LogEntry>,
+  fromUrl: string,
+  maxPaths = 3,
+): string[] {
+  return dependencies.flatMap((dep) => {
+    const rel = dep.paths.map((p) => branchRelative(p, fromUrl) || '.');
+    const more = rel.length > maxPaths ? ` (+${rel.length - maxPaths} more)` : '';
+    const firstLine = (entries.get(dep.revision)?.message ?? '').split('\n')[0].trim();
+    return [
+      `r${dep.revision} → ${dep.dependents.map((r) => `r${r}`).join(', ')}  ${rel.slice(0, maxPaths).join(', ')}${more}`,
+      `  ${firstLine || '(no message)'}`,
+    ];
+  });
+}
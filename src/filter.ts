@@ -0,0 +1,138 @@
+import { LogEntry, RevisionFilter } from './types';
+import { compileTicketPattern, DEFAULT_TICKET_PATTERN, extractTickets, referencesTicket } from './tickets';
+import { matchesPath } from './utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AGE_UNITS_MS: Record<string, number> = { h: 60 * 60 * 1000, d: DAY_MS, w: 7 * DAY_MS };
+
+/**
+ * Parse a --since/--until value into a timestamp (ms).
+ * Accepts YYYY-MM-DD (local time), an ISO 8601 timestamp, or an age such as
+ * 12h, 7d or 2w counted back from `now`. A plain date used as an upper bound
+ * covers the whole day. Throws on anything else.
+ */
+export function parseDateBound(value: string, upper: boolean, now: Date = new Date()): number {
+  const text = value.trim();
+  const age = text.match(/^(\d+)([hdw])$/i);
+  if (age) {
+    return now.getTime() - parseInt(age[1], 10) * AGE_UNITS_MS[age[2].toLowerCase()];
+  }
+  const day = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (day) {
+    const start = new Date(parseInt(day[1], 10), parseInt(day[2], 10) - 1, parseInt(day[3], 10)).getTime();
+    return upper ? start + DAY_MS - 1 : start;
+  }
+  const time = Date.parse(text);
+  if (/^\d{4}-\d{2}-\d{2}T/.test(text) && !isNaN(time)) {
+    return time;
+  }
+  throw new Error(`Invalid date "${value}". Use YYYY-MM-DD, an ISO 8601 timestamp, or an age like 7d, 2w, 12h.`);
+}
+
+/** True when no field of the filter is set. */
+export function isFilterEmpty(filter: RevisionFilter): boolean {
+  return !filter.authors?.length && !filter.grep && !filter.since && !filter.until && !filter.touching?.length
+    && !filter.tickets?.length;
+}
+
+/** One-line description for the parameters and the log header, e.g. `author=alice,bob  grep=#88279`. */
+export function describeFilter(filter: RevisionFilter): string {
+  const parts: string[] = [];
+  if (filter.authors?.length) parts.push(`author=${filter.authors.join(',')}`);
+  if (filter.grep) parts.push(`grep=${filter.grep}`);
+  if (filter.since) parts.push(`since=${filter.since}`);
+  if (filter.until) parts.push(`until=${filter.until}`);
+  if (filter.touching?.length) parts.push(`touching=${filter.touching.join(',')}`);
+  if (filter.tickets?.length) parts.push(`ticket=${filter.tickets.join(',')}`);
+  return parts.join('  ');
+}
+
+/**
+ * Path of a changed path relative to the source branch.
+ * Changed paths are repository-absolute (`/trunk/src/a.lua`) while `fromUrl`
+ * also contains the server and repository location, so the longest trailing
+ * part of the URL path that prefixes the changed path is taken as the branch.
+ */
+export function branchRelative(changedPath: string, fromUrl: string): string {
+  let urlPath: string;
+  try {
+    urlPath = decodeURIComponent(new URL(fromUrl).pathname);
+  } catch {
+    urlPath = fromUrl;
+  }
+  const segments = urlPath.split('/').filter(Boolean);
+  for (let i = 0; i < segments.length; i++) {
+    const branch = '/' + segments.slice(i).join('/');
+    if (changedPath === branch) return '';
+    if (changedPath.startsWith(branch + '/')) return changedPath.slice(branch.length + 1);
+  }
+  return changedPath.replace(/^\/+/, '');
+}
+
+/**
+ * Build a predicate over log entries for the filter.
+ * Throws if `grep` or the ticket pattern is not a valid regular expression or
+ * a date cannot be parsed. `touching` needs entries fetched with changed paths.
+ * `tickets` are looked up with `ticketPattern` (default `#(\d+)`).
+ */
+export function compileFilter(
+  filter: RevisionFilter,
+  fromUrl: string,
+  now: Date = new Date(),
+  ticketPattern: string = DEFAULT_TICKET_PATTERN
+): (entry: LogEntry) => boolean {
+  const authors = filter.authors?.map((a) => a.toLowerCase());
+  let grep: RegExp | undefined;
+  if (filter.grep) {
+    try {
+      grep = new RegExp(filter.grep, 'i');
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      throw new Error(`Invalid --grep pattern: ${msg}`);
+    }
+  }
+  const since = filter.since ? parseDateBound(filter.since, false, now) : undefined;
+  const until = filter.until ? parseDateBound(filter.until, true, now) : undefined;
+  const touching = filter.touching?.length ? filter.touching : undefined;
+  const tickets = filter.tickets?.length ? filter.tickets : undefined;
+  const ticketRegex = tickets ? compileTicketPattern(ticketPattern) : undefined;
+
+  return (entry: LogEntry): boolean => {
+    if (authors && !authors.includes(entry.author.toLowerCase())) return false;
+    if (grep && !grep.test(entry.message)) return false;
+    if (since !== undefined || until !== undefined) {
+      const time = Date.parse(entry.date);
+      if (isNaN(time)) return false;
+      if (since !== undefined && time < since) return false;
+      if (until !== undefined && time > until) return false;
+    }
+    if (touching) {
+      const changed = (entry.paths ?? []).map((p) => branchRelative(p.path, fromUrl));
+      if (!changed.some((rel) => touching.some((pattern) => matchesPath(rel, pattern)))) return false;
+    }
+    if (tickets && ticketRegex) {
+      const refs = extractTickets(entry.message, ticketRegex);
+      if (!tickets.some((ticket) => referencesTicket(refs, ticket))) return false;
+    }
+    return true;
+  };
+}
+
+/**
+ * Keep the revisions whose log entry matches the filter, in their original order.
+ * Revisions without a log entry are dropped.
+ */
+export function filterRevisions(
+  revisions: number[],
+  entries: Map<number, LogEntry>,
+  filter: RevisionFilter,
+  fromUrl: string,
+  now: Date = new Date(),
+  ticketPattern?: string
+): number[] {
+  const matches = compileFilter(filter, fromUrl, now, ticketPattern);
+  return revisions.filter((rev) => {
+    const entry = entries.get(rev);
+    return entry !== undefined && matches(entry);
+  });
+}
@@ -0,0 +1,199 @@
+import { parseDateBound } from './filter';
+import { listSessionFiles, loadSession, startTime } from './session';
+import { MergeSession, RevisionMergeResult } from './types';
+import {
+    branchName, compressRevisions, describeTreeConflict, formatConflictLine, formatIgnored, formatResolution,
+    groupSummaryByType, matchesPath, relPath
+} from './utils';
+
+/**
+ * Which sessions `history` lists. Every set field must match:
+ * a session matches `revisions` when it merged (or tried) any of them,
+ * and `paths` when any conflict, ignored or modified path is under one of them.
+ */
+export interface HistoryFilter {
+  revisions?: number[];
+  paths?: string[];
+  /** YYYY-MM-DD, ISO 8601 or an age like 7d (as --since) */
+  since?: string;
+  until?: string;
+}
+
+/**
+ * Load the sessions recorded in the output directory, newest first.
+ * Unreadable session files are skipped.
+ */
+export function loadHistory(outputDir: string): MergeSession[] {
+  const sessions: MergeSession[] = [];
+  for (const file of listSessionFiles(outputDir)) {
+    try {
+      sessions.push(loadSession(file));
+    } catch {
+      // skip corrupt or foreign files
+    }
+  }
+  return sessions;
+}
+
+/** Workspace-relative paths a revision touched: conflicts, ignored paths and modified paths. */
+function resultPaths(result: RevisionMergeResult, workspace: string): string[] {
+  return [
+    ...result.conflicts.map((c) => c.path),
+    ...result.reverted.map((r) => r.path),
+    ...result.modified.map((m) => m.path),
+  ].map((p) => relPath(p, workspace));
+}
+
+/**
+ * Keep the sessions that match the filter.
+ * Throws when `since` or `until` is not a valid date.
+ */
+export function filterHistory(sessions: MergeSession[], filter: HistoryFilter, now: Date = new Date()): MergeSession[] {
+  const since = filter.since ? parseDateBound(filter.since, false, now) : undefined;
+  const until = filter.until ? parseDateBound(filter.until, true, now) : undefined;
+  return sessions.filter((session) => {
+    const time = startTime(session.startTs);
+    if (since !== undefined && time < since) return false;
+    if (until !== undefined && time > until) return false;
+    if (filter.revisions?.length && !filter.revisions.some((rev) => session.options.revisions.includes(rev))) return false;
+    if (filter.paths?.length) {
+      const paths = session.results.flatMap((r) => resultPaths(r, session.options.workspace));
+      if (!paths.some((p) => filter.paths!.some((pattern) => matchesPath(p, pattern)))) return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Find a session by its start timestamp or a unique prefix of it, e.g. `20240315`.
+ * Throws when no session or more than one session matches.
+ */
+export function findSession(sessions: MergeSession[], id: string): MergeSession {
+  const matches = sessions.filter((s) => s.startTs.startsWith(id));
+  if (matches.length === 0) {
+    throw new Error(`No merge session "${id}" in the history.`);
+  }
+  if (matches.length > 1 && !matches.some((s) => s.startTs === id)) {
+    throw new Error(`"${id}" matches ${matches.length} sessions (${matches.map((s) => s.startTs).join(', ')}); give more digits.`);
+  }
+  return matches.find((s) => s.startTs === id) ?? matches[0];
+}
+
+/** `2024-03-15 12:00` from a yyyymmddhhmmss timestamp */
+export function formatStartTs(startTs: string): string {
+  return `${startTs.slice(0, 4)}-${startTs.slice(4, 6)}-${startTs.slice(6, 8)} ${startTs.slice(8, 10)}:${startTs.slice(10, 12)}`;
+}
+
+/** Status of one revision of a session: ok, conflicts, FAILED or not merged. */
+export function revisionOutcome(session: MergeSession, revision: number): string {
+  const result = session.results.find((r) => r.revision === revision);
+  if (!result) return 'not merged';
+  if (!result.success) return `FAILED${result.errorMessage ? `: ${result.errorMessage}` : ''}`;
+  const active = result.conflicts.filter((c) => !c.ignored).length;
+  const status = active > 0 ? `${active} conflict(s)` : 'ok';
+  return result.committedRevision ? `${status} → r${result.committedRevision}` : status;
+}
+
+/** One-line outcome of a session, e.g. `completed: 2 ok, 1 conflicts, 1 not merged`. */
+export function describeOutcome(session: MergeSession): string {
+  const failed = session.results.filter((r) => !r.success).length;
+  const conflicts = session.results.filter((r) => r.success && r.conflicts.some((c) => !c.ignored)).length;
+  const ok = session.results.length - failed - conflicts;
+  const notMerged = session.options.revisions.length - session.results.length;
+  const counts = [
+    `${ok} ok`,
+    conflicts > 0 ? `${conflicts} conflicts` : '',
+    failed > 0 ? `${failed} failed` : '',
+    notMerged > 0 ? `${notMerged} not merged` : '',
+  ].filter(Boolean);
+  return `${session.status === 'running' ? 'unfinished' : 'completed'}: ${counts.join(', ')}`;
+}
+
+/** Committed revision(s) of a session, or the commit status when nothing was committed. */
+export function describeSessionCommit(session: MergeSession): string {
+  const committed = session.results.filter((r) => r.committedRevision).map((r) => `r${r.committedRevision}`);
+  if (committed.length > 0) return committed.join(', ');
+  if (session.commit?.status === 'committed') return session.commit.revision ? `r${session.commit.revision}` : 'committed';
+  return session.commit && session.commit.status !== 'disabled' ? session.commit.status : '-';
+}
+
+/**
+ * Format the session list, one row per session:
+ *   date              session         source  revisions  outcome                commit
+ *   2024-03-15 12:00  20240315120000  trunk   101-103    completed: 3 ok        r5012
+ * With `revisions`, each row is followed by the outcome of those revisions in the
+ * session and the conflicts they left, with the resolution that was applied.
+ */
+export function formatHistory(sessions: MergeSession[], revisions: number[] = []): string[] {
+  const rows = sessions.map((s) => [
+    formatStartTs(s.startTs),
+    s.startTs,
+    branchName(s.options.fromUrl),
+    `${s.options.reverse ? 'undo ' : ''}${compressRevisions(s.options.revisions)}`,
+    describeOutcome(s),
+    describeSessionCommit(s),
+  ]);
+  const header = ['date', 'session', 'source', 'revisions', 'outcome', 'commit'];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)));
+  const format = (row: string[]) => row.map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i]))).join('  ');
+
+  const lines = [format(header)];
+  sessions.forEach((session, index) => {
+    lines.push(format(rows[index]));
+    for (const rev of revisions.filter((r) => session.options.revisions.includes(r))) {
+      lines.push(`  r${rev}  ${revisionOutcome(session, rev)}`);
+      const result = session.results.find((r) => r.revision === rev);
+      for (const c of result?.conflicts.filter((c) => !c.ignored) ?? []) {
+        const rel = relPath(c.path, session.options.workspace);
+        lines.push(`    ${formatConflictLine(c.type, c.isDirectory, rel, formatResolution(c.resolution, c.rule, c.interactive), c.treeConflict)}`);
+      }
+    }
+  });
+  return lines;
+}
+
+/**
+ * Format one session in full: its parameters, every revision, the conflict
+ * summary (ignored conflicts included) and the merge message.
+ */
+export function formatSessionDetail(session: MergeSession): string[] {
+  const { options } = session;
+  const lines = [
+    `Session   : ${session.startTs} (${formatStartTs(session.startTs)})`,
+    `workspace : ${options.workspace}`,
+    `from      : ${options.fromUrl}`,
+    `revisions : ${compressRevisions(options.revisions)}${options.reverse ? ' (reverse merge)' : ''}`,
+    `outcome   : ${describeOutcome(session)}`,
+    `commit    : ${describeSessionCommit(session)}${session.commit?.message ? ` (${session.commit.message})` : ''}`,
+    ...session.logFiles.map((file, i) => `${i === 0 ? 'log       : ' : '            '}${file}`),
+    '',
+    'Revisions:',
+    ...options.revisions.map((rev) => `  r${rev}  ${revisionOutcome(session, rev)}`),
+  ];
+
+  const groups = groupSummaryByType(session.results, options.workspace);
+  const typeLabels: Record<string, string> = {
+    tree: 'Tree Conflicts',
+    text: 'Text Conflicts',
+    property: 'Property Conflicts',
+  };
+  if ([...groups.values()].some((entries) => entries.length > 0)) {
+    lines.push('', 'Merge Summary:');
+    for (const [type, entries] of groups) {
+      if (entries.length === 0) continue;
+      const active = entries.filter((e) => !e.ignored);
+      const ignored = entries.length - active.length;
+      lines.push(`  ${typeLabels[type]} (${active.length}${ignored > 0 ? ` + ${ignored} ignored` : ''}):`);
+      for (const e of entries) {
+        const kindTag = e.isDirectory ? '[D]' : '[F]';
+        const resolution = e.ignored ? formatIgnored(e.ignoredBy) : formatResolution(e.resolution, e.rule, e.interactive);
+        const detail = e.treeConflict ? `  ${describeTreeConflict(e.treeConflict)}` : '';
+        lines.push(`    ${kindTag}  ${e.relPath}  (${resolution})${detail}`);
+      }
+    }
+  }
+
+  lines.push('', 'Merge Message:');
+  lines.push(session.message ? session.message.replace(/\n$/, '') : '  (not recorded)');
+  return lines;
+}
@@ -0,0 +1,144 @@
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { Logger } from './logger';
+import { CommitOutcome, HookConfig, HookRun, HookStage, MergeSummary, RevisionMergeResult } from './types';
+import { relPath } from './utils';
+
+export const HOOK_STAGES: HookStage[] = ['pre-merge', 'post-revision', 'pre-commit', 'post-commit', 'on-failure'];
+
+/**
+ * What a hook is told about the run. Written as JSON to the context file
+ * (SVNMERGE_CONTEXT); the most used fields are also set as environment variables.
+ */
+export interface HookContext {
+  stage: HookStage;
+  workspace: string;
+  fromUrl: string;
+  /** Revisions of the run, in merge order */
+  revisions: number[];
+  /** The revision just merged (post-revision) or about to be committed (--commit-each) */
+  revision?: RevisionMergeResult;
+  /** Summary so far (commit hooks) or of the whole run (on-failure) */
+  summary?: MergeSummary;
+  /** File holding the commit message; a pre-commit hook may edit it */
+  messageFile?: string;
+  commit?: CommitOutcome;
+  /** Why the run failed (on-failure) */
+  error?: string;
+  logFile?: string;
+}
+
+/**
+ * Validate the `hooks:` section of a config file:
+ *   hooks:
+ *     pre-merge: ./tools/check-build.sh
+ *     post-commit:
+ *       - ./tools/notify.sh
+ *       - ./tools/tag.sh
+ * Each stage takes one command or a list of them. Throws with `where` in the message.
+ */
+export function parseHooks(value: unknown, where: string): HookConfig {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`"hooks" in ${where} must be a mapping of stages to commands.`);
+  }
+  const hooks: HookConfig = {};
+  for (const [key, raw] of Object.entries(value)) {
+    if (!HOOK_STAGES.includes(key as HookStage)) {
+      throw new Error(`Unknown hook stage "hooks.${key}" in ${where}. Use ${HOOK_STAGES.join(', ')}.`);
+    }
+    const commands = Array.isArray(raw) ? raw : [raw];
+    if (commands.length === 0 || commands.some((c) => typeof c !== 'string' || !c.trim())) {
+      throw new Error(`"hooks.${key}" in ${where} must be a command or a list of commands.`);
+    }
+    hooks[key as HookStage] = (commands as string[]).map((c) => c.trim());
+  }
+  return hooks;
+}
+
+/** Environment variables describing the context, on top of the tool's own environment. */
+export function hookEnvironment(context: HookContext, contextFile: string): Record<string, string> {
+  const env: Record<string, string> = {
+    SVNMERGE_HOOK: context.stage,
+    SVNMERGE_WORKSPACE: context.workspace,
+    SVNMERGE_FROM: context.fromUrl,
+    SVNMERGE_REVISIONS: context.revisions.join(','),
+    SVNMERGE_CONTEXT: contextFile,
+  };
+  const { revision } = context;
+  if (revision) {
+    env.SVNMERGE_REVISION = String(revision.revision);
+    env.SVNMERGE_CONFLICTS = revision.conflicts
+      .filter((c) => !c.ignored)
+      .map((c) => relPath(c.path, context.workspace))
+      .join('\n');
+    env.SVNMERGE_MODIFIED = revision.modified.map((m) => relPath(m.path, context.workspace)).join('\n');
+  }
+  if (context.messageFile) env.SVNMERGE_MESSAGE_FILE = context.messageFile;
+  if (context.logFile) env.SVNMERGE_LOG = context.logFile;
+  if (context.commit?.revision !== undefined) env.SVNMERGE_COMMITTED_REVISION = String(context.commit.revision);
+  if (context.error) env.SVNMERGE_ERROR = context.error;
+  return env;
+}
+
+/**
+ * Run the commands of one stage in the working copy, in order, through the shell.
+ * Their output goes to the console and the log. The first command that exits
+ * non-zero ends the stage; the caller decides what a failure means.
+ * Returns the commands that ran (none when the stage has no hooks).
+ */
+export function runHooks(hooks: HookConfig, context: HookContext, contextFile: string, logger?: Logger): HookRun[] {
+  const commands = hooks[context.stage] ?? [];
+  if (commands.length === 0) return [];
+  fs.mkdirSync(path.dirname(contextFile), { recursive: true });
+  fs.writeFileSync(contextFile, JSON.stringify(context, null, 2) + '\n', 'utf8');
+  const env = { ...process.env, ...hookEnvironment(context, contextFile) };
+
+  const runs: HookRun[] = [];
+  for (const command of commands) {
+    const label = `Hook ${context.stage}${context.revision ? ` (r${context.revision.revision})` : ''}: ${command}`;
+    console.log(label);
+    logger?.log(label);
+    const started = Date.now();
+    const result = spawnSync(command, {
+      shell: true, cwd: context.workspace, env, encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe'], windowsHide: true,
+    });
+    const output = [result.stdout, result.stderr].filter(Boolean).join('').trimEnd();
+    if (output) {
+      console.log(output);
+      logger?.appendRaw(output + '\n');
+    }
+    const exitCode = result.error || result.status === null ? -1 : result.status;
+    const run: HookRun = { stage: context.stage, command, exitCode, durationMs: Date.now() - started };
+    if (context.revision) run.revision = context.revision.revision;
+    runs.push(run);
+    if (exitCode !== 0) {
+      const reason = result.error ? result.error.message : result.signal ? `killed by ${result.signal}` : `exit code ${exitCode}`;
+      const msg = `Hook ${context.stage} failed (${reason}): ${command}`;
+      console.error(`\x1b[31m${msg}\x1b[0m`);
+      logger?.log(msg, 'error');
+      break;
+    }
+  }
+  return runs;
+}
+
+/** True when every command of the runs exited with 0. */
+export function hooksPassed(runs: HookRun[]): boolean {
+  return runs.every((r) => r.exitCode === 0);
+}
+
+/**
+ * One summary line per hook command:
+ *   pre-merge      ok          ./tools/check.sh
+ *   pre-commit     FAILED (2)  ./tools/validate-message.sh
+ */
+export function formatHookRuns(runs: HookRun[]): string[] {
+  const width = Math.max(...runs.map((r) => r.stage.length));
+  return runs.map((r) => {
+    const status = r.exitCode === 0 ? 'ok' : `FAILED (${r.exitCode})`;
+    const rev = r.revision !== undefined ? `  r${r.revision}` : '';
+    return `${r.stage.padEnd(width)}  ${status.padEnd(11)}${rev}  ${r.command}`;
+  });
+}
@@ -0,0 +1,260 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { describeFilter } from './filter';
+import { formatHookRuns } from './hooks';
+import { MergeReport } from './report';
+import { ConflictType, MergeOptions, RevisionMergeResult } from './types';
+import {
+    branchName, compressRevisions, describeRule, describeTreeConflict, formatIgnored, formatResolution, groupSummaryByType,
+    relPath
+} from './utils';
+
+const TYPE_LABELS: Record<ConflictType, string> = {
+  tree: 'Tree Conflicts',
+  text: 'Text Conflicts',
+  property: 'Property Conflicts',
+};
+
+/** Inline stylesheet: the page has no external assets so it can be mailed or archived as one file. */
+const STYLE = `
+body { font: 14px/1.5 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2328; margin: 2em auto; max-width: 1100px; padding: 0 1em; }
+h1 { font-size: 1.6em; margin-bottom: 0.2em; }
+h2 { font-size: 1.25em; border-bottom: 1px solid #d0d7de; padding-bottom: 0.3em; margin-top: 2em; }
+h3 { font-size: 1.05em; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #d0d7de; padding: 4px 8px; text-align: left; vertical-align: top; }
+th { background: #f6f8fa; }
+td.num { text-align: right; }
+pre { background: #f6f8fa; border: 1px solid #d0d7de; padding: 8px; white-space: pre-wrap; word-break: break-word; }
+code, pre { font-family: ui-monospace, SFMono-Regular, Consolas, monospace; font-size: 13px; }
+details { margin: 2px 0 2px 1em; }
+summary { cursor: pointer; }
+ul.paths { list-style: none; margin: 0; padding-left: 1.5em; }
+.ok { color: #1a7f37; }
+.conflicts { color: #9a6700; }
+.failed, .tree { color: #cf222e; }
+.muted, .ignored { color: #6e7781; }
+.tag { font-family: ui-monospace, SFMono-Regular, Consolas, monospace; font-size: 12px; white-space: pre; }
+`;
+
+/** Escape text for HTML element content and attribute values. */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** A path with the HTML of its line, for renderPathTree. */
+interface PathItem {
+  relPath: string;
+  html: string;
+}
+
+interface DirNode {
+  dirs: Map<string, DirNode>;
+  items: PathItem[];
+  count: number;
+}
+
+/**
+ * Render paths as a tree of collapsible directories (<details>). Directories
+ * holding a single sub-directory and nothing else are joined into one level.
+ */
+function renderPathTree(items: PathItem[]): string {
+  const root: DirNode = { dirs: new Map(), items: [], count: 0 };
+  for (const item of items) {
+    const parts = item.relPath.split('/');
+    let node = root;
+    node.count++;
+    for (const part of parts.slice(0, -1)) {
+      let child = node.dirs.get(part);
+      if (!child) {
+        child = { dirs: new Map(), items: [], count: 0 };
+        node.dirs.set(part, child);
+      }
+      child.count++;
+      node = child;
+    }
+    node.items.push(item);
+  }
+
+  const renderNode = (node: DirNode): string => {
+    const out: string[] = [];
+    for (const [name, dir] of [...node.dirs].sort(([a], [b]) => a.localeCompare(b))) {
+      let label = name;
+      let current = dir;
+      while (current.items.length === 0 && current.dirs.size === 1) {
+        const [childName, child] = [...current.dirs][0];
+        label += `/${childName}`;
+        current = child;
+      }
+      out.push(`<details open><summary>${escapeHtml(label)}/ <span class="muted">(${current.count})</span></summary>`);
+      out.push(renderNode(current));
+      out.push('</details>');
+    }
+    if (node.items.length > 0) {
+      out.push('<ul class="paths">');
+      for (const item of node.items) out.push(`<li>${item.html}</li>`);
+      out.push('</ul>');
+    }
+    return out.join('\n');
+  };
+  return renderNode(root);
+}
+
+/** Last segment of a workspace-relative path. */
+function baseName(rel: string): string {
+  return rel.slice(rel.lastIndexOf('/') + 1);
+}
+
+/** Type and kind tags of a path line: [TREE    ][D] */
+function tag(type: string, isDirectory: boolean): string {
+  return `<span class="tag">[${type.toUpperCase().padEnd(8)}][${isDirectory ? 'D' : 'F'}]</span>`;
+}
+
+/** Status of a revision: failed, conflicts (some not ignored) or ok. */
+function revisionStatus(result: RevisionMergeResult): 'failed' | 'conflicts' | 'ok' {
+  if (!result.success) return 'failed';
+  return result.conflicts.some((c) => !c.ignored) ? 'conflicts' : 'ok';
+}
+
+/** The paths of one revision: conflicts, ignored paths and modified paths. */
+function revisionPaths(result: RevisionMergeResult, workspace: string): PathItem[] {
+  const items: PathItem[] = [];
+  for (const c of result.conflicts) {
+    const rel = relPath(c.path, workspace);
+    const label = c.ignored ? formatIgnored(c.ignoredBy) : formatResolution(c.resolution, c.rule, c.interactive);
+    const detail = c.treeConflict ? `  ${describeTreeConflict(c.treeConflict)}` : '';
+    const cls = c.ignored ? 'ignored' : c.type === 'tree' ? 'tree' : 'conflicts';
+    items.push({ relPath: rel, html: `<span class="${cls}">${tag(c.type, c.isDirectory)} ${escapeHtml(`${baseName(rel)}  (${label})${detail}`)}</span>` });
+  }
+  for (const r of result.reverted) {
+    const rel = relPath(r.path, workspace);
+    items.push({ relPath: rel, html: `<span class="ignored">${tag('none', r.isDirectory)} ${escapeHtml(`${baseName(rel)}  (${formatIgnored(r.ignoredBy)})`)}</span>` });
+  }
+  const conflicted = new Set(items.map((i) => i.relPath));
+  for (const m of result.modified) {
+    const rel = relPath(m.path, workspace);
+    if (conflicted.has(rel)) continue;
+    items.push({ relPath: rel, html: `${tag('modified', m.isDirectory)} ${escapeHtml(baseName(rel))}` });
+  }
+  return items;
+}
+
+/**
+ * Render a merge run as a single self-contained HTML page: parameters,
+ * a table of revisions, conflicts grouped by type, each revision's log
+ * message and paths, and the final merge message.
+ * `messages` holds the full log message of each revision.
+ */
+export function renderHtmlReport(report: MergeReport, options: MergeOptions, messages: Map<number, string>): string {
+  const { summary, workspace } = report;
+  const title = `svn merge ${branchName(report.fromUrl)} → ${path.basename(workspace)} (${report.startTs})`;
+  const html: string[] = [];
+  const num = (n: number | string) => `<td class="num">${n}</td>`;
+
+  html.push('<!DOCTYPE html>', '<html lang="en">', '<head>', '<meta charset="utf-8">');
+  html.push(`<title>${escapeHtml(title)}</title>`, `<style>${STYLE}</style>`, '</head>', '<body>');
+  html.push(`<h1>${escapeHtml(title)}</h1>`);
+  html.push(`<p class="muted">${escapeHtml(`${report.tool.name} ${report.tool.version}`)}</p>`);
+
+  // ─── Parameters ──────────────────────────────────────────────────────────────
+  const params: [string, string][] = [
+    ['Workspace', workspace],
+    ['From', report.fromUrl],
+    ['Revisions', compressRevisions(report.revisions)],
+    ['Mode', [report.reverse ? 'reverse merge' : 'merge', ...(options.commitEach ? ['commit each revision'] : [])].join(', ')],
+  ];
+  if (options.filter) params.push(['Filter', describeFilter(options.filter)]);
+  params.push(['Ignore', (options.ignorePaths ?? []).join('\n') || '(none)']);
+  params.push(['Resolve', (options.resolveRules ?? []).map((r) => `${describeRule(r)} → ${r.accept}`).join('\n') || '(default)']);
+  const commit = report.commit;
+  params.push(['Commit', [commit.status, commit.revision !== undefined ? `r${commit.revision}` : '', commit.message ?? ''].filter(Boolean).join('  ')]);
+  if (report.tickets?.length) params.push(['Tickets', report.tickets.map((t) => t.url ? `${t.ref}  ${t.url}` : t.ref).join('\n')]);
+  if (report.hooks?.length) params.push(['Hooks', formatHookRuns(report.hooks).join('\n')]);
+  params.push(['Log', report.logFile]);
+  if (report.backupDir) params.push(['Backup', report.backupDir]);
+  html.push('<h2>Parameters</h2>', '<table>');
+  for (const [name, value] of params) {
+    html.push(`<tr><th>${escapeHtml(name)}</th><td>${escapeHtml(value).replace(/\n/g, '<br>')}</td></tr>`);
+  }
+  html.push('</table>');
+
+  // ─── Revisions ───────────────────────────────────────────────────────────────
+  const notMerged = summary.total - summary.results.length;
+  html.push('<h2>Revisions</h2>');
+  html.push(`<p>Total: ${summary.total} · <span class="ok">OK: ${summary.succeeded}</span> · `
+    + `<span class="conflicts">Conflicts: ${summary.withConflicts}</span> · <span class="failed">Failed: ${summary.failed}</span>`
+    + `${notMerged > 0 ? ` · <span class="muted">Not merged: ${notMerged}</span>` : ''}</p>`);
+  html.push('<table>', '<tr><th>Revision</th><th>Status</th><th>Conflicts</th><th>Ignored</th><th>Reverted</th><th>Modified</th><th>Message</th></tr>');
+  for (const result of summary.results) {
+    const status = revisionStatus(result);
+    const active = result.conflicts.filter((c) => !c.ignored).length;
+    const ignored = result.conflicts.length - active;
+    const firstLine = (messages.get(result.revision) ?? '').split('\n')[0].trim();
+    const statusText = status === 'failed' ? `FAILED${result.errorMessage ? `: ${result.errorMessage}` : ''}`
+      : result.committedRevision ? `${status} → r${result.committedRevision}` : status;
+    html.push(`<tr><td><a href="#r${result.revision}">r${result.revision}</a></td>`
+      + `<td class="${status}">${escapeHtml(statusText)}</td>`
+      + `${num(active)}${num(ignored)}${num(result.reverted.length)}${num(result.modified.length)}`
+      + `<td>${escapeHtml(firstLine)}</td></tr>`);
+  }
+  const done = new Set(summary.results.map((r) => r.revision));
+  for (const rev of report.revisions.filter((r) => !done.has(r))) {
+    const firstLine = (messages.get(rev) ?? '').split('\n')[0].trim();
+    html.push(`<tr><td>r${rev}</td><td class="muted">not merged</td>${num('')}${num('')}${num('')}${num('')}<td>${escapeHtml(firstLine)}</td></tr>`);
+  }
+  html.push('</table>');
+
+  // ─── Conflicts by type ─────────────────────────────────────────────────────
+  const groups = groupSummaryByType(summary.results, workspace);
+  if ([...groups.values()].some((entries) => entries.length > 0)) {
+    html.push('<h2>Conflicts</h2>');
+    for (const [type, entries] of groups) {
+      if (entries.length === 0) continue;
+      const active = entries.filter((e) => !e.ignored).length;
+      const count = active < entries.length ? `${active} + ${entries.length - active} ignored` : `${active}`;
+      html.push(`<h3 class="${active === 0 ? 'muted' : type === 'tree' ? 'tree' : 'conflicts'}">${TYPE_LABELS[type]} (${count})</h3>`);
+      html.push(renderPathTree(entries.map((e) => {
+        const label = e.ignored ? formatIgnored(e.ignoredBy) : formatResolution(e.resolution, e.rule, e.interactive);
+        const detail = e.treeConflict ? `  ${describeTreeConflict(e.treeConflict)}` : '';
+        return {
+          relPath: e.relPath,
+          html: `<span class="${e.ignored ? 'ignored' : type === 'tree' ? 'tree' : 'conflicts'}">${tag(type, e.isDirectory)} ${escapeHtml(`${baseName(e.relPath)}  (${label})${detail}`)}</span>`,
+        };
+      })));
+    }
+  }
+
+  // ─── Revision details ────────────────────────────────────────────────────────
+  html.push('<h2>Revision Details</h2>');
+  for (const result of summary.results) {
+    const status = revisionStatus(result);
+    html.push(`<h3 id="r${result.revision}">r${result.revision} <span class="${status}">${status}</span></h3>`);
+    if (result.errorMessage) html.push(`<pre class="failed">${escapeHtml(result.errorMessage)}</pre>`);
+    html.push(`<pre>${escapeHtml(messages.get(result.revision) ?? '(no message)')}</pre>`);
+    const items = revisionPaths(result, workspace);
+    if (items.length > 0) {
+      html.push(`<details><summary>Paths (${items.length})</summary>`, renderPathTree(items), '</details>');
+    }
+  }
+
+  // ─── Merge message ───────────────────────────────────────────────────────────
+  html.push('<h2>Merge Message</h2>', `<pre>${escapeHtml(report.message)}</pre>`);
+  html.push('</body>', '</html>', '');
+  return html.join('\n');
+}
+
+/**
+ * Write the HTML report to `svnmerge-<ts>.html` in the output directory, next
+ * to the log. Returns the file path.
+ */
+export function writeHtmlReport(outputDir: string, report: MergeReport, options: MergeOptions, messages: Map<number, string>): string {
+  fs.mkdirSync(outputDir, { recursive: true });
+  const file = path.join(outputDir, `svnmerge-${report.startTs}.html`);
+  fs.writeFileSync(file, renderHtmlReport(report, options, messages), 'utf8');
+  return file;
+}
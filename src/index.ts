@@ -5,21 +5,39 @@ import { Command } from 'commander';
 import * as fs from 'fs';
 import * as path from 'path';
 
-import { findDefaultConfig, loadConfig } from './config';
-import { Logger } from './logger';
-import { run } from './merger';
-import { buildMessage } from './message';
+import { DIRTY_POLICIES, findDefaultConfig, listProfiles, loadConfig } from './config';
+import { findDependencies, formatDependencies } from './dependencies';
+import { backupDirPath, listBackups, localCopy, restoreLocal } from './backup';
+import { compileFilter, describeFilter, filterRevisions, isFilterEmpty } from './filter';
+import { filterHistory, findSession, formatHistory, formatSessionDetail, loadHistory } from './history';
+import { formatHookRuns, HookContext, hooksPassed, runHooks } from './hooks';
+import { writeHtmlReport } from './html';
+import { createInteractiveChooser } from './interactive';
+import { LOG_LEVELS, Logger } from './logger';
+import { localChanges, predictRevisions, recordRevisions, run, stashChanges } from './merger';
+import { buildBlockMessage, buildMessage } from './message';
+import { MergeReport, parseReportFormats, REPORT_SCHEMA_VERSION, ReportFormat, writeReports } from './report';
+import { describeRetention, pruneRuns } from './retention';
+import { createSession, findResumableSession, pendingRevisions, saveSession } from './session';
+import { collectStatus, formatStatus, STATUS_SCHEMA_VERSION } from './status';
+import { cliSvn, parseCommittedRevision, setSvnCommandListener, SvnBackend } from './svn';
+import { collectTickets, compileTicketPattern, DEFAULT_TICKET_PATTERN, extractTickets } from './tickets';
 import {
-    svnCommit, svnEligibleRevisions, svnInfo, svnLogBatch, svnStatusDirty, svnUpdate
-} from './svn';
-import { MergeOptions } from './types';
+    CommitOutcome, DirtyPolicy, HookConfig, HookRun, HookStage, LogLevel, MergeOptions, MergeSession, MergeSummary,
+    MessageTemplate, ResolveRule, RetentionPolicy, RevisionFilter, TargetFailurePolicy, TicketConfig
+} from './types';
 import { checkForUpdate, loadOrCreateRc } from './updater';
-import { compressRevisions, groupSummaryByType, relPath } from './utils';
+import {
+    combineExitCodes, compressRevisions, describeExitCode, describeRule, describeTreeConflict, EXIT_CODES, ExitCode,
+    findTargetOutputDir, formatConflictLine, formatIgnored, formatResolution, formatTargetMatrix, groupSummaryByType,
+    parseRevisionList, relPath, TargetColumn, targetFolderNames, targetOutputDirs
+} from './utils';
 
 /** ANSI color helpers */
 const RED = (s: string) => `\x1b[31m${s}\x1b[0m`;
 const YELLOW = (s: string) => `\x1b[33m${s}\x1b[0m`;
 const CYAN = (s: string) => `\x1b[36m${s}\x1b[0m`;
+const GRAY = (s: string) => `\x1b[90m${s}\x1b[0m`;
 
 /** Copy text to system clipboard (best-effort, silently ignores errors). */
 function copyToClipboard(text: string): void {
@@ -51,21 +69,49 @@ function makeStartTs(): string {
   );
 }
 const startTs = makeStartTs();
+const VERSION = '1.0.10';
+const svn: SvnBackend = cliSvn;
 
 const program = new Command();
 
+/** Commander argument parser for repeatable options. */
+function collect(value: string, previous: string[] | undefined): string[] {
+  return [...(previous ?? []), value];
+}
+
 program
   .name('svn-merge-tool')
   .description('SVN branch merge tool — merge specific revisions one by one')
-  .version('1.0.10', '-v, --version', 'Output version number')
+  .version(VERSION, '-v, --version', 'Output version number')
   .option('-c, --config <path>', 'Path to YAML config file')
-  .option('-w, --workspace <path>', 'SVN working copy directory')
+  .option('--profile <name>', 'Use the named profile from the config "profiles:" section')
+  .option('--list-profiles', 'List the profiles defined in the config file and exit')
+  .option('-w, --workspace <path>', 'SVN working copy directory (repeat to merge into several working copies)', collect)
+  .option('--on-target-failure <policy>', 'With several working copies, what a failed one does: stop (default), continue')
   .option('-f, --from <url>', 'Source branch URL to merge from')
   .option('-V, --verbose', 'Show ignored/reverted file details in console output')
   .option('-d, --dry-run', 'List eligible revisions and their log messages without merging')
+  .option('--predict', 'Dry-run that also predicts the conflicts of each revision (svn merge --dry-run)')
   .option('-o, --output <path>', 'Output directory for log and message files (overrides config output)')
-  .option('-i, --ignore <paths>', 'Comma-separated paths to ignore (appended to config ignore list)')
+  .option('-i, --ignore <paths>', 'Comma-separated paths or globs to ignore (appended to config ignore list)')
   .option('-C, --commit', 'Automatically run svn commit after a successful merge, using the generated message file')
+  .option('--commit-each', 'Commit each merged revision separately with its own log message; stops at unresolved conflicts')
+  .option('--resume', 'Continue the most recent unfinished merge session in the output directory')
+  .option('-I, --interactive', 'Ask how to resolve each conflict that is not ignored')
+  .option('-y, --yes', 'Answer every confirmation with yes and never read stdin; skips the update check (for CI)')
+  .option('--non-interactive', 'Same as --yes')
+  .option('--on-dirty <policy>', 'Uncommitted changes in the working copy: abort, continue, stash (default: ask; abort with --yes)')
+  .option('--log-level <level>', 'Lowest level written to the log and event files: debug, info, warn, error (default: info)')
+  .option('--report <formats>', 'Write machine-readable reports to the output directory: json, junit (comma-separated)')
+  .option('--reverse', 'Undo previously merged revisions (svn merge -c -N) with the same ignore and conflict handling')
+  .option('--block <revisions>', 'Record revisions as merged without merging them (svn merge --record-only)')
+  .option('--unblock <revisions>', 'Make blocked revisions eligible again (reverse record-only merge)')
+  .option('--author <names>', 'Only revisions committed by these authors (comma-separated)')
+  .option('--grep <regex>', 'Only revisions whose log message matches the regular expression (case-insensitive)')
+  .option('--since <date>', 'Only revisions committed on or after the date (YYYY-MM-DD, ISO timestamp, or age like 7d)')
+  .option('--until <date>', 'Only revisions committed on or before the date (same formats as --since)')
+  .option('--touching <paths>', 'Only revisions that changed these branch-relative paths or globs (comma-separated)')
+  .option('--ticket <ids>', 'Only revisions whose log message references these tickets (comma-separated, e.g. 88279 or #88279)')
   .option(
     '-r, --revisions <revisions>',
     'Revisions or ranges to merge, e.g. 1001,1002-1005,1008. Omit to merge all eligible revisions.'
@@ -76,11 +122,64 @@ program
 Config file (YAML format):
   workspace: /path/to/working-copy
   from: http://svn.example.com/branches/feature
+  targets:                      # optional: merge into several working copies in turn
+    - /path/to/release-1.0      #   (replaces workspace; -w can be repeated instead)
+    - /path/to/release-1.1
+  on-target-failure: continue   # optional: stop (default) or continue after a failed target
+  on-dirty: stash               # optional: uncommitted changes: abort, continue, stash
+                                #   (default: ask; abort with --yes)
   output: /logs/svn             # optional: absolute or workspace-relative
   commit: true                  # optional: auto svn commit after successful merge
-  ignore:
+                                #   (each: one commit per revision, same as --commit-each)
+  report: [json, junit]         # optional: machine-readable reports (same as --report)
+  log-level: debug              # optional: debug, info (default), warn, error (--log-level)
+  retention:                    # optional: delete older logs and reports at startup
+    max-count: 50               #   keep the newest 50 runs
+    max-age: 30d                #   and none older than 30 days (h, d, w)
+  ignore:                       # plain paths or gitignore-style globs; last match wins
     - src/thirdparty/generated
     - assets/auto-generated/catalog.json
+    - "**/*.meta"
+    - "!assets/auto-generated/keep.json"
+  resolve:                      # optional: per-path conflict resolution, first match wins
+    - path: assets
+      accept: theirs-full
+    - path: config/localization
+      type: [text, property]    # optional: tree, text, property
+      accept: postpone          # working, mine-full, theirs-full, mine-conflict,
+                                # theirs-conflict, base, postpone, fail
+  block: [1001, 1005-1007]      # optional: never merge these; skipped during auto-discovery
+  message:                      # optional: commit message format (also in ~/.svnmergerc)
+    template: "{verb} revision(s) {revisions} from {branch}:\\n{entries}\\n{conflicts}"
+    entry: "r{rev} {author} {date}: {body}"
+    first-line: true            # keep only the first line of each log message
+  tickets:                      # optional: Tickets section, preview references, --ticket
+    pattern: "#(\\d+)"           #   first capture group is the ticket id
+    url: https://tracker.example.com/issue/{id}
+  hooks:                        # optional: shell commands run in the working copy
+    pre-merge: ./tools/check-build.sh   # non-zero exit aborts the merge
+    post-revision: ./tools/regen.sh     # after each revision
+    pre-commit: ./tools/lint-msg.sh     # non-zero exit aborts the commit
+    post-commit: [./tools/notify.sh]    # a command or a list of commands
+    on-failure: ./tools/alert.sh        # when the target fails
+  author: [alice, bob]          # optional revision filter (same as --author, --grep,
+  grep: "#88279"                # --since, --until, --touching)
+  since: 7d
+  profiles:                     # optional: named overrides of the keys above (--profile)
+    hotfix:
+      from: http://svn.example.com/branches/hotfix
+      commit: true
+
+Exit codes:
+  0  merged cleanly (or dry-run)    3  nothing eligible / no revision matches the filter
+  1  error or failed revisions      4  aborted (declined prompt or on-dirty: abort)
+  2  merged with conflicts to review
+  A pre-merge or pre-commit hook that exits non-zero fails the run (1).
+
+Hook context:
+  SVNMERGE_HOOK, SVNMERGE_WORKSPACE, SVNMERGE_FROM, SVNMERGE_REVISIONS, SVNMERGE_REVISION,
+  SVNMERGE_CONFLICTS, SVNMERGE_MODIFIED, SVNMERGE_MESSAGE_FILE, SVNMERGE_COMMITTED_REVISION,
+  SVNMERGE_ERROR, SVNMERGE_LOG; SVNMERGE_CONTEXT names a JSON file with all of it.
 
 Default config discovery:
   When -c is omitted, the tool searches for "svnmerge.yaml" (or .yml)
@@ -91,42 +190,287 @@ Examples:
   svn-merge-tool -d                               # preview eligible revisions and log, no merge
   svn-merge-tool -r 1001                          # merge specific revision
   svn-merge-tool -r 1001 -C                       # merge and auto-commit using generated message
+  svn-merge-tool -r 1001-1005 --commit-each       # one commit per merged revision
+  svn-merge-tool --resume                         # continue an interrupted merge session
+  svn-merge-tool --yes --on-dirty stash           # CI: no prompts, stash local changes first
+  svn-merge-tool -r 1001 -I                       # choose the resolution of each conflict
+  svn-merge-tool --profile hotfix -r 2001         # merge from the "hotfix" profile's source
+  svn-merge-tool --list-profiles                  # show the profiles of the config file
+  svn-merge-tool -r 1001 --reverse                # roll back a merged revision
+  svn-merge-tool -r 1001 -w ../rel-1.0 -w ../rel-1.1  # merge into two working copies
+  svn-merge-tool --block 1001,1005 -C            # block revisions and commit the mergeinfo change
+  svn-merge-tool --author alice --since 7d        # merge alice's eligible revisions of the last week
+  svn-merge-tool -d --grep "#88279"               # preview eligible revisions mentioning #88279
+  svn-merge-tool --ticket 88279,88300             # merge every eligible revision of two tickets
+  svn-merge-tool -r 1001 --report json,junit      # also write svnmerge-<ts>.json / .junit.xml
+  svn-merge-tool -r 1001 --log-level debug        # also log every svn command and its exit code
   svn-merge-tool -r 1001 -i src/gen,assets/auto   # merge ignoring specific paths
   svn-merge-tool -d -r 84597-84610                # preview specific revisions and log
+  svn-merge-tool --predict                        # preview with the conflicts each revision would cause
   svn-merge-tool -c ./svn.yaml -r 84597-84608,84610
   svn-merge-tool -w /path/to/copy -f http://svn.example.com/branches/feature -r 1001
   svn-merge-tool -c ./svn.yaml -w /path/to/override -r 1001,1002,1003
+  svn-merge-tool history -r 84597                 # when was r84597 merged, and did it conflict?
+  svn-merge-tool history 20240315120000           # reprint a session's summary and message
+  svn-merge-tool status --json                    # merged vs pending revisions, for a dashboard
+  svn-merge-tool restore src/hero.lua             # put back the local version a resolution replaced
 `
-  );
+  )
+  // Root options go before a subcommand name; the subcommands have their own
+  .enablePositionalOptions()
+  .action(() => undefined);
+
+/** Options of the subcommands that locate the working copies, as for a merge run. */
+interface LocationOptions {
+  config?: string;
+  profile?: string;
+  workspace?: string[];
+  output?: string;
+}
+
+/**
+ * Working copies and output directories a subcommand looks at: -w and -o first,
+ * then the config file (explicit or discovered), like a merge run.
+ * Throws when no working copy is given.
+ */
+function resolveLocations(locationOpts: LocationOptions): {
+  targets: { workspace: string; outputDir: string }[];
+  from?: string;
+  block: number[];
+} {
+  const configFile = locationOpts.config ?? findDefaultConfig();
+  if (locationOpts.profile && !configFile) {
+    throw new Error('profiles need a config file. Provide -c <config> or place svnmerge.yaml in the current/parent directory.');
+  }
+  const cfg = configFile ? loadConfig(configFile, locationOpts.profile) : undefined;
+  const workspaces = locationOpts.workspace ?? (cfg?.targets?.length ? cfg.targets : cfg?.workspace ? [cfg.workspace] : []);
+  if (workspaces.length === 0) {
+    throw new Error('workspace is required. Provide -w <path>, -c <config>, or place svnmerge.yaml in the current/parent directory.');
+  }
+  const resolved = [...new Set(workspaces.map((w) => path.resolve(w)))];
+  const output = locationOpts.output ?? cfg?.output;
+  // A single working copy may have run with others, into a sub-folder of a shared output
+  const outputDirs = resolved.length === 1 ? [findTargetOutputDir(resolved[0], output)] : targetOutputDirs(resolved, output);
+  const targets = resolved.map((workspace, i) => ({ workspace, outputDir: outputDirs[i] }));
+  return { targets, from: cfg?.from, block: cfg?.block ?? [] };
+}
+
+/** Add the options that locate the working copies to a subcommand. */
+function withLocationOptions(command: Command): Command {
+  return command
+    .option('-c, --config <path>', 'Path to YAML config file')
+    .option('--profile <name>', 'Use the named profile from the config "profiles:" section')
+    .option('-w, --workspace <path>', 'SVN working copy directory (repeatable)', collect)
+    .option('-o, --output <path>', 'Output directory of the merge runs (overrides config output)');
+}
+
+// ─── history: list the merge sessions of the output directory ───────────────
+withLocationOptions(program.command('history'))
+  .description('List past merge sessions, or print one session in full')
+  .argument('[session]', 'Start timestamp of a session (or a unique prefix): print its summary and message')
+  .option('-r, --revisions <revisions>', 'Only sessions that merged any of these revisions, e.g. 84597,84600-84602')
+  .option('--path <paths>', 'Only sessions with a conflict, ignored or modified path under these (comma-separated)')
+  .option('--since <date>', 'Only sessions started on or after this date: YYYY-MM-DD, ISO 8601, or an age like 7d')
+  .option('--until <date>', 'Only sessions started on or before this date')
+  .action((id: string | undefined, historyOpts: LocationOptions & { revisions?: string; path?: string; since?: string; until?: string }) => {
+    try {
+      const revisions = historyOpts.revisions ? parseRevisionList(historyOpts.revisions) : [];
+      const paths = historyOpts.path?.split(',').map((s) => s.trim()).filter(Boolean);
+      const filter = { revisions, paths, since: historyOpts.since, until: historyOpts.until };
+      const { targets } = resolveLocations(historyOpts);
+      if (id) {
+        const sessions = targets.flatMap(({ outputDir }) => filterHistory(loadHistory(outputDir), filter));
+        console.log(formatSessionDetail(findSession(sessions, id)).join('\n'));
+        process.exit(0);
+      }
+      for (const { outputDir } of targets) {
+        const sessions = filterHistory(loadHistory(outputDir), filter);
+        console.log(CYAN(`Merge sessions in ${outputDir}: ${sessions.length}`));
+        if (sessions.length > 0) {
+          const [header, ...rows] = formatHistory(sessions, revisions);
+          console.log(`\x1b[1m${header}\x1b[0m`);
+          rows.forEach((line) => console.log(line));
+        }
+      }
+      process.exit(0);
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      console.error(RED(`Error: ${msg}`));
+      process.exit(1);
+    }
+  });
+
+// ─── status: merged and pending revisions of the working copies ─────────────
+withLocationOptions(program.command('status'))
+  .description('Show merged and pending revisions, the oldest pending one, pending revisions by author and blocked ones')
+  .option('-f, --from <url>', 'Source branch URL (overrides config from)')
+  .option('--json', 'Print the status as JSON')
+  .action((statusOpts: LocationOptions & { from?: string; json?: boolean }) => {
+    try {
+      const { targets, from, block } = resolveLocations(statusOpts);
+      const fromUrl = statusOpts.from ?? from;
+      if (!fromUrl) {
+        throw new Error('from (source URL) is required. Provide -f <url>, -c <config>, or place svnmerge.yaml in the current/parent directory.');
+      }
+      const statuses = targets.map(({ workspace }) => collectStatus(workspace, fromUrl, block, svn));
+      if (statusOpts.json) {
+        console.log(JSON.stringify({
+          schemaVersion: STATUS_SCHEMA_VERSION,
+          tool: { name: 'svn-merge-tool', version: VERSION },
+          generatedAt: new Date().toISOString(),
+          targets: statuses,
+        }, null, 2));
+        process.exit(0);
+      }
+      for (const status of statuses) {
+        console.log(CYAN(`${status.workspace} ← ${status.fromUrl}`));
+        formatStatus(status).forEach((line) => console.log(`  ${line}`));
+      }
+      process.exit(0);
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      console.error(RED(`Error: ${msg}`));
+      process.exit(1);
+    }
+  });
+
+// ─── restore: put back a local version from the conflict backups ────────────
+withLocationOptions(program.command('restore'))
+  .description('Put back the local version of a file whose conflict was resolved, from the backups in the output directory')
+  .argument('[path]', 'File to restore, relative to the working copy; omit to list the backed-up files')
+  .option('--session <id>', 'Backup of this session (start timestamp or a unique prefix); default: the newest')
+  .option('-r, --revision <rev>', 'Backup taken at this revision; default: the earliest of the session')
+  .action((target: string | undefined, restoreOpts: LocationOptions & { session?: string; revision?: string }) => {
+    try {
+      const { targets } = resolveLocations(restoreOpts);
+      if (targets.length > 1 && target) {
+        throw new Error('restore works on one working copy; select it with a single -w <path>.');
+      }
+      if (!target) {
+        for (const { outputDir } of targets) {
+          const entries = listBackups(outputDir).filter((e) => !restoreOpts.session || e.startTs.startsWith(restoreOpts.session));
+          console.log(CYAN(`Backed-up conflicts in ${outputDir}: ${entries.length}`));
+          for (const entry of entries) {
+            console.log(`  ${entry.startTs}  r${entry.revision}  ${entry.path}${localCopy(entry) ? '' : '  (no local version)'}`);
+          }
+        }
+        process.exit(0);
+      }
+      const revision = restoreOpts.revision !== undefined ? parseInt(restoreOpts.revision.replace(/^r/i, ''), 10) : undefined;
+      if (revision !== undefined && isNaN(revision)) {
+        throw new Error(`Invalid revision "${restoreOpts.revision}".`);
+      }
+      const { workspace, outputDir } = targets[0];
+      // A path that exists from the current directory is taken from there, otherwise from the working copy root
+      const rel = path.isAbsolute(target) || fs.existsSync(path.resolve(target))
+        ? relPath(path.resolve(target), workspace)
+        : target;
+      const entry = restoreLocal(outputDir, workspace, rel, { startTs: restoreOpts.session, revision });
+      console.log(`Restored ${entry.path} from ${localCopy(entry)} (session ${entry.startTs}, r${entry.revision}).`);
+      process.exit(0);
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      console.error(RED(`Error: ${msg}`));
+      process.exit(1);
+    }
+  });
 
 program.parse(process.argv);
 const rcConfig = loadOrCreateRc();
-checkForUpdate('1.0.10', rcConfig);
 
-const opts = program.opts<{ config?: string; workspace?: string; from?: string; revisions?: string; verbose?: boolean; dryRun?: boolean; output?: string; ignore?: string; commit?: boolean }>();
+const opts = program.opts<{ config?: string; workspace?: string[]; onTargetFailure?: string; from?: string; revisions?: string; verbose?: boolean; dryRun?: boolean; predict?: boolean; output?: string; ignore?: string; commit?: boolean; commitEach?: boolean; resume?: boolean; report?: string; interactive?: boolean; author?: string; grep?: string; since?: string; until?: string; touching?: string; ticket?: string; block?: string; unblock?: string; reverse?: boolean; profile?: string; listProfiles?: boolean; yes?: boolean; nonInteractive?: boolean; onDirty?: string; logLevel?: string }>();
+
+// --predict is a dry-run that also asks svn which conflicts each revision would cause
+if (opts.predict) {
+  opts.dryRun = true;
+}
+
+// --yes / --non-interactive: no prompt reads stdin, so CI runs never hang or abort by accident
+const nonInteractive = !!(opts.yes || opts.nonInteractive);
+if (nonInteractive && opts.interactive) {
+  console.error(RED('Error: -I asks about each conflict and cannot be combined with --yes.'));
+  process.exit(1);
+}
+if (!nonInteractive) {
+  checkForUpdate(VERSION, rcConfig);
+}
 
 // ─── Load config file (if provided) ──────────────────────────────────────────
 let configWorkspace: string | undefined;
+let configTargets: string[] = [];
+let configOnTargetFailure: TargetFailurePolicy | undefined;
+let configOnDirty: DirtyPolicy | undefined;
 let configFromUrl: string | undefined;
 let configIgnoreMerge: string[] = [];
 let configOutputDir: string | undefined;
 let configVerbose = false;
 let configCommit = false;
+let configCommitEach = false;
+let configResolve: ResolveRule[] = [];
+let configReport: ReportFormat[] = [];
+let configFilter: RevisionFilter = {};
+let configBlock: number[] = [];
+let configMessage: MessageTemplate = {};
+let configTickets: TicketConfig | undefined;
+let configHooks: HookConfig = {};
+let configLogLevel: LogLevel | undefined;
+let configRetention: RetentionPolicy | undefined;
+let configProfiles: string[] = [];
 
 // Resolve config path: explicit -c, or auto-discover svn-merge-config.ini
 const configPath = opts.config ?? findDefaultConfig();
 
+if ((opts.profile || opts.listProfiles) && !configPath) {
+  console.error(RED('Error: profiles need a config file. Provide -c <config> or place svnmerge.yaml in the current/parent directory.'));
+  process.exit(1);
+}
+
+// ─── --list-profiles: print the profiles and exit ────────────────────────────
+if (opts.listProfiles) {
+  try {
+    const profiles = listProfiles(configPath!);
+    console.log(CYAN(`Profiles in ${path.resolve(configPath!)}:`));
+    if (profiles.length === 0) {
+      console.log(CYAN('  (none)'));
+    }
+    const width = Math.max(0, ...profiles.map((p) => p.name.length));
+    for (const profile of profiles) {
+      console.log(CYAN(`  ${profile.name.padEnd(width)}  ${profile.from ?? '(no from)'}`));
+    }
+    process.exit(0);
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error(RED(`Error: ${msg}`));
+    process.exit(1);
+  }
+}
+
 if (configPath) {
   try {
-    const cfg = loadConfig(configPath);
+    const cfg = loadConfig(configPath, opts.profile);
     configWorkspace = cfg.workspace;
+    configTargets = cfg.targets ?? [];
+    configOnTargetFailure = cfg.onTargetFailure;
+    configOnDirty = cfg.onDirty;
     configFromUrl = cfg.from;
     configIgnoreMerge = cfg.ignore ?? [];
     configOutputDir = cfg.output;
     configVerbose = cfg.verbose ?? false;
     configCommit = cfg.commit ?? false;
+    configCommitEach = cfg.commitEach ?? false;
+    configResolve = cfg.resolve ?? [];
+    configReport = cfg.report ?? [];
+    configFilter = cfg.filter ?? {};
+    configBlock = cfg.block ?? [];
+    configMessage = cfg.message ?? {};
+    configTickets = cfg.tickets;
+    configHooks = cfg.hooks ?? {};
+    configLogLevel = cfg.logLevel;
+    configRetention = cfg.retention;
+    configProfiles = cfg.profiles ?? [];
     const label = opts.config ? 'Config loaded' : 'Config auto-detected';
-    console.log(CYAN(`${label}: ${path.resolve(configPath)}`));
+    const profileLabel = cfg.profile ? ` (profile: ${cfg.profile})` : '';
+    console.log(CYAN(`${label}: ${path.resolve(configPath)}${profileLabel}`));
   } catch (e: unknown) {
     const msg = e instanceof Error ? e.message : String(e);
     console.error(RED(`Error: ${msg}`));
@@ -134,38 +478,146 @@ if (configPath) {
   }
 }
 
-// CLI options take precedence over config file
-const rawWorkspace = opts.workspace ?? configWorkspace;
+// CLI options take precedence over config file; -w replaces the config targets
+const rawTargets = opts.workspace ?? (configTargets.length > 0 ? configTargets : configWorkspace ? [configWorkspace] : []);
 const rawFromUrl = opts.from ?? configFromUrl;
 
-if (!rawWorkspace) {
+if (rawTargets.length === 0) {
   console.error(RED('Error: workspace is required. Provide -w <path>, -c <config>, or place svnmerge.yaml in the current/parent directory.'));
   process.exit(1);
 }
 if (!rawFromUrl) {
-  console.error(RED('Error: from (source URL) is required. Provide -f <url>, -c <config>, or place svnmerge.yaml in the current/parent directory.'));
+  const hint = configProfiles.length > 0 && !opts.profile
+    ? ` Or select a profile with --profile <name> (${configProfiles.join(', ')}).`
+    : '';
+  console.error(RED(`Error: from (source URL) is required. Provide -f <url>, -c <config>, or place svnmerge.yaml in the current/parent directory.${hint}`));
   process.exit(1);
 }
+const sourceUrl: string = rawFromUrl;
 
-// ─── Validate workspace path ──────────────────────────────────────────────────
-const workspace = path.resolve(rawWorkspace);
-
-// Resolve output dir: CLI -o > config > default (.svnmerge under workspace)
-const rawOutputDir = opts.output ?? configOutputDir;
-const outputDir = rawOutputDir
-  ? (path.isAbsolute(rawOutputDir)
-      ? rawOutputDir
-      : path.resolve(workspace, rawOutputDir))
-  : path.join(workspace, '.svnmerge');
+// CLI --report replaces the config report list
+let reportFormats: ReportFormat[] = configReport;
+if (opts.report) {
+  try {
+    reportFormats = parseReportFormats(opts.report);
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error(RED(`Error: ${msg}`));
+    process.exit(1);
+  }
+}
 
+// Each CLI filter option replaces the matching config key
+const splitList = (value: string) => value.split(',').map((s) => s.trim()).filter(Boolean);
+const cliFilter: RevisionFilter = {
+  ...(opts.author !== undefined ? { authors: splitList(opts.author) } : {}),
+  ...(opts.grep !== undefined ? { grep: opts.grep } : {}),
+  ...(opts.since !== undefined ? { since: opts.since } : {}),
+  ...(opts.until !== undefined ? { until: opts.until } : {}),
+  ...(opts.touching !== undefined ? { touching: splitList(opts.touching) } : {}),
+  ...(opts.ticket !== undefined ? { tickets: splitList(opts.ticket) } : {}),
+};
+const filter: RevisionFilter = { ...configFilter, ...cliFilter };
+// --ticket uses the configured ticket pattern, or #<number> without one
+const ticketPattern = configTickets?.pattern ?? DEFAULT_TICKET_PATTERN;
 try {
-  svnInfo(workspace);
+  compileFilter(filter, sourceUrl, new Date(), ticketPattern);
 } catch (e: unknown) {
   const msg = e instanceof Error ? e.message : String(e);
   console.error(RED(`Error: ${msg}`));
   process.exit(1);
 }
 
+// Each key of the config message format replaces the one from .svnmergerc
+const messageTemplate: MessageTemplate = { ...rcConfig.message, ...configMessage };
+
+// --block / --unblock: record-only merge of the given revisions instead of a merge
+if (opts.block && opts.unblock) {
+  console.error(RED('Error: --block and --unblock cannot be combined.'));
+  process.exit(1);
+}
+const blockValue = opts.block ?? opts.unblock;
+const unblock = opts.unblock !== undefined;
+let blockRevisions: number[] = [];
+if (blockValue !== undefined) {
+  if (opts.revisions || opts.resume || opts.dryRun || opts.interactive || opts.reverse || opts.commitEach || !isFilterEmpty(cliFilter)) {
+    console.error(RED(`Error: --${unblock ? 'unblock' : 'block'} cannot be combined with -r, --resume, --dry-run, -I, --reverse, --commit-each or revision filters.`));
+    process.exit(1);
+  }
+  try {
+    blockRevisions = parseRevisionList(blockValue);
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error(RED(`Error: ${msg}`));
+    process.exit(1);
+  }
+}
+
+// --reverse undoes the given revisions; auto-discovery only finds unmerged ones
+if (opts.reverse && !opts.revisions && !opts.resume) {
+  console.error(RED('Error: --reverse needs the revisions to undo: -r <revisions>.'));
+  process.exit(1);
+}
+if (opts.reverse && opts.resume) {
+  console.error(RED('Error: --resume continues the session in its original mode; omit --reverse.'));
+  process.exit(1);
+}
+
+// ─── Target working copies ───────────────────────────────────────────────────
+const targets = [...new Set(rawTargets.map((t) => path.resolve(t)))];
+const multiTarget = targets.length > 1;
+if (multiTarget && opts.resume) {
+  console.error(RED('Error: --resume continues one working copy; select it with a single -w <path>.'));
+  process.exit(1);
+}
+const rawPolicy = opts.onTargetFailure ?? configOnTargetFailure ?? 'stop';
+if (rawPolicy !== 'stop' && rawPolicy !== 'continue') {
+  console.error(RED(`Error: --on-target-failure must be stop or continue, got "${rawPolicy}".`));
+  process.exit(1);
+}
+const targetPolicy: TargetFailurePolicy = rawPolicy;
+
+const rawDirtyPolicy = opts.onDirty ?? configOnDirty;
+if (rawDirtyPolicy !== undefined && !DIRTY_POLICIES.includes(rawDirtyPolicy as DirtyPolicy)) {
+  console.error(RED(`Error: --on-dirty must be ${DIRTY_POLICIES.join(', ')}, got "${rawDirtyPolicy}".`));
+  process.exit(1);
+}
+// Without a policy the user is asked; a non-interactive run cannot ask, so it aborts
+const dirtyPolicy = (rawDirtyPolicy as DirtyPolicy | undefined) ?? (nonInteractive ? 'abort' : undefined);
+
+const rawLogLevel = opts.logLevel ?? configLogLevel ?? 'info';
+if (!LOG_LEVELS.includes(rawLogLevel as LogLevel)) {
+  console.error(RED(`Error: --log-level must be ${LOG_LEVELS.join(', ')}, got "${rawLogLevel}".`));
+  process.exit(1);
+}
+const logLevel = rawLogLevel as LogLevel;
+
+/**
+ * Open the log and event files of a target. Every svn command is recorded
+ * in them until the next target starts (see mergeTarget).
+ */
+function openLogger(outputDir: string, append = false): Logger {
+  const logger = new Logger(outputDir, startTs, { append, level: logLevel });
+  setSvnCommandListener((args, exitCode, durationMs) => {
+    const level = exitCode === 0 ? 'debug' : 'warn';
+    logger.log(`svn ${args.join(' ')} → exit ${exitCode} (${durationMs} ms)`, level);
+    logger.event({ event: 'svn', args, exitCode, durationMs }, level);
+  });
+  return logger;
+}
+
+// Resolve output dir: CLI -o > config > default (.svnmerge under workspace)
+const outputDirs = targetOutputDirs(targets, opts.output ?? configOutputDir);
+
+function resolveOutputDir(workspace: string): string {
+  return outputDirs[targets.indexOf(workspace)];
+}
+
+/** JSON file with the context of the hook being run (SVNMERGE_CONTEXT) */
+function hookContextFile(outputDir: string): string {
+  return path.join(outputDir, `svnmerge-${startTs}.hook.json`);
+}
+
 // ─── Synchronous yes/no prompt helper ────────────────────────────────────────
 function promptYN(question: string): boolean {
   process.stdout.write(question);
@@ -179,349 +631,952 @@ function promptYN(question: string): boolean {
   }
 }
 
+/** Ask for confirmation; --yes answers without reading stdin. */
+function confirm(question: string): boolean {
+  if (nonInteractive) {
+    console.log(`${question}y (--yes)`);
+    return true;
+  }
+  return promptYN(question);
+}
+
 // ─── Parse revisions ─────────────────────────────────────────────────────────
-let revisions: number[] = [];
+let cliRevisions: number[] = [];
 
 if (opts.revisions) {
-  const rawRevisions = opts.revisions
-    .split(',')
-    .map((s) => s.trim())
-    .filter(Boolean);
-
-  if (rawRevisions.length === 0) {
-    console.error(RED('Error: No revisions specified. Use -r 1001,1002,1003'));
+  try {
+    const given = parseRevisionList(opts.revisions);
+    // Merge oldest first, so each revision lands on the changes it builds on;
+    // undo newest first, so later changes are removed before the ones they build on
+    cliRevisions = [...new Set(given)].sort((a, b) => (opts.reverse ? b - a : a - b));
+    if (!opts.reverse && cliRevisions.join(',') !== given.join(',')) {
+      console.log(YELLOW(`Note: -r reordered to merge oldest first: ${compressRevisions(cliRevisions)}`));
+    }
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error(RED(`Error: ${msg}`));
     process.exit(1);
   }
+}
 
-  for (const raw of rawRevisions) {
-    // Support range syntax: e.g. "84597-84608"
-    const rangeMatch = raw.match(/^(\d+)-(\d+)$/);
-    if (rangeMatch) {
-      const from = parseInt(rangeMatch[1], 10);
-      const to = parseInt(rangeMatch[2], 10);
-      if (from <= 0 || to <= 0) {
-        console.error(RED(`Error: Invalid revision range "${raw}". Revisions must be positive integers.`));
-        process.exit(1);
-      }
-      if (from > to) {
-        console.error(RED(`Error: Invalid revision range "${raw}": start must be <= end.`));
-        process.exit(1);
-      }
-      for (let rev = from; rev <= to; rev++) {
-        revisions.push(rev);
-      }
-    } else {
-      const n = parseInt(raw, 10);
-      if (isNaN(n) || n <= 0) {
-        console.error(RED(`Error: Invalid revision "${raw}". Use integers or ranges like 1001-1005.`));
-        process.exit(1);
-      }
-      revisions.push(n);
+// ─── Revision filter and log messages ────────────────────────────────────────
+// Log messages fetched for the filter are reused by the previews below.
+const logMessages = new Map<number, string>();
+
+function fetchLogMessages(revs: number[]): Map<number, string> {
+  if (revs.every((rev) => logMessages.has(rev))) return logMessages;
+  process.stdout.write(CYAN('Fetching revision logs...\r'));
+  const logMap = svn.logBatch(revs, sourceUrl);
+  process.stdout.write(' '.repeat(40) + '\r');
+  for (const [rev, message] of logMap) logMessages.set(rev, message);
+  return logMap;
+}
+
+// Previews list ticket references when tickets are configured or selected with --ticket
+const previewTicketPattern = configTickets || filter.tickets?.length ? compileTicketPattern(ticketPattern) : undefined;
+
+/** Preview line of a revision: the first line of its log message, then its ticket references. */
+function previewLine(rev: number, body: string, blocked = false): string {
+  const firstLine = body.split('\n')[0].trim();
+  const refs = previewTicketPattern ? extractTickets(body, previewTicketPattern).map((t) => t.ref) : [];
+  const tickets = refs.length > 0 ? `  [${refs.join(', ')}]` : '';
+  return `  r${rev}  ${blocked ? '[blocked] ' : ''}${firstLine || '(no message)'}${tickets}`;
+}
+
+/** Narrow `revs` with the revision filter; empty when nothing matches. */
+function applyFilter(revs: number[]): number[] {
+  if (isFilterEmpty(filter)) return revs;
+  process.stdout.write(CYAN('Fetching revision logs...\r'));
+  const entries = svn.logEntries(revs, sourceUrl, !!filter.touching?.length);
+  process.stdout.write(' '.repeat(40) + '\r');
+  for (const [rev, entry] of entries) logMessages.set(rev, entry.message);
+  const kept = filterRevisions(revs, entries, filter, sourceUrl, new Date(), ticketPattern);
+  console.log(CYAN(`Filter (${describeFilter(filter)}): ${kept.length} of ${revs.length} revision(s) match`));
+  if (kept.length === 0) {
+    console.log(CYAN('No revisions match the filter.'));
+  }
+  return kept;
+}
+
+/**
+ * Warn about unselected eligible revisions that come before a selected one and
+ * change the same paths, and offer to include them (again for the revisions
+ * that brings in). Returns the revisions to merge, oldest first.
+ * Dry-run and --yes only warn. Blocked revisions are never suggested.
+ */
+function includeDependencies(workspace: string, selected: number[]): number[] {
+  let eligible: number[];
+  try {
+    eligible = svn.eligibleRevisions(sourceUrl, workspace);
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.log(YELLOW(`Skipping the dependency check: ${msg}`));
+    return selected;
+  }
+  const newest = Math.max(...selected);
+  const blockSet = new Set(configBlock);
+  const candidates = eligible.filter((rev) => rev < newest && !blockSet.has(rev) && !selected.includes(rev));
+  if (candidates.length === 0) return selected;
+
+  process.stdout.write(CYAN('Checking changed paths...\r'));
+  const entries = svn.logEntries([...candidates, ...selected], sourceUrl, true);
+  process.stdout.write(' '.repeat(40) + '\r');
+
+  let revisions = selected;
+  for (;;) {
+    const dependencies = findDependencies(revisions, candidates, entries);
+    if (dependencies.length === 0) return revisions;
+    console.log(YELLOW(`Warning: ${dependencies.length} earlier eligible revision(s) change the same paths as the selected ones:`));
+    for (const line of formatDependencies(dependencies, entries, sourceUrl)) {
+      console.log(YELLOW(`  ${line}`));
     }
+    if (opts.dryRun || nonInteractive) {
+      console.log(YELLOW(`Add them with -r to merge them first${opts.dryRun ? '' : ' (not included with --yes)'}.`));
+      return revisions;
+    }
+    if (!promptYN(YELLOW('Include them? [y/N] '))) return revisions;
+    revisions = [...revisions, ...dependencies.map((d) => d.revision)].sort((a, b) => a - b);
+    console.log(CYAN(`Revisions to merge: ${compressRevisions(revisions)}`));
   }
 }
 
-// ─── Print resolved parameters ───────────────────────────────────────────────
-{
-  const cliIgnorePaths = opts.ignore ? opts.ignore.split(',').map((s) => s.trim()).filter(Boolean) : [];
-  const allIgnore = [...rcConfig.globalIgnore, ...configIgnoreMerge, ...cliIgnorePaths];
-  console.log(CYAN('─── Parameters ───────────────────────────────────────'));
-  console.log(CYAN(`  workspace : ${workspace}`));
-  console.log(CYAN(`  from      : ${rawFromUrl}`));
-  console.log(CYAN(`  output    : ${outputDir}`));
-  if (allIgnore.length === 0) {
-    console.log(CYAN('  ignore    : (none)'));
-  } else {
-    console.log(CYAN(`  ignore    : ${allIgnore[0]}`));
-    for (let i = 1; i < allIgnore.length; i++) {
-      console.log(CYAN(`              ${allIgnore[i]}`));
+/**
+ * --predict: run `svn merge --dry-run` for each revision and print the
+ * conflicts it would cause, classified like a real merge (ignore patterns,
+ * resolve rules). The working copy is not changed.
+ */
+function printPredictions(workspace: string, revisions: number[], ignorePaths: string[]): void {
+  console.log(CYAN('\nPredicted conflicts (svn merge --dry-run, each revision against the current working copy):'));
+  const results = predictRevisions({
+    workspace, fromUrl: sourceUrl, revisions, ignorePaths, resolveRules: configResolve, reverse: opts.reverse,
+  }, svn);
+  let clean = 0;
+  let withConflicts = 0;
+  let failed = 0;
+  for (const result of results) {
+    const active = result.conflicts.filter((c) => !c.ignored);
+    const ignored = result.conflicts.length - active.length + result.reverted.length;
+    const ignoredNote = ignored > 0 ? `, ${ignored} ignored path(s)` : '';
+    if (!result.success && result.conflicts.length === 0) {
+      failed++;
+      console.log(RED(`  r${result.revision}  FAILED  ${result.errorMessage ?? ''}`));
+      continue;
+    }
+    if (!result.success) failed++;
+    else if (active.length > 0) withConflicts++;
+    else clean++;
+    const status = active.length > 0 ? `${active.length} conflict(s)${ignoredNote}` : `clean${ignoredNote}`;
+    const failure = result.success ? '' : `  FAILED: ${result.errorMessage ?? ''}`;
+    const line = `  r${result.revision}  ${status}  (${result.modified.length} path(s) changed)${failure}`;
+    console.log(!result.success ? RED(line) : active.length > 0 ? YELLOW(line) : CYAN(line));
+    for (const c of result.conflicts) {
+      const label = c.ignored ? formatIgnored(c.ignoredBy)
+        : c.unknownRules ? `unknown: depends on ${c.unknownRules.join('; ')}`
+        : formatResolution(c.resolution, c.rule);
+      const conflictLine = `    ${formatConflictLine(c.type, c.isDirectory, relPath(c.path, workspace), label)}`;
+      console.log(c.ignored ? GRAY(conflictLine) : c.type === 'tree' ? RED(conflictLine) : YELLOW(conflictLine));
     }
-  };
-  console.log(CYAN(`  verbose   : ${!!(opts.verbose || configVerbose)}`));
-  console.log(CYAN(`  dry-run   : ${!!opts.dryRun}`));
-  console.log(CYAN(`  commit    : ${!!(opts.commit || configCommit)}`));
-  console.log(CYAN(`  revisions : ${revisions.length ? compressRevisions(revisions) : '(auto — all eligible)'}`));
-  console.log(CYAN('──────────────────────────────────────────────────────'));
-}
-
-// ─── Check for local modifications ──────────────────────────────────────────
-const dirtyLines = svnStatusDirty(workspace);
-if (dirtyLines.length > 0) {
-  console.log(YELLOW('Warning: working copy has uncommitted changes:'));
-  for (const line of dirtyLines) {
-    console.log(YELLOW(`  ${line}`));
-  }
-  if (!promptYN(YELLOW('Continue anyway? [y/N] '))) {
-    console.log(RED('Aborted.'));
-    process.exit(1);
   }
+  console.log(CYAN(`Prediction: ${clean} clean, ${withConflicts} with conflicts, ${failed} failed`));
 }
 
-// ─── svn update ────────────────────────────────────────────────────────
-try {
-  svnUpdate(workspace);
-} catch (e: unknown) {
-  const msg = e instanceof Error ? e.message : String(e);
-  console.error(RED(`Error: ${msg}`));
-  process.exit(1);
+/** What happened in one target working copy. */
+interface TargetOutcome {
+  workspace: string;
+  /** Exit code the run would have had on its own */
+  code: ExitCode;
+  summary?: MergeSummary;
+  commit?: CommitOutcome;
+  logPath?: string;
+  /** Why the target stopped before merging (error, abort, nothing to merge) */
+  note?: string;
+  /** Hook commands that ran for the target */
+  hooks?: HookRun[];
 }
 
-// ─── If no -r provided, discover eligible revisions ──────────────────────────
-let autoDiscovered = false;
-if (revisions.length === 0) {
-  let eligible: number[];
+// ─── Merge into one target working copy ─────────────────────────────────────
+/**
+ * Run the whole pipeline against one working copy: update, merge, resolve,
+ * message, optional commit, reports. Errors and aborts are returned, not exited on.
+ */
+function mergeTarget(workspace: string): TargetOutcome {
+  const outputDir = resolveOutputDir(workspace);
+  const stop = (code: ExitCode, note: string): TargetOutcome => ({ workspace, code, note });
+  const fail = (msg: string): TargetOutcome => {
+    console.error(RED(`Error: ${msg}`));
+    return stop(EXIT_CODES.failure, msg);
+  };
+
+  // The previous target's logger is closed: its svn commands are not this target's
+  setSvnCommandListener(undefined);
+
+  // ─── Validate workspace path ───────────────────────────────────────────────
   try {
-    eligible = svnEligibleRevisions(rawFromUrl, workspace);
+    svn.info(workspace);
   } catch (e: unknown) {
-    const msg = e instanceof Error ? e.message : String(e);
-    console.error(RED(`Error querying eligible revisions: ${msg}`));
-    process.exit(1);
+    return fail(e instanceof Error ? e.message : String(e));
   }
 
-  if (eligible.length === 0) {
-    console.log(CYAN('No eligible revisions to merge. Working copy is up to date.'));
-    process.exit(0);
+  // ─── Prune old logs and reports ──────────────────────────────────────────────
+  let pruneNote: string | undefined;
+  if (configRetention) {
+    const pruned = pruneRuns(outputDir, configRetention, startTs);
+    if (pruned.runs.length > 0) {
+      pruneNote = `Pruned ${pruned.runs.length} old run(s), ${pruned.files.length} file(s), from ${outputDir} (retention: ${describeRetention(configRetention)})`;
+      console.log(GRAY(pruneNote));
+    }
   }
 
-  const compressed = compressRevisions(eligible);
-  console.log(CYAN(`Found ${eligible.length} eligible revision(s): ${compressed}`));
+  // ─── Resume an unfinished session ────────────────────────────────────────────
+  let resumeSession: MergeSession | undefined;
+  if (opts.resume) {
+    if (opts.revisions || opts.dryRun || !isFilterEmpty(cliFilter)) {
+      return fail('--resume cannot be combined with -r, --dry-run or revision filters.');
+    }
+    resumeSession = findResumableSession(outputDir);
+    if (!resumeSession) {
+      return fail(`no unfinished merge session found in "${outputDir}".`);
+    }
+    if (path.resolve(resumeSession.options.workspace) !== workspace) {
+      return fail(`the unfinished session belongs to workspace "${resumeSession.options.workspace}".`);
+    }
+  }
+  let revisions = resumeSession ? [...resumeSession.options.revisions] : [...cliRevisions];
 
-  // Fetch log previews (one batch call)
-  process.stdout.write(CYAN('Fetching revision logs...\r'));
-  const logMap = svnLogBatch(eligible, rawFromUrl);
-  process.stdout.write(' '.repeat(40) + '\r');
-  for (const rev of eligible) {
-    const body = logMap.get(rev) ?? '';
-    const firstLine = body.split('\n')[0].trim();
-    console.log(CYAN(`  r${rev}  ${firstLine || '(no message)'}` ));
+  // ─── Print resolved parameters ───────────────────────────────────────────────
+  {
+    const cliIgnorePaths = opts.ignore ? opts.ignore.split(',').map((s) => s.trim()).filter(Boolean) : [];
+    const allIgnore = resumeSession
+      ? resumeSession.options.ignorePaths ?? []
+      : [...rcConfig.globalIgnore, ...configIgnoreMerge, ...cliIgnorePaths];
+    console.log(CYAN('─── Parameters ───────────────────────────────────────'));
+    if (opts.profile) {
+      console.log(CYAN(`  profile   : ${opts.profile}`));
+    }
+    console.log(CYAN(`  workspace : ${workspace}`));
+    console.log(CYAN(`  from      : ${resumeSession ? resumeSession.options.fromUrl : sourceUrl}`));
+    console.log(CYAN(`  output    : ${outputDir}`));
+    if (allIgnore.length === 0) {
+      console.log(CYAN('  ignore    : (none)'));
+    } else {
+      console.log(CYAN(`  ignore    : ${allIgnore[0]}`));
+      for (let i = 1; i < allIgnore.length; i++) {
+        console.log(CYAN(`              ${allIgnore[i]}`));
+      }
+    };
+    const rules = resumeSession ? resumeSession.options.resolveRules ?? [] : configResolve;
+    if (rules.length === 0) {
+      console.log(CYAN('  resolve   : (default)'));
+    } else {
+      rules.forEach((rule, i) => {
+        console.log(CYAN(`${i === 0 ? '  resolve   : ' : '              '}${describeRule(rule)} → ${rule.accept}`));
+      });
+    }
+    console.log(CYAN(`  verbose   : ${!!(opts.verbose || configVerbose)}`));
+    if (logLevel !== 'info') {
+      console.log(CYAN(`  log level : ${logLevel}`));
+    }
+    if (configRetention) {
+      console.log(CYAN(`  retention : ${describeRetention(configRetention)}`));
+    }
+    if (blockRevisions.length > 0) {
+      console.log(CYAN(`  mode      : ${unblock ? 'unblock' : 'block'} ${compressRevisions(blockRevisions)} (record-only)`));
+    } else {
+      const reverse = resumeSession ? resumeSession.options.reverse : opts.reverse;
+      const modes = [...(reverse ? ['reverse'] : []), ...(opts.interactive ? ['interactive'] : [])];
+      if (modes.length > 0) console.log(CYAN(`  mode      : ${modes.join(', ')}`));
+    }
+    console.log(CYAN(`  dry-run   : ${!!opts.dryRun}${opts.predict ? ' (predict conflicts)' : ''}`));
+    const commitEach = resumeSession ? !!resumeSession.options.commitEach : !!(opts.commitEach || configCommitEach);
+    console.log(CYAN(`  commit    : ${commitEach ? 'each revision' : !!(opts.commit || configCommit)}`));
+    const format = resumeSession ? resumeSession.options.message ?? {} : messageTemplate;
+    const formatParts = [
+      ...(format.template ? ['template'] : []),
+      ...(format.entry ? ['entry template'] : []),
+      ...(format.firstLine ? ['first line only'] : []),
+    ];
+    if (formatParts.length > 0) {
+      console.log(CYAN(`  message   : ${formatParts.join(', ')}`));
+    }
+    const tickets = resumeSession ? resumeSession.options.tickets : configTickets;
+    if (tickets) {
+      console.log(CYAN(`  tickets   : ${tickets.pattern}${tickets.url ? `  → ${tickets.url}` : ''}`));
+    }
+    const hookStages = Object.keys(configHooks);
+    if (hookStages.length > 0) {
+      console.log(CYAN(`  hooks     : ${hookStages.join(', ')}`));
+    }
+    console.log(CYAN(`  report    : ${reportFormats.length ? reportFormats.join(', ') : '(none)'}`));
+    console.log(CYAN(`  revisions : ${revisions.length ? compressRevisions(revisions) : '(auto — all eligible)'}`));
+    if (configBlock.length > 0) {
+      console.log(CYAN(`  block     : ${compressRevisions(configBlock)}`));
+    }
+    const activeFilter = resumeSession ? resumeSession.options.filter ?? {} : filter;
+    if (!isFilterEmpty(activeFilter)) {
+      console.log(CYAN(`  filter    : ${describeFilter(activeFilter)}`));
+    }
+    if (resumeSession) {
+      console.log(CYAN(`  resume    : session ${resumeSession.startTs} (${resumeSession.results.length}/${revisions.length} done)`));
+    }
+    console.log(CYAN('──────────────────────────────────────────────────────'));
   }
 
-  // --dry-run: stop here without merging
-  if (opts.dryRun) {
-    console.log(CYAN('\n[dry-run] No changes made.'));
-    process.exit(0);
+  if (resumeSession) {
+    const pending = pendingRevisions(resumeSession);
+    console.log(CYAN(`Remaining revisions (${pending.length}): ${pending.length ? compressRevisions(pending) : '(none)'}`));
+    if (!confirm(YELLOW(`\nResume merge session ${resumeSession.startTs}? [y/N] `))) {
+      console.log(RED('Aborted.'));
+      return stop(EXIT_CODES.aborted, 'aborted');
+    }
+  } else {
+    const unfinished = findResumableSession(outputDir);
+    if (unfinished) {
+      console.log(YELLOW(`Note: merge session ${unfinished.startTs} did not finish. Run with --resume to continue it.`));
+    }
   }
 
-  if (!promptYN(YELLOW(`\nMerge all ${eligible.length} revision(s)? [y/N] `))) {
-    console.log(RED('Aborted.'));
-    process.exit(0);
+  // ─── Check for local modifications ──────────────────────────────────────────
+  // A resumed session expects the changes of the revisions merged so far.
+  let stashFile: string | undefined;
+  let dirtyLines: string[];
+  try {
+    dirtyLines = resumeSession ? [] : localChanges(workspace, svn);
+  } catch (e: unknown) {
+    return fail(e instanceof Error ? e.message : String(e));
+  }
+  if (dirtyLines.length > 0) {
+    console.log(YELLOW('Warning: working copy has uncommitted changes:'));
+    for (const line of dirtyLines) {
+      console.log(YELLOW(`  ${line}`));
+    }
+    if (dirtyPolicy === 'abort') {
+      console.log(RED('Aborted: the working copy has uncommitted changes (on-dirty: abort).'));
+      return stop(EXIT_CODES.aborted, 'aborted: uncommitted changes');
+    } else if (dirtyPolicy === 'continue') {
+      console.log(YELLOW('Continuing with the uncommitted changes (on-dirty: continue).'));
+    } else if (dirtyPolicy === 'stash') {
+      if (opts.dryRun) {
+        console.log(YELLOW('[dry-run] The changes are not stashed.'));
+      } else {
+        const patchFile = path.join(outputDir, `svnmerge-${startTs}.stash.patch`);
+        try {
+          if (stashChanges(workspace, patchFile, svn)) {
+            stashFile = patchFile;
+            console.log(YELLOW(`Stashed the local changes to ${patchFile} and reverted them.`));
+            console.log(YELLOW(`  Restore them with: svn patch "${patchFile}"`));
+          } else {
+            console.log(YELLOW('Only unversioned files; nothing to stash.'));
+          }
+        } catch (e: unknown) {
+          return fail(`stashing the local changes failed: ${e instanceof Error ? e.message : String(e)}`);
+        }
+      }
+    } else if (!promptYN(YELLOW('Continue anyway? [y/N] '))) {
+      console.log(RED('Aborted.'));
+      return stop(EXIT_CODES.aborted, 'aborted: uncommitted changes');
+    }
   }
-  revisions.push(...eligible);
-  autoDiscovered = true;
-}
 
+  // ─── svn update ────────────────────────────────────────────────────────
+  if (!resumeSession) {
+    try {
+      svn.update(workspace);
+    } catch (e: unknown) {
+      return fail(e instanceof Error ? e.message : String(e));
+    }
+  }
 
-// ─── dry-run with explicit -r: show log preview and exit ─────────────────────
-if (opts.dryRun && revisions.length > 0) {
-  console.log(CYAN(`Revisions to merge (${revisions.length}): ${compressRevisions(revisions)}`));
-  process.stdout.write(CYAN('Fetching revision logs...\r'));
-  const logMap = svnLogBatch(revisions, rawFromUrl);
-  process.stdout.write(' '.repeat(40) + '\r');
-  for (const rev of revisions) {
-    const body = logMap.get(rev) ?? '';
-    const firstLine = body.split('\n')[0].trim();
-    console.log(CYAN(`  r${rev}  ${firstLine || '(no message)'}`));
+  // ─── Block / unblock ───────────────────────────────────────────────────────
+  if (blockRevisions.length > 0) {
+    const action = unblock ? 'Unblock' : 'Block';
+    const logMap = svn.logBatch(blockRevisions, sourceUrl);
+    for (const rev of blockRevisions) {
+      const firstLine = (logMap.get(rev) ?? '').split('\n')[0].trim();
+      console.log(CYAN(`  r${rev}  ${firstLine || '(no message)'}`));
+    }
+    if (!confirm(YELLOW(`\n${action} ${blockRevisions.length} revision(s) with a record-only merge? [y/N] `))) {
+      console.log(RED('Aborted.'));
+      return stop(EXIT_CODES.aborted, 'aborted');
+    }
+
+    const blockLogger = openLogger(outputDir);
+    if (stashFile) blockLogger.log(`Local changes stashed to ${stashFile}`);
+    const outcome = recordRevisions(blockRevisions, sourceUrl, workspace, blockLogger, unblock, svn);
+    if (!outcome.success) {
+      const failure = fail(`${action.toLowerCase()} failed: ${outcome.errorMessage}`);
+      blockLogger.close();
+      return { ...failure, logPath: blockLogger.getLogPath() };
+    }
+    const blockMessage = buildBlockMessage(blockRevisions, sourceUrl, unblock, svn);
+    blockLogger.appendRaw('\n' + '='.repeat(72) + '\n');
+    blockLogger.appendRaw(blockMessage);
+    blockLogger.appendRaw('='.repeat(72) + '\n');
+    console.log(CYAN(`${unblock ? 'Unblocked' : 'Blocked'}: ${compressRevisions(blockRevisions)}`));
+
+    let exitCode: ExitCode = EXIT_CODES.success;
+    if (outcome.modified.length === 0) {
+      console.log(YELLOW('svn:mergeinfo did not change; nothing to commit.'));
+    } else if ((opts.commit ?? false) || configCommit || configCommitEach) {
+      try {
+        const commitOut = svn.commit(workspace, blockMessage, outcome.modified.map((m) => m.path));
+        if (commitOut) console.log(commitOut);
+        blockLogger.log(commitOut);
+        console.log(CYAN('Commit successful.'));
+      } catch (e: unknown) {
+        const msg = e instanceof Error ? e.message : String(e);
+        console.error(RED(`Commit failed: ${msg}`));
+        blockLogger.log(`Commit failed: ${msg}`);
+        exitCode = EXIT_CODES.failure;
+      }
+    } else {
+      if (rcConfig.copyToClipboard) copyToClipboard(blockMessage);
+      console.log(YELLOW('The svn:mergeinfo change is not committed yet. Commit it (or run with -C) to make it permanent.'));
+    }
+    console.log(`Log: ${blockLogger.getLogPath()}`);
+    blockLogger.close();
+    return { workspace, code: exitCode, logPath: blockLogger.getLogPath(), note: `${unblock ? 'unblocked' : 'blocked'} ${compressRevisions(blockRevisions)}` };
   }
-  console.log(CYAN('\n[dry-run] No changes made.'));
-  process.exit(0);
-}
 
-// ─── Preview + confirm for explicit -r (non dry-run) ─────────────────────────
-if (!autoDiscovered && revisions.length > 0) {
-  console.log(CYAN(`Revisions to merge (${revisions.length}): ${compressRevisions(revisions)}`));
-  process.stdout.write(CYAN('Fetching revision logs...\r'));
-  const logMap = svnLogBatch(revisions, rawFromUrl);
-  process.stdout.write(' '.repeat(40) + '\r');
-  for (const rev of revisions) {
-    const body = logMap.get(rev) ?? '';
-    const firstLine = body.split('\n')[0].trim();
-    console.log(CYAN(`  r${rev}  ${firstLine || '(no message)'}`));
+  // ─── Merge ignore paths: CLI -i appends to config ignore list ───────────────
+  const cliIgnorePaths = opts.ignore
+    ? opts.ignore.split(',').map((s) => s.trim()).filter(Boolean)
+    : [];
+  const ignorePaths = [...rcConfig.globalIgnore, ...configIgnoreMerge, ...cliIgnorePaths];
+
+  // ─── If no -r provided, discover eligible revisions ──────────────────────────
+  let autoDiscovered = false;
+  if (revisions.length === 0) {
+    let eligible: number[];
+    try {
+      eligible = svn.eligibleRevisions(sourceUrl, workspace);
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      console.error(RED(`Error querying eligible revisions: ${msg}`));
+      return stop(EXIT_CODES.failure, `querying eligible revisions: ${msg}`);
+    }
+
+    if (eligible.length === 0) {
+      console.log(CYAN('No eligible revisions to merge. Working copy is up to date.'));
+      return stop(EXIT_CODES.nothingToMerge, 'up to date');
+    }
+
+    const compressed = compressRevisions(eligible);
+    console.log(CYAN(`Found ${eligible.length} eligible revision(s): ${compressed}`));
+
+    // Revisions from the config block list are never merged
+    const blockSet = new Set(configBlock);
+    const blocked = eligible.filter((rev) => blockSet.has(rev));
+    eligible = eligible.filter((rev) => !blockSet.has(rev));
+    if (blocked.length > 0) {
+      console.log(CYAN(`Skipping ${blocked.length} blocked revision(s): ${compressRevisions(blocked)}`));
+    }
+    if (eligible.length === 0) {
+      console.log(CYAN('No eligible revisions to merge (all remaining revisions are blocked).'));
+      return stop(EXIT_CODES.nothingToMerge, 'up to date');
+    }
+    eligible = applyFilter(eligible);
+    if (eligible.length === 0) return stop(EXIT_CODES.nothingToMerge, 'no revisions match the filter');
+
+    // Fetch log previews (one batch call)
+    const logMap = fetchLogMessages([...eligible, ...blocked]);
+    for (const rev of [...eligible, ...blocked].sort((a, b) => a - b)) {
+      const line = previewLine(rev, logMap.get(rev) ?? '', blockSet.has(rev));
+      console.log(blockSet.has(rev) ? GRAY(line) : CYAN(line));
+    }
+
+    // --dry-run: stop here without merging
+    if (opts.dryRun) {
+      if (opts.predict) printPredictions(workspace, eligible, ignorePaths);
+      console.log(CYAN('\n[dry-run] No changes made.'));
+      return stop(EXIT_CODES.success, 'dry-run');
+    }
+
+    if (!confirm(YELLOW(`\nMerge all ${eligible.length} revision(s)? [y/N] `))) {
+      console.log(RED('Aborted.'));
+      return stop(EXIT_CODES.aborted, 'aborted');
+    }
+    revisions.push(...eligible);
+    autoDiscovered = true;
   }
-  if (!promptYN(YELLOW(`\nMerge ${revisions.length} revision(s)? [y/N] `))) {
-    console.log(RED('Aborted.'));
-    process.exit(0);
+
+
+  // ─── --reverse: only revisions recorded as merged can be undone ──────────────
+  if (opts.reverse && !resumeSession) {
+    let merged: Set<number>;
+    try {
+      merged = new Set(svn.mergedRevisions(sourceUrl, workspace));
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      console.error(RED(`Error querying merged revisions: ${msg}`));
+      return stop(EXIT_CODES.failure, `querying merged revisions: ${msg}`);
+    }
+    const notMerged = revisions.filter((rev) => !merged.has(rev));
+    if (notMerged.length > 0) {
+      return fail(`revision(s) ${compressRevisions(notMerged)} are not recorded as merged from ${sourceUrl}; nothing to undo.`);
+    }
   }
-}
 
-// ─── Merge ignore paths: CLI -i appends to config ignore list ───────────────
-const cliIgnorePaths = opts.ignore
-  ? opts.ignore.split(',').map((s) => s.trim()).filter(Boolean)
-  : [];
-const ignorePaths = [...rcConfig.globalIgnore, ...configIgnoreMerge, ...cliIgnorePaths];
+  // ─── Filter explicit -r revisions ────────────────────────────────────────────
+  if (!autoDiscovered && !resumeSession && revisions.length > 0) {
+    revisions = applyFilter(revisions);
+    if (revisions.length === 0) return stop(EXIT_CODES.nothingToMerge, 'no revisions match the filter');
+  }
 
-// ─── Run merge ───────────────────────────────────────────────────────────────
-const options: MergeOptions = {
-  workspace,
-  fromUrl: rawFromUrl,
-  revisions,
-  ignorePaths,
-  verbose: opts.verbose ?? configVerbose,
-};
+  // ─── Cherry-pick dependencies of explicit -r revisions ───────────────────────
+  // Earlier eligible revisions that change the same paths were probably skipped by mistake.
+  if (!autoDiscovered && !resumeSession && !opts.reverse && revisions.length > 0) {
+    revisions = includeDependencies(workspace, revisions);
+  }
 
-const logger = new Logger(outputDir, startTs);
-const summary = run(options, logger);
-// logger stays open until after summary is written to log
-
-// ─── Console summary helpers ──────────────────────────────────────────────────
-const DONE_GREEN = (s: string) => `\x1b[32m${s}\x1b[0m`;
-const DONE_YELLOW = (s: string) => `\x1b[33m${s}\x1b[0m`;
-const DONE_RED = (s: string) => `\x1b[31m${s}\x1b[0m`;
-
-// ─── Console: conflict summary ────────────────────────────────────────────────
-const verbose = opts.verbose ?? configVerbose;
-const allReverted = summary.results.flatMap((r) => r.reverted ?? []);
-const uniqueReverted = [...new Map(allReverted.map((r) => [r.path, r])).values()];
-const uniqueRevertedRel = uniqueReverted.map((r) => ({
-  ...r,
-  relPath: relPath(r.path, workspace),
-}));
-uniqueRevertedRel.sort((a, b) => a.relPath.localeCompare(b.relPath));
-
-const hasActiveConflicts = summary.results.some((r) => r.conflicts.some((c) => !c.ignored));
-const hasIgnoredConflicts = summary.results.some((r) => r.conflicts.some((c) => c.ignored));
-if (hasActiveConflicts || summary.failed > 0 || (verbose && (uniqueReverted.length > 0 || summary.withConflicts > 0 || hasIgnoredConflicts))) {
-  console.log();
-  console.log('\x1b[1mMerge Summary:\x1b[0m');
-  logger.log('');
-  logger.log('Merge Summary:');
+  // ─── dry-run with explicit -r: show log preview and exit ─────────────────────
+  if (opts.dryRun && revisions.length > 0) {
+    console.log(CYAN(`Revisions to ${opts.reverse ? 'undo' : 'merge'} (${revisions.length}): ${compressRevisions(revisions)}`));
+    const logMap = fetchLogMessages(revisions);
+    for (const rev of revisions) {
+      console.log(CYAN(previewLine(rev, logMap.get(rev) ?? '')));
+    }
+    if (opts.predict) printPredictions(workspace, revisions, ignorePaths);
+    console.log(CYAN('\n[dry-run] No changes made.'));
+    return stop(EXIT_CODES.success, 'dry-run');
+  }
 
-  for (const result of summary.results) {
-    if (!result.success) {
-      console.log(DONE_RED(`  r${result.revision}  FAILED  ${result.errorMessage ?? ''}`));
-      logger.log(`  r${result.revision}  FAILED  ${result.errorMessage ?? ''}`);
+  // ─── Preview + confirm for explicit -r (non dry-run) ─────────────────────────
+  if (!autoDiscovered && !resumeSession && revisions.length > 0) {
+    console.log(CYAN(`Revisions to ${opts.reverse ? 'undo' : 'merge'} (${revisions.length}): ${compressRevisions(revisions)}`));
+    const logMap = fetchLogMessages(revisions);
+    for (const rev of revisions) {
+      console.log(CYAN(previewLine(rev, logMap.get(rev) ?? '')));
+    }
+    if (!confirm(YELLOW(`\n${opts.reverse ? 'Reverse-merge' : 'Merge'} ${revisions.length} revision(s)? [y/N] `))) {
+      console.log(RED('Aborted.'));
+      return stop(EXIT_CODES.aborted, 'aborted');
     }
   }
 
-  const groups = groupSummaryByType(summary.results, workspace);
-  const GRAY = (s: string) => `\x1b[90m${s}\x1b[0m`;
-  const typeLabels: Record<string, string> = {
-    tree: 'Tree Conflicts',
-    text: 'Text Conflicts',
-    property: 'Property Conflicts',
+  // ─── Run merge ───────────────────────────────────────────────────────────────
+  const options: MergeOptions = resumeSession
+    ? { ...resumeSession.options, verbose: opts.verbose ?? resumeSession.options.verbose }
+    : {
+        workspace,
+        fromUrl: sourceUrl,
+        revisions,
+        ignorePaths,
+        verbose: opts.verbose ?? configVerbose,
+        resolveRules: configResolve,
+        filter: isFilterEmpty(filter) ? undefined : filter,
+        reverse: opts.reverse ? true : undefined,
+        commitEach: opts.commitEach || configCommitEach ? true : undefined,
+        message: Object.keys(messageTemplate).length > 0 ? messageTemplate : undefined,
+        tickets: configTickets,
+      };
+  const fromUrl = options.fromUrl;
+
+  const logger = openLogger(outputDir);
+  if (pruneNote) logger.log(pruneNote);
+  if (stashFile) logger.log(`Local changes stashed to ${stashFile}`);
+
+  // ─── Hooks ───────────────────────────────────────────────────────────────────
+  const hookRuns: HookRun[] = [];
+  const runStage = (stage: HookStage, extra: Partial<HookContext> = {}): boolean => {
+    const runs = runHooks(configHooks, {
+      stage, workspace, fromUrl, revisions: options.revisions, logFile: logger.getLogPath(), ...extra,
+    }, hookContextFile(outputDir), logger);
+    hookRuns.push(...runs);
+    return hooksPassed(runs);
   };
+  // The commit hooks get the message as a file; a pre-commit hook may edit it
+  const messageFile = Object.keys(configHooks).length > 0 ? path.join(outputDir, `svnmerge-${startTs}.message.txt`) : undefined;
+  const writeMessageFile = (message: string): string | undefined => {
+    if (messageFile) fs.writeFileSync(messageFile, message, 'utf8');
+    return messageFile;
+  };
+  if (!runStage('pre-merge')) {
+    const msg = 'pre-merge hook failed; nothing was merged.';
+    console.error(RED(`Error: ${msg}`));
+    logger.log(msg);
+    if (stashFile) {
+      console.log(YELLOW(`Stashed local changes: ${stashFile} (restore with svn patch)`));
+    }
+    logger.close();
+    return { workspace, code: EXIT_CODES.failure, note: 'pre-merge hook failed', logPath: logger.getLogPath(), hooks: hookRuns };
+  }
 
-  const DONE_RED_SUMMARY = (s: string) => `\x1b[31m${s}\x1b[0m`;
-  for (const [type, entries] of groups) {
-    if (entries.length === 0) continue;
-    const activeEntries = entries.filter((e) => !e.ignored);
-    const ignoredEntries = entries.filter((e) => e.ignored);
-    // When not verbose, skip groups that have no active entries
-    if (!verbose && activeEntries.length === 0) continue;
-    const countLabel = verbose && ignoredEntries.length > 0
-      ? `${activeEntries.length} + ${ignoredEntries.length} ignored`
-      : `${activeEntries.length}`;
-    const titleColor = activeEntries.length === 0 ? GRAY : (type === 'tree' ? DONE_RED_SUMMARY : DONE_YELLOW);
-    const titleLine = `  ${typeLabels[type]} (${countLabel}):`;
-    console.log(titleColor(titleLine));
-    logger.log(titleLine);
-    for (const e of activeEntries) {
-      const kindTag = e.isDirectory ? '[D]' : '[F]';
-      const line = `    ${kindTag}  ${e.relPath}  (${e.resolution})`;
-      console.log((type === 'tree' ? DONE_RED_SUMMARY : DONE_YELLOW)(line));
-      logger.log(line);
+  const session = resumeSession ?? createSession(options, startTs);
+  session.options = options;
+  session.logFiles.push(logger.getLogPath());
+  saveSession(outputDir, session);
+
+  const backupDir = backupDirPath(outputDir, session.startTs);
+  const summary = run(options, logger, session.results, {
+    svn,
+    backupDir,
+    chooseResolution: opts.interactive
+      ? createInteractiveChooser(workspace, svn, rcConfig.mergeTool)
+      : undefined,
+    onRevision: (result, results) => {
+      session.results = results;
+      saveSession(outputDir, session);
+      runStage('post-revision', { revision: result });
+    },
+    beforeCommit: (result, message) => {
+      const file = writeMessageFile(message);
+      if (!runStage('pre-commit', { revision: result, messageFile: file })) return undefined;
+      return file ? fs.readFileSync(file, 'utf8') : message;
+    },
+    afterCommit: (result) => {
+      runStage('post-commit', {
+        revision: result, messageFile, commit: { status: 'committed', revision: result.committedRevision },
+      });
+    },
+  });
+  // logger stays open until after summary is written to log
+
+  // ─── Console summary helpers ───────────────────────────────────────────────
+  const DONE_GREEN = (s: string) => `\x1b[32m${s}\x1b[0m`;
+  const DONE_YELLOW = (s: string) => `\x1b[33m${s}\x1b[0m`;
+  const DONE_RED = (s: string) => `\x1b[31m${s}\x1b[0m`;
+
+  // ─── Console: conflict summary ─────────────────────────────────────────────
+  const verbose = opts.verbose ?? configVerbose;
+  const allReverted = summary.results.flatMap((r) => r.reverted ?? []);
+  const uniqueReverted = [...new Map(allReverted.map((r) => [r.path, r])).values()];
+  const uniqueRevertedRel = uniqueReverted.map((r) => ({
+    ...r,
+    relPath: relPath(r.path, workspace),
+  }));
+  uniqueRevertedRel.sort((a, b) => a.relPath.localeCompare(b.relPath));
+
+  const hasActiveConflicts = summary.results.some((r) => r.conflicts.some((c) => !c.ignored));
+  const hasIgnoredConflicts = summary.results.some((r) => r.conflicts.some((c) => c.ignored));
+  if (hasActiveConflicts || summary.failed > 0 || (verbose && (uniqueReverted.length > 0 || summary.withConflicts > 0 || hasIgnoredConflicts))) {
+    console.log();
+    console.log('\x1b[1mMerge Summary:\x1b[0m');
+    logger.log('');
+    logger.log('Merge Summary:');
+
+    for (const result of summary.results) {
+      if (!result.success) {
+        console.log(DONE_RED(`  r${result.revision}  FAILED  ${result.errorMessage ?? ''}`));
+        logger.log(`  r${result.revision}  FAILED  ${result.errorMessage ?? ''}`);
+      }
     }
-    if (verbose) {
-      for (const e of ignoredEntries) {
+
+    const groups = groupSummaryByType(summary.results, workspace);
+    const typeLabels: Record<string, string> = {
+      tree: 'Tree Conflicts',
+      text: 'Text Conflicts',
+      property: 'Property Conflicts',
+    };
+
+    const DONE_RED_SUMMARY = (s: string) => `\x1b[31m${s}\x1b[0m`;
+    for (const [type, entries] of groups) {
+      if (entries.length === 0) continue;
+      const activeEntries = entries.filter((e) => !e.ignored);
+      const ignoredEntries = entries.filter((e) => e.ignored);
+      // When not verbose, skip groups that have no active entries
+      if (!verbose && activeEntries.length === 0) continue;
+      const countLabel = verbose && ignoredEntries.length > 0
+        ? `${activeEntries.length} + ${ignoredEntries.length} ignored`
+        : `${activeEntries.length}`;
+      const titleColor = activeEntries.length === 0 ? GRAY : (type === 'tree' ? DONE_RED_SUMMARY : DONE_YELLOW);
+      const titleLine = `  ${typeLabels[type]} (${countLabel}):`;
+      console.log(titleColor(titleLine));
+      logger.log(titleLine);
+      for (const e of activeEntries) {
         const kindTag = e.isDirectory ? '[D]' : '[F]';
-        const line = `    ${kindTag}  ${e.relPath}  (${e.resolution})`;
+        const detail = e.treeConflict ? `  ${describeTreeConflict(e.treeConflict)}` : '';
+        const line = `    ${kindTag}  ${e.relPath}  (${formatResolution(e.resolution, e.rule, e.interactive)})${detail}`;
+        console.log((type === 'tree' ? DONE_RED_SUMMARY : DONE_YELLOW)(line));
+        logger.log(line);
+      }
+      if (verbose) {
+        for (const e of ignoredEntries) {
+          const kindTag = e.isDirectory ? '[D]' : '[F]';
+          const line = `    ${kindTag}  ${e.relPath}  (${formatIgnored(e.ignoredBy)})`;
+          console.log(GRAY(line));
+          logger.log(line);
+        }
+      }
+    }
+
+    if (verbose && uniqueRevertedRel.length > 0) {
+      const revertTitle = `  Ignored (${uniqueRevertedRel.length}):`;
+      console.log(GRAY(revertTitle));
+      logger.log(revertTitle);
+      for (const r of uniqueRevertedRel) {
+        const kindTag = r.isDirectory ? '[D]' : '[F]';
+        const line = `    ${kindTag}  ${r.relPath}  (${formatIgnored(r.ignoredBy)})`;
         console.log(GRAY(line));
         logger.log(line);
       }
     }
   }
 
-  if (verbose && uniqueRevertedRel.length > 0) {
-    const revertTitle = `  Ignored (${uniqueRevertedRel.length}):`;
-    console.log(GRAY(revertTitle));
-    logger.log(revertTitle);
-    for (const r of uniqueRevertedRel) {
-      const kindTag = r.isDirectory ? '[D]' : '[F]';
-      const line = `    ${kindTag}  ${r.relPath}  (ignored)`;
-      console.log(GRAY(line));
+  // ─── Generate merge message ────────────────────────────────────────────────
+  console.log('\nGenerating merge message...');
+  const mergeMessage = buildMessage(summary, fromUrl, svn, {
+    reverse: options.reverse, workspace, template: options.message, tickets: options.tickets,
+  });
+  logger.appendRaw('\n' + '='.repeat(72) + '\n');
+  logger.appendRaw(mergeMessage);
+  logger.appendRaw('='.repeat(72) + '\n');
+
+  // ─── Copy merge message to clipboard ─────────────────────────────────────────
+  if (rcConfig.copyToClipboard) {
+    copyToClipboard(mergeMessage);
+    const clipMsg = 'Merge message copied to clipboard.';
+    console.log(CYAN(clipMsg));
+    logger.log(clipMsg);
+  }
+
+  // ─── Console: done line ────────────────────────────────────────────────────
+
+  console.log();
+  console.log(
+    [
+      `Done. Total: ${summary.total}`,
+      DONE_GREEN(`OK: ${summary.succeeded}`),
+      summary.withConflicts > 0 ? DONE_YELLOW(`Conflicts: ${summary.withConflicts}`) : null,
+      summary.failed > 0 ? DONE_RED(`Failed: ${summary.failed}`) : null,
+      summary.results.length < summary.total ? DONE_YELLOW(`Not merged: ${summary.total - summary.results.length}`) : null,
+    ]
+      .filter(Boolean)
+      .join('  ')
+  );
+  console.log(`Log: ${logger.getLogPath()}`);
+  console.log(`Events: ${logger.getEventsPath()}`);
+  const backedUp = summary.results.some((r) => r.conflicts.some((c) => c.backup?.length));
+  if (backedUp) {
+    console.log(`Backup: ${backupDir} (restore a file's local version with: svn-merge-tool restore <path>)`);
+    logger.log(`Conflict files backed up to ${backupDir}`);
+  }
+  if (stashFile) {
+    console.log(YELLOW(`Stashed local changes: ${stashFile} (restore with svn patch)`));
+  }
+
+  // ─── Auto-commit ─────────────────────────────────────────────────────────────
+  const shouldCommit = (opts.commit ?? false) || configCommit;
+  let commit: CommitOutcome = { status: 'disabled' };
+  if (options.commitEach) {
+    // Each revision was committed by the merge loop; map source → new revision
+    console.log('\n\x1b[1mCommits:\x1b[0m');
+    logger.log('');
+    logger.log('Commits:');
+    for (const r of summary.results) {
+      const line = r.committedRevision ? `  r${r.revision} → r${r.committedRevision}` : `  r${r.revision}   not committed`;
+      console.log(r.committedRevision ? DONE_GREEN(line) : DONE_YELLOW(line));
       logger.log(line);
     }
+    const committed = summary.results.filter((r) => r.committedRevision);
+    commit = committed.length > 0
+      ? { status: 'committed', revision: committed[committed.length - 1].committedRevision }
+      : { status: 'skipped', message: 'no revision was committed' };
+  } else if (shouldCommit) {
+    if (summary.failed > 0 || hasActiveConflicts) {
+      const reasons: string[] = [];
+      if (summary.failed > 0) {
+        const failedRevs = summary.results.filter((r) => !r.success).map((r) => `r${r.revision}`).join(', ');
+        reasons.push(`${summary.failed} revision(s) failed (${failedRevs})`);
+      }
+      if (hasActiveConflicts) {
+        const conflictRevs = summary.results
+          .filter((r) => r.conflicts.some((c) => !c.ignored))
+          .map((r) => `r${r.revision}`)
+          .join(', ');
+        reasons.push(`unresolved conflicts (${conflictRevs})`);
+      }
+      const msg = `Auto-commit skipped: ${reasons.join(', ')}.`;
+      console.log(DONE_YELLOW(`\n${msg}`));
+      logger.log(msg);
+      commit = { status: 'skipped', message: reasons.join(', ') };
+    } else if (summary.succeeded === 0) {
+      console.log(DONE_YELLOW('\nAuto-commit skipped: no revisions were successfully merged.'));
+      logger.log('Auto-commit skipped: no revisions were successfully merged.');
+      commit = { status: 'skipped', message: 'no revisions were successfully merged' };
+    } else if (!runStage('pre-commit', { summary, messageFile: writeMessageFile(mergeMessage) })) {
+      console.error(DONE_RED('\nAuto-commit aborted: pre-commit hook failed.'));
+      logger.log('Auto-commit aborted: pre-commit hook failed.', 'error');
+      logger.event({ event: 'commit', success: false, error: 'pre-commit hook failed' }, 'error');
+      commit = { status: 'failed', message: 'pre-commit hook failed' };
+    } else {
+      console.log(DONE_GREEN('\nRunning svn commit...'));
+      logger.log('Running svn commit...');
+      try {
+        const allModifiedPaths = [
+          ...new Map(
+            summary.results
+              .filter((r) => r.success)
+              .flatMap((r) => r.modified.map((m) => [m.path, m]))
+          ).values(),
+        ].map((m) => m.path);
+        const commitMessage = messageFile ? fs.readFileSync(messageFile, 'utf8') : mergeMessage;
+        const commitOut = svn.commit(workspace, commitMessage, allModifiedPaths.length > 0 ? allModifiedPaths : undefined);
+        console.log(DONE_GREEN('Commit successful.'));
+        if (commitOut) {
+          console.log(commitOut);
+          logger.log(commitOut);
+        }
+        logger.log('Commit successful.');
+        commit = { status: 'committed', revision: parseCommittedRevision(commitOut) };
+        logger.event({ event: 'commit', committedRevision: commit.revision, success: true });
+      } catch (e: unknown) {
+        const msg = e instanceof Error ? e.message : String(e);
+        console.error(DONE_RED(`Auto-commit failed: ${msg}`));
+        logger.log(`Auto-commit failed: ${msg}`, 'error');
+        logger.event({ event: 'commit', success: false, error: msg }, 'error');
+        commit = { status: 'failed', message: msg };
+      }
+      if (commit.status === 'committed') {
+        runStage('post-commit', { summary, messageFile, commit });
+      }
+    }
   }
-}
 
-// ─── Generate merge message ───────────────────────────────────────────────────
-console.log('\nGenerating merge message...');
-const mergeMessage = buildMessage(summary, rawFromUrl);
-logger.appendRaw('\n' + '='.repeat(72) + '\n');
-logger.appendRaw(mergeMessage);
-logger.appendRaw('='.repeat(72) + '\n');
-
-// ─── Copy merge message to clipboard ─────────────────────────────────────────
-if (rcConfig.copyToClipboard) {
-  copyToClipboard(mergeMessage);
-  const clipMsg = 'Merge message copied to clipboard.';
-  console.log(CYAN(clipMsg));
-  logger.log(clipMsg);
-}
-
-// ─── Console: done line ───────────────────────────────────────────────────────
-
-console.log();
-console.log(
-  [
-    `Done. Total: ${summary.total}`,
-    DONE_GREEN(`OK: ${summary.succeeded}`),
-    summary.withConflicts > 0 ? DONE_YELLOW(`Conflicts: ${summary.withConflicts}`) : null,
-    summary.failed > 0 ? DONE_RED(`Failed: ${summary.failed}`) : null,
-  ]
-    .filter(Boolean)
-    .join('  ')
-);
-console.log(`Log: ${logger.getLogPath()}`);
-
-// ─── Auto-commit ─────────────────────────────────────────────────────────────
-const shouldCommit = (opts.commit ?? false) || configCommit;
-if (shouldCommit) {
-  if (summary.failed > 0 || hasActiveConflicts) {
-    const reasons: string[] = [];
-    if (summary.failed > 0) {
-      const failedRevs = summary.results.filter((r) => !r.success).map((r) => `r${r.revision}`).join(', ');
-      reasons.push(`${summary.failed} revision(s) failed (${failedRevs})`);
-    }
-    if (hasActiveConflicts) {
-      const conflictRevs = summary.results
-        .filter((r) => r.conflicts.some((c) => !c.ignored))
-        .map((r) => `r${r.revision}`)
-        .join(', ');
-      reasons.push(`unresolved conflicts (${conflictRevs})`);
-    }
-    const msg = `Auto-commit skipped: ${reasons.join(', ')}.`;
-    console.log(DONE_YELLOW(`\n${msg}`));
-    logger.log(msg);
-  } else if (summary.succeeded === 0) {
-    console.log(DONE_YELLOW('\nAuto-commit skipped: no revisions were successfully merged.'));
-    logger.log('Auto-commit skipped: no revisions were successfully merged.');
-  } else {
-    console.log(DONE_GREEN('\nRunning svn commit...'));
-    logger.log('Running svn commit...');
-    try {
-      const allModifiedPaths = [
-        ...new Map(
-          summary.results
-            .filter((r) => r.success)
-            .flatMap((r) => r.modified.map((m) => [m.path, m]))
-        ).values(),
-      ].map((m) => m.path);
-      const commitOut = svnCommit(workspace, mergeMessage, allModifiedPaths.length > 0 ? allModifiedPaths : undefined);
-      console.log(DONE_GREEN('Commit successful.'));
-      if (commitOut) {
-        console.log(commitOut);
-        logger.log(commitOut);
-      }
-      logger.log('Commit successful.');
-    } catch (e: unknown) {
-      const msg = e instanceof Error ? e.message : String(e);
-      console.error(DONE_RED(`Auto-commit failed: ${msg}`));
-      logger.log(`Auto-commit failed: ${msg}`);
-      logger.close();
-      process.exit(1);
+  // ─── Hooks summary ───────────────────────────────────────────────────────────
+  if (hookRuns.length > 0) {
+    console.log('\n\x1b[1mHooks:\x1b[0m');
+    logger.log('');
+    logger.log('Hooks:');
+    formatHookRuns(hookRuns).forEach((line, i) => {
+      console.log(hookRuns[i].exitCode === 0 ? `  ${line}` : DONE_RED(`  ${line}`));
+      logger.log(`  ${line}`);
+    });
+  }
+
+  // ─── Reports ─────────────────────────────────────────────────────────────────
+  const report: MergeReport = {
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    tool: { name: 'svn-merge-tool', version: VERSION },
+    startTs,
+    workspace,
+    fromUrl,
+    revisions: options.revisions,
+    reverse: !!options.reverse,
+    summary,
+    message: mergeMessage,
+    commit,
+    logFile: logger.getLogPath(),
+  };
+  if (hookRuns.length > 0) report.hooks = hookRuns;
+  if (backedUp) report.backupDir = backupDir;
+  if (options.tickets) {
+    const merged = summary.results.filter((r) => r.success).map((r) => r.revision).sort((a, b) => a - b);
+    report.tickets = collectTickets(merged, fetchLogMessages(merged), options.tickets);
+  }
+  try {
+    // The HTML report is always written next to the log; json/junit on request
+    const files = [
+      writeHtmlReport(outputDir, report, options, fetchLogMessages(options.revisions)),
+      ...writeReports(outputDir, report, reportFormats),
+    ];
+    for (const file of files) {
+      console.log(`Report: ${file}`);
+      logger.log(`Report written: ${file}`);
     }
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error(DONE_RED(`Failed to write report: ${msg}`));
+    logger.log(`Failed to write report: ${msg}`, 'error');
+  }
+
+  session.message = mergeMessage;
+  session.commit = commit;
+  saveSession(outputDir, session);
+
+  if (commit.status === 'failed') {
+    // Session stays unfinished so --resume can retry the commit
+    console.log(YELLOW('Run with --resume to retry the commit.'));
+    logger.close();
+    return { workspace, code: EXIT_CODES.failure, summary, commit, logPath: logger.getLogPath(), hooks: hookRuns };
+  }
+  if (summary.stoppedAt !== undefined) {
+    // Session stays unfinished so --resume can merge the remaining revisions
+    console.log(YELLOW(`Fix r${summary.stoppedAt} in the working copy and commit it, then run with --resume to continue.`));
+    logger.close();
+    const stoppedBy = summary.results.find((r) => r.revision === summary.stoppedAt);
+    const code = stoppedBy?.success ? EXIT_CODES.conflicts : EXIT_CODES.failure;
+    return { workspace, code, summary, commit, logPath: logger.getLogPath(), hooks: hookRuns };
+  }
+
+  session.status = 'completed';
+  saveSession(outputDir, session);
+
+  logger.close();
+  const code = summary.failed > 0 ? EXIT_CODES.failure : hasActiveConflicts ? EXIT_CODES.conflicts : EXIT_CODES.success;
+  return { workspace, code, summary, commit, logPath: logger.getLogPath(), hooks: hookRuns };
+}
+
+/**
+ * Run the on-failure hooks of a failed target. Their output is appended to the
+ * target's log (a new one when the target failed before it had one).
+ */
+function runFailureHooks(outcome: TargetOutcome): void {
+  const { workspace, summary } = outcome;
+  const outputDir = resolveOutputDir(workspace);
+  const failedRevisions = summary?.results.filter((r) => !r.success) ?? [];
+  const error = outcome.note
+    ?? (outcome.commit?.status === 'failed' ? `commit failed: ${outcome.commit.message}` : undefined)
+    ?? failedRevisions.map((r) => `r${r.revision}: ${r.errorMessage ?? 'failed'}`).join('; ');
+  const logger = openLogger(outputDir, true);
+  const runs = runHooks(configHooks, {
+    stage: 'on-failure',
+    workspace,
+    fromUrl: sourceUrl,
+    revisions: summary?.results.map((r) => r.revision) ?? cliRevisions,
+    summary,
+    commit: outcome.commit,
+    error,
+    logFile: logger.getLogPath(),
+  }, hookContextFile(outputDir), logger);
+  logger.close();
+  outcome.hooks = [...(outcome.hooks ?? []), ...runs];
+}
+
+// ─── Run every target in turn ────────────────────────────────────────────────
+const outcomes: TargetOutcome[] = [];
+for (const [index, workspace] of targets.entries()) {
+  if (multiTarget) {
+    console.log(CYAN(`\n═══ Target ${index + 1}/${targets.length}: ${workspace} ═══`));
+  }
+  const outcome = mergeTarget(workspace);
+  outcomes.push(outcome);
+  if (outcome.code === EXIT_CODES.failure && configHooks['on-failure']) {
+    runFailureHooks(outcome);
+  }
+  const remaining = targets.length - index - 1;
+  const failed = outcome.code === EXIT_CODES.failure || outcome.code === EXIT_CODES.aborted;
+  if (failed && remaining > 0 && targetPolicy === 'stop') {
+    console.log(YELLOW(`Target ${outcome.code === EXIT_CODES.aborted ? 'aborted' : 'failed'}; skipping the remaining ${remaining} target(s) (on-target-failure: stop).`));
+    break;
+  }
+}
+
+// ─── Combined revision × target matrix ───────────────────────────────────────
+if (multiTarget) {
+  // The same names as the targets' output folders
+  const labels = targetFolderNames(targets);
+  const columns: TargetColumn[] = targets.map((t, i) => ({
+    label: labels[i],
+    results: outcomes[i]?.summary?.results ?? [],
+    commit: outcomes[i]?.commit,
+  }));
+  console.log();
+  console.log('\x1b[1mTarget Results:\x1b[0m');
+  for (const line of formatTargetMatrix(columns)) {
+    console.log(`  ${line}`);
   }
+  targets.forEach((t, i) => {
+    const outcome = outcomes[i];
+    const status = !outcome ? 'not run' : describeExitCode(outcome.code);
+    const note = outcome?.note !== status ? outcome?.note : undefined;
+    const details = [note, outcome?.logPath ? `log: ${outcome.logPath}` : undefined].filter(Boolean).join('  ');
+    const line = `  ${labels[i]}: ${status}${details ? `  ${details}` : ''}`;
+    const color = !outcome ? GRAY
+      : outcome.code === EXIT_CODES.failure || outcome.code === EXIT_CODES.aborted ? RED
+      : outcome.code === EXIT_CODES.conflicts ? YELLOW
+      : (s: string) => s;
+    console.log(color(line));
+  });
 }
 
-logger.close();
-process.exit(summary.failed > 0 ? 1 : 0);
+process.exit(combineExitCodes(outcomes.map((o) => o.code)));
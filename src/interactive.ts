@@ -0,0 +1,182 @@
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { ConflictChooser } from './merger';
+import { SvnBackend } from './svn';
+import { ConflictFiles, ConflictInfo, ConflictType, ResolveStrategy } from './types';
+import { formatConflictLine, formatResolution, relPath } from './utils';
+
+const CYAN = (s: string) => `\x1b[36m${s}\x1b[0m`;
+const YELLOW = (s: string) => `\x1b[33m${s}\x1b[0m`;
+const RED = (s: string) => `\x1b[31m${s}\x1b[0m`;
+const GRAY = (s: string) => `\x1b[90m${s}\x1b[0m`;
+
+/** Longest file or diff printed by the view commands */
+const MAX_VIEW_LINES = 200;
+
+/** Strategy keys; the uppercase key applies the strategy to all remaining conflicts of the type */
+const STRATEGY_KEYS: Record<string, ResolveStrategy> = {
+  m: 'mine-full',
+  t: 'theirs-full',
+  w: 'working',
+  p: 'postpone',
+};
+
+/** Strategies offered per conflict type (svn only accepts full-file choices for text/property) */
+const STRATEGIES_BY_TYPE: Record<ConflictType, ResolveStrategy[]> = {
+  text: ['mine-full', 'theirs-full', 'working', 'postpone'],
+  property: ['mine-full', 'theirs-full', 'working', 'postpone'],
+  tree: ['working', 'postpone'],
+};
+
+/** Read one line from stdin synchronously. Returns undefined when stdin is closed. */
+function readLine(): string | undefined {
+  const buf = Buffer.alloc(1);
+  const bytes: number[] = [];
+  try {
+    while (true) {
+      const n = fs.readSync(0, buf, 0, 1, null);
+      if (n === 0) return bytes.length > 0 ? Buffer.from(bytes).toString('utf8') : undefined;
+      if (buf[0] === 0x0a) return Buffer.from(bytes).toString('utf8').replace(/\r$/, '');
+      bytes.push(buf[0]);
+    }
+  } catch {
+    return undefined;
+  }
+}
+
+/** Print text, cut after MAX_VIEW_LINES lines. */
+function printLimited(text: string): void {
+  const lines = text.replace(/\s+$/, '').split(/\r?\n/);
+  for (const line of lines.slice(0, MAX_VIEW_LINES)) {
+    console.log(`    ${line}`);
+  }
+  if (lines.length > MAX_VIEW_LINES) {
+    console.log(GRAY(`    ... ${lines.length - MAX_VIEW_LINES} more line(s)`));
+  }
+}
+
+/** Print a conflict marker file, or a note when svn did not report it. */
+function viewFile(label: string, file: string | undefined): void {
+  if (!file) {
+    console.log(YELLOW(`  No ${label} file reported by svn for this conflict.`));
+    return;
+  }
+  try {
+    console.log(GRAY(`  ── ${label}: ${file}`));
+    printLimited(fs.readFileSync(file, 'utf8'));
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.log(RED(`  Cannot read ${label} file: ${msg}`));
+  }
+}
+
+/**
+ * Run the configured external merge tool.
+ * Placeholders {base}, {mine}, {theirs} and {merged} are replaced with quoted paths.
+ * Returns true when the tool exited with status 0.
+ */
+function runMergeTool(template: string, files: ConflictFiles, merged: string): boolean {
+  const quote = (p: string | undefined) => `"${(p ?? '').replace(/"/g, '\\"')}"`;
+  const command = template
+    .replace(/\{base\}/g, quote(files.base))
+    .replace(/\{mine\}/g, quote(files.mine))
+    .replace(/\{theirs\}/g, quote(files.theirs))
+    .replace(/\{merged\}/g, quote(merged));
+  console.log(GRAY(`  Running: ${command}`));
+  const result = spawnSync(command, { shell: true, stdio: 'inherit', windowsHide: false });
+  if (result.error) {
+    console.log(RED(`  Merge tool failed to start: ${result.error.message}`));
+    return false;
+  }
+  if (result.status !== 0) {
+    console.log(YELLOW(`  Merge tool exited with status ${result.status}.`));
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Create the --interactive conflict chooser.
+ * For each non-ignored conflict it shows the type and path and offers
+ * mine-full / theirs-full / working / postpone (Enter keeps the suggestion),
+ * views of the diff and of the base/mine/theirs files, and the external
+ * merge tool from ~/.svnmergerc. An uppercase strategy key applies the choice
+ * to every remaining conflict of the same type in this run.
+ * If stdin is closed, the suggested resolution is used.
+ */
+export function createInteractiveChooser(workspace: string, svn: SvnBackend, mergeTool?: string): ConflictChooser {
+  const applyAll = new Map<ConflictType, ResolveStrategy>();
+
+  return (conflict: ConflictInfo, revision: number): ResolveStrategy => {
+    const rel = relPath(conflict.path, workspace);
+    const suggested = conflict.resolution;
+    const sticky = applyAll.get(conflict.type);
+    if (sticky) {
+      console.log(GRAY(`  r${revision} ${formatConflictLine(conflict.type, conflict.isDirectory, rel, sticky, conflict.treeConflict)}  (all ${conflict.type} conflicts)`));
+      return sticky;
+    }
+
+    const strategies = STRATEGIES_BY_TYPE[conflict.type];
+    const keys = Object.entries(STRATEGY_KEYS).filter(([, s]) => strategies.includes(s));
+    let files: ConflictFiles | undefined;
+    const conflictFiles = (): ConflictFiles => {
+      if (!files) {
+        const absPath = path.resolve(workspace, conflict.path);
+        files = svn.infoEntries([absPath], workspace).get(absPath)?.conflictFiles ?? {};
+      }
+      return files;
+    };
+
+    const color = conflict.type === 'tree' ? RED : YELLOW;
+    console.log(color(`  r${revision} ${formatConflictLine(conflict.type, conflict.isDirectory, rel, formatResolution(suggested, conflict.rule), conflict.treeConflict)}`));
+    const choices = keys.map(([k, s]) => `[${k}] ${s}`).join('  ');
+    const views = conflict.type === 'text'
+      ? `  [d] diff  [b] base  [y] mine  [r] theirs${mergeTool ? '  [e] merge tool' : ''}`
+      : conflict.type === 'property' ? '  [d] diff' : '';
+    const help = [
+      `    ${choices}${views}`,
+      `    Uppercase (${keys.map(([k]) => k.toUpperCase()).join('/')}) = apply to all remaining ${conflict.type} conflicts. Enter = ${suggested}.`,
+    ];
+    help.forEach((line) => console.log(CYAN(line)));
+
+    while (true) {
+      process.stdout.write(CYAN('    > '));
+      const input = readLine();
+      if (input === undefined) {
+        console.log();
+        return suggested;
+      }
+      const key = input.trim();
+      if (key === '') return suggested;
+
+      const strategy = STRATEGY_KEYS[key.toLowerCase()];
+      if (strategy && strategies.includes(strategy)) {
+        if (key !== key.toLowerCase()) applyAll.set(conflict.type, strategy);
+        return strategy;
+      }
+
+      if (conflict.type !== 'tree' && key === 'd') {
+        const diff = svn.diff(conflict.path, workspace);
+        if (diff.trim()) printLimited(diff);
+        else console.log(YELLOW('  (no diff)'));
+      } else if (conflict.type === 'text' && key === 'b') {
+        viewFile('base', conflictFiles().base);
+      } else if (conflict.type === 'text' && key === 'y') {
+        viewFile('mine', conflictFiles().mine);
+      } else if (conflict.type === 'text' && key === 'r') {
+        viewFile('theirs', conflictFiles().theirs);
+      } else if (conflict.type === 'text' && key === 'e' && mergeTool) {
+        if (runMergeTool(mergeTool, conflictFiles(), conflict.path)) {
+          process.stdout.write(CYAN('    Use the merged file (resolve as working)? [y/N] '));
+          if ((readLine() ?? '').trim().toLowerCase() === 'y') {
+            return 'working';
+          }
+        }
+      } else {
+        help.forEach((line) => console.log(CYAN(line)));
+      }
+    }
+  };
+}
@@ -1,6 +1,10 @@
 import * as fs from 'fs';
 import * as path from 'path';
 
+import { LogEvent, LogLevel } from './types';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
 /** Strip ANSI escape codes for clean log file output */
 function stripAnsi(str: string): string {
   // eslint-disable-next-line no-control-regex
@@ -17,52 +21,95 @@ function timestamp(): string {
   );
 }
 
+export interface LoggerOptions {
+  /** Continue the existing log and event files of the same run instead of truncating them */
+  append?: boolean;
+  /** Lines and events below this level are dropped (default info) */
+  level?: LogLevel;
+}
+
+/**
+ * Writes the text log `svnmerge-<ts>.log` and, next to it, the event log
+ * `svnmerge-<ts>.events.jsonl` with one JSON object per line.
+ */
 export class Logger {
   private logPath: string;
+  private eventsPath: string;
   private fd: number;
+  private eventsFd: number;
+  private minLevel: number;
 
-  constructor(outputDir: string, startTs: string) {
+  constructor(outputDir: string, startTs: string, options: LoggerOptions = {}) {
     fs.mkdirSync(outputDir, { recursive: true });
     this.logPath = path.join(outputDir, `svnmerge-${startTs}.log`);
-    // Open (create or truncate) the log file immediately
-    this.fd = fs.openSync(this.logPath, 'w');
+    this.eventsPath = path.join(outputDir, `svnmerge-${startTs}.events.jsonl`);
+    this.minLevel = LOG_LEVELS.indexOf(options.level ?? 'info');
+    // Open (create or truncate) the log files immediately
+    const flags = options.append ? 'a' : 'w';
+    this.fd = fs.openSync(this.logPath, flags);
+    this.eventsFd = fs.openSync(this.eventsPath, flags);
   }
 
-  /** Append a line to the log file immediately (ANSI codes are stripped). */
-  log(message: string): void {
+  /** True when a line or event of this level is written. */
+  enabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= this.minLevel;
+  }
+
+  /**
+   * Append a line to the log file immediately (ANSI codes are stripped).
+   * Levels other than info are marked in the line, e.g. `[...] ERROR commit failed`.
+   */
+  log(message: string, level: LogLevel = 'info'): void {
+    if (!this.enabled(level)) return;
     const clean = stripAnsi(message);
     let line: string;
     if (clean.trim() === '' || clean.startsWith('\u2500') || clean.startsWith('\u2550')) {
       line = clean + '\n';
     } else {
-      line = `${timestamp()} ${clean}\n`;
-    }
-    try {
-      fs.writeSync(this.fd, line);
-    } catch {
-      // best-effort
+      const tag = level === 'info' ? '' : `${level.toUpperCase()} `;
+      line = `${timestamp()} ${tag}${clean}\n`;
     }
+    this.write(this.fd, line);
+  }
+
+  /** Append one event to the event log: `{"ts":"<ISO 8601>","level":"info","event":"...",...}` */
+  event(event: LogEvent, level: LogLevel = 'info'): void {
+    if (!this.enabled(level)) return;
+    this.write(this.eventsFd, JSON.stringify({ ts: new Date().toISOString(), level, ...event }) + '\n');
   }
 
   /** Append raw text to the log file as-is (no timestamp, no ANSI stripping). */
   appendRaw(text: string): void {
-    try {
-      fs.writeSync(this.fd, text);
-    } catch {
-      // best-effort
-    }
+    this.write(this.fd, text);
   }
 
-  /** Close the log file handle. Call once after all merges are done. */
+  /** Close the log file handles. Later writes are ignored. */
   close(): void {
-    try {
-      fs.closeSync(this.fd);
-    } catch {
-      // ignore
+    for (const fd of [this.fd, this.eventsFd]) {
+      try {
+        fs.closeSync(fd);
+      } catch {
+        // ignore
+      }
     }
+    this.fd = -1;
+    this.eventsFd = -1;
   }
 
   getLogPath(): string {
     return this.logPath;
   }
+
+  getEventsPath(): string {
+    return this.eventsPath;
+  }
+
+  private write(fd: number, text: string): void {
+    if (fd < 0) return;
+    try {
+      fs.writeSync(fd, text);
+    } catch {
+      // best-effort
+    }
+  }
 }
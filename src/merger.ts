@@ -1,9 +1,19 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { backupConflictFiles } from './backup';
+import { describeFilter } from './filter';
 import { Logger } from './logger';
-import { svnMerge, svnResolve, svnRevert, svnStatusAfterMerge } from './svn';
+import { buildMessage, MessageOptions } from './message';
+import { cliSvn, parseCommittedRevision, SvnBackend } from './svn';
 import {
-    ConflictInfo, MergeOptions, MergeSummary, RevertedInfo, RevisionMergeResult
+    ConflictInfo, MergeOptions, MergeSummary, ResolveRule, ResolveStrategy, RevertedInfo,
+    RevisionMergeResult
 } from './types';
-import { formatConflictLine, isIgnored, relPath } from './utils';
+import {
+    describeRule, findResolveRule, formatConflictLine, formatIgnored, formatResolution, matchIgnore,
+    relPath
+} from './utils';
 
 /** ANSI color helpers (console only) */
 const YELLOW = (s: string) => `\x1b[33m${s}\x1b[0m`;
@@ -11,9 +21,91 @@ const RED = (s: string) => `\x1b[31m${s}\x1b[0m`;
 const GREEN = (s: string) => `\x1b[32m${s}\x1b[0m`;
 const GRAY = (s: string) => `\x1b[90m${s}\x1b[0m`;
 
+/**
+ * Picks the resolution of a non-ignored conflict, e.g. by asking the user.
+ * The conflict carries the suggested resolution (from a resolve rule or the default).
+ */
+export type ConflictChooser = (conflict: ConflictInfo, revision: number) => ResolveStrategy;
+
+/**
+ * Apply ignore patterns and resolve rules to the conflicts svn reported.
+ * Ignored paths always resolve with 'working' (discard incoming changes);
+ * the others take the first matching rule, or keep the default resolution.
+ */
+function classifyConflicts(
+  rawConflicts: ConflictInfo[],
+  workspace: string,
+  ignorePaths: string[],
+  resolveRules: ResolveRule[],
+): ConflictInfo[] {
+  return rawConflicts.map((c) => {
+    const ignoredBy = matchIgnore(c.path, workspace, ignorePaths, c.isDirectory);
+    if (ignoredBy !== undefined) {
+      return { ...c, resolution: 'working', ignored: true, ignoredBy };
+    }
+    const rule = findResolveRule(c.path, workspace, c.type, resolveRules, c.treeConflict);
+    return rule
+      ? { ...c, resolution: rule.accept, rule: describeRule(rule), ignored: false }
+      : { ...c, ignored: false };
+  });
+}
+
+/**
+ * True when a later `!pattern` re-includes a path below the ignored directory
+ * `dir`: a change or conflict of the merge, or a file on disk, that is not ignored.
+ * Reverting `dir` recursively would discard that path too.
+ */
+function hasReincludedPaths(
+  dir: string,
+  workspace: string,
+  ignorePaths: string[],
+  changed: { path: string; isDirectory: boolean }[],
+): boolean {
+  if (!ignorePaths.some((p) => p.trim().startsWith('!'))) return false;
+  const below = (p: string) => p.startsWith(dir + path.sep);
+  if (changed.some((c) => below(c.path) && matchIgnore(c.path, workspace, ignorePaths, c.isDirectory) === undefined)) {
+    return true;
+  }
+  const walk = (current: string): boolean => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(current, { withFileTypes: true });
+    } catch {
+      return false;
+    }
+    return entries.some((entry) => {
+      if (entry.name === '.svn') return false;
+      const child = path.join(current, entry.name);
+      if (matchIgnore(child, workspace, ignorePaths, entry.isDirectory()) === undefined) return true;
+      return entry.isDirectory() && walk(child);
+    });
+  };
+  return walk(dir);
+}
+
+/**
+ * Rules with `incoming`/`local` that may decide a tree conflict whose details
+ * are unknown: those matching its path, up to the first rule that applies
+ * regardless of the details.
+ */
+function undeterminedRules(conflict: ConflictInfo, workspace: string, resolveRules: ResolveRule[]): ResolveRule[] {
+  const rules: ResolveRule[] = [];
+  for (const rule of resolveRules) {
+    const withoutDetails = { ...rule, incoming: undefined, local: undefined };
+    if (!findResolveRule(conflict.path, workspace, conflict.type, [withoutDetails])) continue;
+    if (!rule.incoming && !rule.local) break;
+    rules.push(rule);
+  }
+  return rules;
+}
+
 /**
  * Merge a single revision and auto-resolve conflicts.
- * All detail goes to logger; console only receives the progress line.
+ * All detail goes to logger; console only receives the progress line
+ * (and the chooser's prompts, if one is given).
+ * Paths in `unresolved` were left conflicted by earlier revisions; svn skips
+ * them, so they are not reported again.
+ * With `reverse`, the revision is undone (`-c -N`) through the same pipeline.
  */
 function mergeRevision(
   revision: number,
@@ -21,11 +113,20 @@ function mergeRevision(
   workspace: string,
   logger: Logger,
   ignorePaths: string[],
+  resolveRules: ResolveRule[],
+  svn: SvnBackend,
+  unresolved: Set<string>,
+  reverse: boolean,
+  choose?: ConflictChooser,
+  backupDir?: string,
 ): RevisionMergeResult {
   logger.log(`\n${'─'.repeat(60)}`);
-  logger.log(`[r${revision}] Merging -c ${revision} from ${fromUrl}`);
+  logger.log(reverse
+    ? `[r${revision}] Reverse-merging -c -${revision} from ${fromUrl}`
+    : `[r${revision}] Merging -c ${revision} from ${fromUrl}`);
+  logger.event({ event: 'revision-start', revision });
 
-  const { stdout, stderr, exitCode } = svnMerge(revision, fromUrl, workspace);
+  const { stdout, stderr, exitCode } = svn.merge(revision, fromUrl, workspace, reverse);
 
   if (stdout.trim()) {
     logger.log(stdout.trim());
@@ -34,36 +135,83 @@ function mergeRevision(
   const isFatalError = exitCode !== 0 && !stdout.trim() && stderr.trim();
 
   if (isFatalError) {
-    logger.log(`[r${revision}] FAILED: ${stderr.trim()}`);
+    logger.log(`[r${revision}] FAILED: ${stderr.trim()}`, 'error');
     return { revision, success: false, conflicts: [], reverted: [], modified: [], errorMessage: stderr.trim() };
   }
 
   if (stderr.trim()) {
-    logger.log(`[r${revision}] Warning: ${stderr.trim()}`);
+    logger.log(`[r${revision}] Warning: ${stderr.trim()}`, 'warn');
   }
 
-  const { conflicts: rawConflicts, modifications } = svnStatusAfterMerge(workspace);
+  let status: ReturnType<SvnBackend['statusAfterMerge']>;
+  try {
+    status = svn.statusAfterMerge(workspace);
+  } catch (e: unknown) {
+    // Without the status the merged changes are unknown: never report them as clean
+    const msg = e instanceof Error ? e.message : String(e);
+    logger.log(`[r${revision}] FAILED: ${msg}`, 'error');
+    return { revision, success: false, conflicts: [], reverted: [], modified: [], errorMessage: msg };
+  }
+  const { conflicts: rawConflicts, modifications } = status;
+
+  const conflicts = classifyConflicts(
+    rawConflicts.filter((c) => !unresolved.has(c.path)), workspace, ignorePaths, resolveRules,
+  );
 
-  const conflicts: ConflictInfo[] = rawConflicts.map((c) => ({
-    ...c,
-    // Ignored paths always resolve with 'working' (discard incoming changes)
-    resolution: isIgnored(c.path, workspace, ignorePaths)
-      ? 'working'
-      : c.resolution,
-    ignored: isIgnored(c.path, workspace, ignorePaths),
-  }));
+  if (choose) {
+    for (const conflict of conflicts) {
+      if (conflict.ignored) continue;
+      conflict.resolution = choose(conflict, revision);
+      conflict.interactive = true;
+    }
+  }
 
+  const failedBy: string[] = [];
   if (conflicts.length > 0) {
     logger.log(`[r${revision}] ${conflicts.length} conflict(s) detected, auto-resolving:`);
     for (const conflict of conflicts) {
-      const { success, message } = svnResolve(conflict.path, conflict.resolution, workspace);
       const rel = relPath(conflict.path, workspace);
+      const resolutionLabel = formatResolution(conflict.resolution, conflict.rule, conflict.interactive);
+      const logLine = formatConflictLine(
+        conflict.type, conflict.isDirectory, rel,
+        conflict.ignored ? formatIgnored(conflict.ignoredBy) : resolutionLabel, conflict.treeConflict,
+      );
+      logger.event({
+        event: 'conflict', revision, path: rel, type: conflict.type, isDirectory: conflict.isDirectory,
+        resolution: conflict.resolution, ignored: conflict.ignored,
+      });
+      if (conflict.resolution === 'postpone') {
+        logger.log(`  ${logLine} → postponed (left unresolved)`);
+        continue;
+      }
+      if (conflict.resolution === 'fail') {
+        logger.log(`  ${logLine} → left unresolved, revision FAILED`, 'error');
+        failedBy.push(rel);
+        continue;
+      }
+      if (backupDir && !conflict.isDirectory) {
+        try {
+          const files = backupConflictFiles(conflict.path, workspace, revision, backupDir);
+          if (files.length > 0) {
+            conflict.backup = files;
+            logger.log(`  ${rel}: ${files.length} conflict file(s) backed up to ${backupDir}`);
+            logger.event({ event: 'backup', revision, path: rel, files });
+          }
+        } catch (e: unknown) {
+          // Without a backup the local version would be lost; leave the conflict for the user
+          const msg = e instanceof Error ? e.message : String(e);
+          conflict.resolution = 'postpone';
+          logger.log(`  ${logLine} → backup FAILED, left unresolved: ${msg}`, 'error');
+          continue;
+        }
+      }
+      const { success, message } = svn.resolve(conflict.path, conflict.resolution, workspace);
       if (success) {
-        const logLine = formatConflictLine(conflict.type, conflict.isDirectory, rel, conflict.ignored ? 'ignored' : conflict.resolution);
         logger.log(`  ${logLine} → resolved`);
+        logger.event({ event: 'resolve', revision, path: rel, accept: conflict.resolution, success });
       } else {
-        const logLine = formatConflictLine(conflict.type, conflict.isDirectory, rel, conflict.resolution);
-        logger.log(`  ${logLine} → resolve FAILED: ${message}`);
+        logger.log(`  ${logLine} → resolve FAILED: ${message}`, 'error');
+        logger.event({ event: 'resolve', revision, path: rel, accept: conflict.resolution, success, error: message }, 'error');
       }
     }
   } else {
@@ -71,18 +219,30 @@ function mergeRevision(
   }
 
   // ── Revert ignored paths that were modified without a conflict ──────────────
+  // A directory with re-included paths below it is kept; its ignored children
+  // are reverted one by one, as they are modifications of their own.
   const conflictPaths = new Set(conflicts.map((c) => c.path));
+  const changed = [...modifications, ...conflicts.filter((c) => !c.ignored)];
   const reverted: RevertedInfo[] = [];
   for (const mod of modifications) {
-    if (!conflictPaths.has(mod.path) && isIgnored(mod.path, workspace, ignorePaths)) {
-      const { success, message } = svnRevert(mod.path, workspace);
+    const ignoredBy = conflictPaths.has(mod.path)
+      ? undefined
+      : matchIgnore(mod.path, workspace, ignorePaths, mod.isDirectory);
+    if (ignoredBy !== undefined) {
       const rel = relPath(mod.path, workspace);
       const kindTag = mod.isDirectory ? '[D]' : '[F]';
+      if (mod.isDirectory && hasReincludedPaths(mod.path, workspace, ignorePaths, changed)) {
+        logger.log(`  [NONE    ]${kindTag}  ${rel}  → kept, paths below it are re-included (${formatIgnored(ignoredBy)})`);
+        continue;
+      }
+      const { success, message } = svn.revert(mod.path, workspace);
       if (success) {
-        reverted.push(mod);
-        logger.log(`  [NONE    ]${kindTag}  ${rel}  → reverted (ignored)`);
+        reverted.push({ ...mod, ignoredBy });
+        logger.log(`  [NONE    ]${kindTag}  ${rel}  → reverted (${formatIgnored(ignoredBy)})`);
+        logger.event({ event: 'revert', revision, path: rel, ignoredBy, success });
       } else {
-        logger.log(`  ${kindTag}  ${rel}  → revert FAILED: ${message}`);
+        logger.log(`  ${kindTag}  ${rel}  → revert FAILED: ${message}`, 'error');
+        logger.event({ event: 'revert', revision, path: rel, ignoredBy, success, error: message }, 'error');
       }
     }
   }
@@ -93,37 +253,286 @@ function mergeRevision(
     ...modifications.filter((m) => !revertedPaths.has(m.path)),
   ];
 
+  if (failedBy.length > 0) {
+    const errorMessage = `conflict policy "fail" matched: ${failedBy.join(', ')}`;
+    logger.log(`[r${revision}] FAILED: ${errorMessage}`, 'error');
+    return { revision, success: false, conflicts, reverted, modified, errorMessage };
+  }
   return { revision, success: true, conflicts, reverted, modified };
 }
 
+/**
+ * Predict the conflicts of each revision without changing the working copy
+ * (`svn merge --dry-run`, --predict). Conflicts are classified like a real
+ * merge: ignore patterns first, then resolve rules. Each revision is checked
+ * against the current working copy on its own, so conflicts that depend on an
+ * earlier revision of the list are not predicted.
+ * `modified` holds the paths the merge would change cleanly and `reverted` the
+ * ignored ones; `success` is false when svn fails or a conflict would hit a `fail` rule.
+ * A dry run does not describe tree conflicts, so `incoming`/`local` rules that
+ * may apply are listed in `unknownRules` instead of being matched.
+ */
+export function predictRevisions(options: MergeOptions, svn: SvnBackend = cliSvn): RevisionMergeResult[] {
+  const { workspace, fromUrl, revisions, ignorePaths = [], resolveRules = [], reverse = false } = options;
+  return revisions.map((revision) => {
+    const { conflicts: rawConflicts, modifications, error } = svn.mergeDryRun(revision, fromUrl, workspace, reverse);
+    if (error !== undefined) {
+      return { revision, success: false, conflicts: [], reverted: [], modified: [], errorMessage: error };
+    }
+    const conflicts = classifyConflicts(rawConflicts, workspace, ignorePaths, resolveRules);
+    for (const conflict of conflicts) {
+      if (conflict.ignored || conflict.type !== 'tree' || conflict.treeConflict) continue;
+      const unknown = undeterminedRules(conflict, workspace, resolveRules);
+      if (unknown.length > 0) {
+        conflict.unknownRules = unknown.map((rule) => `${describeRule(rule)} → ${rule.accept}`);
+      }
+    }
+    const failedBy = conflicts.filter((c) => !c.ignored && c.resolution === 'fail').map((c) => relPath(c.path, workspace));
+    const reverted: RevertedInfo[] = [];
+    const modified: { path: string; isDirectory: boolean }[] = [];
+    for (const mod of modifications) {
+      const ignoredBy = matchIgnore(mod.path, workspace, ignorePaths, mod.isDirectory);
+      if (ignoredBy !== undefined) reverted.push({ ...mod, ignoredBy });
+      else modified.push(mod);
+    }
+    const result: RevisionMergeResult = { revision, success: failedBy.length === 0, conflicts, reverted, modified };
+    if (failedBy.length > 0) {
+      result.errorMessage = `conflict policy "fail" matched: ${failedBy.join(', ')}`;
+    }
+    return result;
+  });
+}
+
+/**
+ * The `svn status` lines of the local changes in the working copy, checked
+ * before a merge. Throws when the status cannot be read, so that a failed
+ * check never passes for a clean working copy.
+ */
+export function localChanges(workspace: string, svn: SvnBackend = cliSvn): string[] {
+  try {
+    return svn.statusDirty(workspace);
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    throw new Error(`checking the working copy for local changes failed: ${msg}`);
+  }
+}
+
+/**
+ * Save the local modifications of the working copy to `patchFile` and revert
+ * them (on-dirty: stash). `svn patch <patchFile>` brings them back.
+ * Unversioned files stay where they are. Returns false when there was no
+ * versioned change to save. Throws, without reverting anything, when the diff
+ * contains binary changes that a patch cannot restore, when files are added
+ * (the revert leaves them on disk, where they block `svn patch`) or the revert fails.
+ */
+export function stashChanges(workspace: string, patchFile: string, svn: SvnBackend = cliSvn): boolean {
+  const patch = svn.diff(workspace, workspace);
+  if (!patch.trim()) return false;
+  if (/^Cannot display: file marked as a binary type\./m.test(patch)) {
+    throw new Error('the working copy has binary changes that cannot be stashed; commit or revert them first.');
+  }
+  const added = svn.statusDirty(workspace).filter((line) => line[0] === 'A').map((line) => relPath(line.slice(8).trim(), workspace));
+  if (added.length > 0) {
+    throw new Error(`the working copy has added files that cannot be stashed (${added.join(', ')}); commit or revert them first.`);
+  }
+  fs.mkdirSync(path.dirname(patchFile), { recursive: true });
+  fs.writeFileSync(patchFile, patch, 'utf8');
+  const { success, message } = svn.revert(workspace, workspace);
+  if (!success) {
+    throw new Error(`svn revert failed after saving ${patchFile}: ${message}`);
+  }
+  return true;
+}
+
+/**
+ * Block (or unblock) revisions with a record-only merge: svn:mergeinfo is
+ * updated so the revisions leave (or re-enter) the eligible list, no file changes.
+ * Returns the paths whose mergeinfo changed, for the commit.
+ */
+export function recordRevisions(
+  revisions: number[],
+  fromUrl: string,
+  workspace: string,
+  logger: Logger,
+  unblock: boolean,
+  svn: SvnBackend = cliSvn,
+): { success: boolean; errorMessage?: string; modified: { path: string; isDirectory: boolean }[] } {
+  const verb = unblock ? 'Unblocking' : 'Blocking';
+  logger.log(`${verb} r${revisions.join(', r')} from ${fromUrl} (record-only ${unblock ? 'reverse ' : ''}merge)`);
+
+  const { stdout, stderr, exitCode } = svn.recordOnly(revisions, fromUrl, workspace, unblock);
+  if (stdout.trim()) {
+    logger.log(stdout.trim());
+  }
+  if (exitCode !== 0) {
+    logger.log(`${verb} FAILED: ${stderr.trim()}`, 'error');
+    return { success: false, errorMessage: stderr.trim() || `svn exited with ${exitCode}`, modified: [] };
+  }
+  if (stderr.trim()) {
+    logger.log(`Warning: ${stderr.trim()}`, 'warn');
+  }
+  try {
+    return { success: true, modified: svn.statusAfterMerge(workspace).modifications };
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    logger.log(`${verb} FAILED: ${msg}`, 'error');
+    return { success: false, errorMessage: msg, modified: [] };
+  }
+}
+
+/**
+ * Commit the changes of one merged revision with that revision's log message
+ * (--commit-each). Only the revision's modified paths are committed.
+ * A failed commit marks the revision as failed; its changes stay in the working copy.
+ */
+function commitRevision(
+  result: RevisionMergeResult,
+  fromUrl: string,
+  workspace: string,
+  logger: Logger,
+  svn: SvnBackend,
+  messageOptions: MessageOptions,
+  context: RunContext,
+): void {
+  const single: MergeSummary = { total: 1, succeeded: 1, withConflicts: 0, failed: 0, results: [result] };
+  let message = buildMessage(single, fromUrl, svn, messageOptions);
+  if (context.beforeCommit) {
+    const approved = context.beforeCommit(result, message);
+    if (approved === undefined) {
+      logger.log(`[r${result.revision}] Commit skipped: pre-commit hook failed`, 'error');
+      logger.event({ event: 'commit', revision: result.revision, success: false, error: 'pre-commit hook failed' }, 'error');
+      result.success = false;
+      result.errorMessage = 'pre-commit hook failed';
+      return;
+    }
+    message = approved;
+  }
+  const paths = result.modified.map((m) => m.path);
+  logger.log(`[r${result.revision}] Committing ${paths.length} path(s)`);
+  try {
+    const out = svn.commit(workspace, message, paths.length > 0 ? paths : undefined);
+    if (out) logger.log(out);
+    result.committedRevision = parseCommittedRevision(out);
+    logger.log(result.committedRevision
+      ? `[r${result.revision}] Committed as r${result.committedRevision}`
+      : `[r${result.revision}] Nothing to commit`);
+    logger.event({ event: 'commit', revision: result.revision, committedRevision: result.committedRevision, success: true });
+    if (result.committedRevision) context.afterCommit?.(result);
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    logger.log(`[r${result.revision}] Commit FAILED: ${msg}`, 'error');
+    logger.event({ event: 'commit', revision: result.revision, success: false, error: msg }, 'error');
+    result.success = false;
+    result.errorMessage = `commit failed: ${msg}`;
+  }
+}
+
+/**
+ * Optional collaborators of the merge loop.
+ */
+export interface RunContext {
+  /** SVN backend; defaults to the svn command line */
+  svn?: SvnBackend;
+  /** Called after each revision with its result and all results so far (including earlier sessions). */
+  onRevision?: (result: RevisionMergeResult, results: RevisionMergeResult[]) => void;
+  /** Interactive resolution of non-ignored conflicts (--interactive) */
+  chooseResolution?: ConflictChooser;
+  /**
+   * Called before each --commit-each commit with its message. Returns the
+   * message to commit, or undefined to skip the commit, which fails the revision.
+   */
+  beforeCommit?: (result: RevisionMergeResult, message: string) => string | undefined;
+  /** Called after each --commit-each commit that created a revision */
+  afterCommit?: (result: RevisionMergeResult) => void;
+  /** Folder the conflict files are copied to before a conflict is resolved (none: no backup) */
+  backupDir?: string;
+}
+
 /**
  * Run the full merge for all revisions specified in options.
- * Returns a MergeSummary.
+ * Revisions that already have a result in `previous` (from a resumed session)
+ * are skipped; the returned MergeSummary covers both old and new results.
+ * With `commitEach`, each revision is committed after it is merged and the
+ * loop stops at the first revision that fails or leaves conflicts unresolved.
  */
-export function run(options: MergeOptions, logger: Logger): MergeSummary {
-  const { workspace, fromUrl, revisions, ignorePaths = [], verbose = false } = options;
-  const results: RevisionMergeResult[] = [];
+export function run(
+  options: MergeOptions,
+  logger: Logger,
+  previous: RevisionMergeResult[] = [],
+  context: RunContext = {},
+): MergeSummary {
+  const {
+    workspace, fromUrl, revisions, ignorePaths = [], resolveRules = [], verbose = false, reverse = false, commitEach = false,
+  } = options;
+  const results: RevisionMergeResult[] = [...previous];
+  const done = new Set(previous.map((r) => r.revision));
+  const unresolved = new Set<string>();
+  const trackUnresolved = (result: RevisionMergeResult) => {
+    for (const c of result.conflicts) {
+      if (c.resolution === 'postpone' || c.resolution === 'fail') unresolved.add(c.path);
+    }
+  };
+  previous.forEach(trackUnresolved);
   const total = revisions.length;
+  const svn = context.svn ?? cliSvn;
 
   logger.log('SVN Merge Tool');
   logger.log(`Workspace : ${workspace}`);
   logger.log(`Source URL: ${fromUrl}`);
   logger.log(`Revisions : ${revisions.join(', ')}`);
+  if (reverse) {
+    logger.log('Mode      : reverse merge (undo revisions)');
+  }
+  if (options.filter) {
+    logger.log(`Filter    : ${describeFilter(options.filter)}`);
+  }
+  if (commitEach) {
+    logger.log('Commit    : each revision separately');
+  }
+  if (done.size > 0) {
+    logger.log(`Resuming  : ${done.size} revision(s) already processed`);
+  }
+  logger.event({ event: 'run-start', workspace, fromUrl, revisions, reverse });
 
+  let stoppedAt: number | undefined;
   for (let i = 0; i < total; i++) {
     const rev = revisions[i];
+    if (done.has(rev)) continue;
     const pct = Math.round(((i + 1) / total) * 100);
     const label = `[${i + 1}/${total}] r${rev}  ${pct}%`;
 
     // Minimal console progress
     process.stdout.write(label + '\n');
 
-    const result = mergeRevision(rev, fromUrl, workspace, logger, ignorePaths);
+    // Prompts move the cursor, so the progress line can only be overwritten without them
+    let prompted = false;
+    const choose: ConflictChooser | undefined = context.chooseResolution
+      ? (conflict, revision) => {
+          prompted = true;
+          return context.chooseResolution!(conflict, revision);
+        }
+      : undefined;
+    const result = mergeRevision(
+      rev, fromUrl, workspace, logger, ignorePaths, resolveRules, svn, unresolved, reverse, choose, context.backupDir,
+    );
+    trackUnresolved(result);
     results.push(result);
+    logger.event({
+      event: 'revision-end',
+      revision: rev,
+      success: result.success,
+      conflicts: result.conflicts.filter((c) => !c.ignored).length,
+      ...(result.errorMessage ? { error: result.errorMessage } : {}),
+    }, result.success ? 'info' : 'error');
 
     // Overwrite progress line with colored result; then print conflicts below
+    const overwrite = prompted ? '' : '\x1b[1A\x1b[2K';
     if (!result.success) {
-      process.stdout.write(`\x1b[1A\x1b[2K${RED(label + '  FAILED')}\n`);
+      process.stdout.write(`${overwrite}${RED(label + '  FAILED')}\n`);
+      for (const c of result.conflicts.filter((c) => !c.ignored)) {
+        const line = formatConflictLine(c.type, c.isDirectory, relPath(c.path, workspace), formatResolution(c.resolution, c.rule, c.interactive), c.treeConflict);
+        process.stdout.write(RED(`  ${line}\n`));
+      }
     } else if (result.conflicts.length > 0 || result.reverted.length > 0) {
       const activeConflicts = result.conflicts.filter((c) => !c.ignored);
       const ignoredConflicts = result.conflicts.filter((c) => c.ignored);
@@ -133,24 +542,45 @@ export function run(options: MergeOptions, logger: Logger): MergeSummary {
       if (ignoredCount > 0) parts.push(`${ignoredCount} ignored`);
       const hasTreeConflict = activeConflicts.some((c) => c.type === 'tree');
       const labelColor = hasTreeConflict ? RED : YELLOW;
-      process.stdout.write(`\x1b[1A\x1b[2K${labelColor(label + `  (${parts.join(', ')})`)}\n`);
+      process.stdout.write(`${overwrite}${labelColor(label + `  (${parts.join(', ')})`)}\n`);
       for (const c of activeConflicts) {
         const rel = relPath(c.path, workspace);
-        const line = formatConflictLine(c.type, c.isDirectory, rel, c.resolution);
+        const line = formatConflictLine(c.type, c.isDirectory, rel, formatResolution(c.resolution, c.rule, c.interactive), c.treeConflict);
         process.stdout.write((c.type === 'tree' ? RED : YELLOW)(`  ${line}\n`));
       }
       for (const c of ignoredConflicts) {
         const rel = relPath(c.path, workspace);
-        const line = formatConflictLine(c.type, c.isDirectory, rel, 'ignored');
+        const line = formatConflictLine(c.type, c.isDirectory, rel, formatIgnored(c.ignoredBy), c.treeConflict);
         if (verbose) process.stdout.write(GRAY(`  ${line}\n`));
       }
       for (const r of result.reverted) {
         const rel = relPath(r.path, workspace);
         const kindTag = r.isDirectory ? '[D]' : '[F]';
-        if (verbose) process.stdout.write(GRAY(`  [NONE    ]${kindTag}  ${rel}  (ignored)\n`));
+        if (verbose) process.stdout.write(GRAY(`  [NONE    ]${kindTag}  ${rel}  (${formatIgnored(r.ignoredBy)})\n`));
       }
     } else {
-      process.stdout.write(`\x1b[1A\x1b[2K${GREEN(label + '  ✓')}\n`);
+      process.stdout.write(`${overwrite}${GREEN(label + '  ✓')}\n`);
+    }
+
+    const leftUnresolved = result.conflicts.some((c) => !c.ignored && (c.resolution === 'postpone' || c.resolution === 'fail'));
+    if (commitEach && result.success && !leftUnresolved) {
+      commitRevision(result, fromUrl, workspace, logger, svn,
+        { reverse, workspace, template: options.message, tickets: options.tickets }, context);
+      if (result.committedRevision) {
+        process.stdout.write(GREEN(`  committed as r${result.committedRevision}\n`));
+      } else if (!result.success) {
+        process.stdout.write(RED(`  ${result.errorMessage}\n`));
+      }
+    }
+    context.onRevision?.(result, results);
+
+    if (commitEach && (!result.success || leftUnresolved)) {
+      stoppedAt = rev;
+      const remaining = revisions.slice(i + 1).filter((r) => !done.has(r)).length;
+      const reason = result.success ? 'has unresolved conflicts' : 'failed';
+      logger.log(`Stopped: r${rev} ${reason}; ${remaining} revision(s) not merged.`, 'warn');
+      process.stdout.write(YELLOW(`Stopped: r${rev} ${reason}; ${remaining} revision(s) not merged.\n`));
+      break;
     }
   }
 
@@ -165,6 +595,7 @@ export function run(options: MergeOptions, logger: Logger): MergeSummary {
     else if (r.conflicts.some((c) => !c.ignored)) withConflicts++;
     else succeeded++;
   }
+  logger.event({ event: 'run-end', succeeded, withConflicts, failed });
 
-  return { total, succeeded, withConflicts, failed, results };
+  return { total, succeeded, withConflicts, failed, results, ...(stoppedAt !== undefined ? { stoppedAt } : {}) };
 }
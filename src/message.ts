@@ -1,47 +1,186 @@
-import { svnLogBatch } from './svn';
-import { MergeSummary } from './types';
-import { branchName, compressRevisions } from './utils';
+import { cliSvn, SvnBackend } from './svn';
+import { collectTickets, formatTicketSection } from './tickets';
+import { MergeSummary, MessageTemplate, RevisionMergeResult, TicketConfig } from './types';
+import { branchName, compressRevisions, formatConflictLine, formatResolution, groupSummaryByType } from './utils';
 
 const ENTRY_SEP = '........';
 
+/**
+ * Build the commit message of a --block / --unblock run:
+ *   Blocked revision(s) 1001, 1005-1007 from trunk (record-only merge):
+ *   <log message>
+ *   ........
+ */
+export function buildBlockMessage(
+  revisions: number[],
+  fromUrl: string,
+  unblock: boolean,
+  svn: SvnBackend = cliSvn,
+): string {
+  const sorted = [...revisions].sort((a, b) => a - b);
+  const header = unblock
+    ? `Unblocked revision(s) ${compressRevisions(sorted)} from ${branchName(fromUrl)} (record-only reverse merge):`
+    : `Blocked revision(s) ${compressRevisions(sorted)} from ${branchName(fromUrl)} (record-only merge):`;
+  const lines: string[] = [header];
+  const logMap = svn.logBatch(sorted, fromUrl);
+  for (const rev of sorted) {
+    lines.push(logMap.get(rev) || `(no log message for r${rev})`);
+    lines.push(ENTRY_SEP);
+  }
+  return lines.join('\n') + '\n';
+}
+
+const DEFAULT_TEMPLATE = '{verb} revision(s) {revisions} from {branch}:\n{entries}\n{tickets}';
+const DEFAULT_ENTRY = `{body}\n${ENTRY_SEP}`;
+const MESSAGE_FIELDS = ['verb', 'branch', 'revisions', 'count', 'authors', 'entries', 'conflicts', 'ignored', 'tickets'];
+const ENTRY_FIELDS = ['rev', 'author', 'date', 'body'];
+
+/** Options of buildMessage. */
+export interface MessageOptions {
+  /** The run undid the revisions (--reverse): "Reverse-merged revision(s)" */
+  reverse?: boolean;
+  /** Working copy root, for the relative paths in {conflicts} */
+  workspace?: string;
+  template?: MessageTemplate;
+  /** Ticket extraction for {tickets}; without it the section is empty */
+  tickets?: TicketConfig;
+}
+
+/**
+ * Validate a `message:` config section. `where` names the file for errors.
+ * Throws on unknown keys, non-string templates or unknown placeholders.
+ */
+export function parseMessageTemplate(value: unknown, where: string): MessageTemplate {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`"message" in ${where} must be a mapping with "template", "entry" or "first-line".`);
+  }
+  const result: MessageTemplate = {};
+  for (const [key, raw] of Object.entries(value)) {
+    if (key === 'first-line') {
+      if (typeof raw !== 'boolean') throw new Error(`"message.first-line" in ${where} must be true or false.`);
+      result.firstLine = raw;
+      continue;
+    }
+    if (key !== 'template' && key !== 'entry') {
+      throw new Error(`Unknown key "message.${key}" in ${where}. Use template, entry or first-line.`);
+    }
+    if (typeof raw !== 'string' || !raw.trim()) {
+      throw new Error(`"message.${key}" in ${where} must be a non-empty string.`);
+    }
+    const fields = key === 'template' ? MESSAGE_FIELDS : ENTRY_FIELDS;
+    for (const match of raw.matchAll(/\{(\w+)\}/g)) {
+      if (!fields.includes(match[1])) {
+        throw new Error(`Unknown placeholder {${match[1]}} in "message.${key}" in ${where}. Available: {${fields.join('} {')}}.`);
+      }
+    }
+    result[key] = raw.replace(/\s+$/, '');
+  }
+  return result;
+}
+
+/**
+ * Replace the {name} fields of a template. A line holding nothing but one
+ * field whose value is empty is dropped, so optional sections leave no gap.
+ */
+function fillTemplate(template: string, values: Record<string, string>): string {
+  return template
+    .split('\n')
+    .flatMap((line) => {
+      const only = line.trim().match(/^\{(\w+)\}$/);
+      if (only && values[only[1]] === '') return [];
+      return [line.replace(/\{(\w+)\}/g, (field, name: string) =>
+        Object.prototype.hasOwnProperty.call(values, name) ? values[name] : field)];
+    })
+    .join('\n');
+}
+
+/** Local YYYY-MM-DD of an svn log timestamp. */
+function formatLogDate(iso: string): string {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return iso;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** {conflicts}: the conflicts that were not ignored, one line each, under a title. Empty when there are none. */
+function conflictBlock(results: RevisionMergeResult[], workspace: string): string {
+  const lines: string[] = [];
+  for (const [, entries] of groupSummaryByType(results, workspace)) {
+    for (const e of entries.filter((entry) => !entry.ignored)) {
+      const resolution = formatResolution(e.resolution, e.rule, e.interactive);
+      lines.push(`  ${formatConflictLine(e.type, e.isDirectory, e.relPath, resolution, e.treeConflict)}`);
+    }
+  }
+  return lines.length > 0 ? [`Conflicts (${lines.length}):`, ...lines].join('\n') : '';
+}
+
 /**
  * Build the merge message string (to be appended to the log file).
  *
- * Format:
+ * Format (a reverse merge starts with "Reverse-merged revision(s)" instead):
  *   Merged revision(s) 83247, 84556, 84587-84588 from trunk:
  *   #88279 Ticket title
  *   https://ones.example.com/...
  *   ........
  *   ...
+ *   Tickets (1):
+ *     #88279  https://ones.example.com/...
+ * The Tickets section only appears when ticket extraction is configured.
+ * A `message:` template from the config replaces this layout; see MessageTemplate.
  */
 export function buildMessage(
   summary: MergeSummary,
   fromUrl: string,
+  svn: SvnBackend = cliSvn,
+  options: MessageOptions = {},
 ): string {
   const branch = branchName(fromUrl);
+  const format = options.template ?? {};
 
   // Only include successfully merged revisions
-  const mergedRevisions = summary.results
-    .filter((r) => r.success)
-    .map((r) => r.revision)
-    .sort((a, b) => a - b);
-
-  const header = `Merged revision(s) ${compressRevisions(mergedRevisions)} from ${branch}:`;
-  const lines: string[] = [header];
+  const merged = summary.results.filter((r) => r.success);
+  const mergedRevisions = merged.map((r) => r.revision).sort((a, b) => a - b);
 
+  // Author and date are only in the XML log, which custom templates need
   process.stdout.write('  Fetching revision logs...\r');
-  const logMap = svnLogBatch(mergedRevisions, fromUrl);
+  const entries = format.template || format.entry
+    ? svn.logEntries(mergedRevisions, fromUrl)
+    : new Map([...svn.logBatch(mergedRevisions, fromUrl)].map(([rev, message]) => [rev, { revision: rev, author: '', date: '', message }]));
   process.stdout.write(' '.repeat(40) + '\r');
 
-  for (const rev of mergedRevisions) {
-    const body = logMap.get(rev) ?? '';
-    if (body) {
-      lines.push(body);
-    } else {
-      lines.push(`(no log message for r${rev})`);
+  const authors: string[] = [];
+  const entryLines = mergedRevisions.map((rev) => {
+    const entry = entries.get(rev);
+    let body = entry?.message ?? '';
+    if (format.firstLine) {
+      body = body.split('\n').map((line) => line.trim()).find(Boolean) ?? '';
     }
-    lines.push(ENTRY_SEP);
-  }
+    if (entry?.author && !authors.includes(entry.author)) authors.push(entry.author);
+    return fillTemplate(format.entry ?? DEFAULT_ENTRY, {
+      rev: String(rev),
+      author: entry?.author ?? '',
+      date: entry?.date ? formatLogDate(entry.date) : '',
+      body: body || `(no log message for r${rev})`,
+    });
+  });
 
-  return lines.join('\n') + '\n';
+  const ignoredPaths = new Set(merged.flatMap((r) => [
+    ...r.conflicts.filter((c) => c.ignored).map((c) => c.path),
+    ...r.reverted.map((rv) => rv.path),
+  ]));
+  const message = fillTemplate(format.template ?? DEFAULT_TEMPLATE, {
+    verb: options.reverse ? 'Reverse-merged' : 'Merged',
+    branch,
+    revisions: compressRevisions(mergedRevisions),
+    count: String(mergedRevisions.length),
+    authors: authors.join(', '),
+    entries: entryLines.join('\n'),
+    conflicts: conflictBlock(merged, options.workspace ?? ''),
+    ignored: String(ignoredPaths.size),
+    tickets: options.tickets
+      ? formatTicketSection(collectTickets(
+        mergedRevisions, new Map([...entries].map(([rev, e]) => [rev, e.message])), options.tickets))
+      : '',
+  });
+  return message.replace(/\s+$/, '') + '\n';
 }
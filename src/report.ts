@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { CommitOutcome, HookRun, MergeSummary, RevisionMergeResult, Ticket } from './types';
+import { branchName, formatConflictLine, formatIgnored, formatResolution, relPath } from './utils';
+
+/**
+ * Version of the JSON report layout. Bump when a field is removed or changes meaning;
+ * adding fields does not change the version.
+ */
+export const REPORT_SCHEMA_VERSION = 1;
+
+export type ReportFormat = 'json' | 'junit';
+export const REPORT_FORMATS: ReportFormat[] = ['json', 'junit'];
+
+/**
+ * Machine-readable description of a merge run (the JSON report).
+ */
+export interface MergeReport {
+  schemaVersion: number;
+  tool: { name: string; version: string };
+  /** Start timestamp (yyyymmddhhmmss) of the run */
+  startTs: string;
+  workspace: string;
+  fromUrl: string;
+  revisions: number[];
+  /** True when the revisions were undone (--reverse) */
+  reverse: boolean;
+  summary: MergeSummary;
+  /** Generated merge message */
+  message: string;
+  commit: CommitOutcome;
+  logFile: string;
+  /** Tickets referenced by the merged revisions (only with ticket extraction configured) */
+  tickets?: Ticket[];
+  /** Hook commands that ran, in order (only with `hooks:` configured) */
+  hooks?: HookRun[];
+  /** Folder with the conflict files backed up before resolving (only when any were) */
+  backupDir?: string;
+}
+
+/**
+ * Parse a comma-separated --report value (e.g. "json,junit").
+ * Throws on unknown formats.
+ */
+export function parseReportFormats(value: string): ReportFormat[] {
+  const formats = value.split(',').map((s) => s.trim().toLowerCase()).filter(Boolean);
+  for (const format of formats) {
+    if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+      throw new Error(`Unknown report format "${format}". Supported: ${REPORT_FORMATS.join(', ')}.`);
+    }
+  }
+  return [...new Set(formats)] as ReportFormat[];
+}
+
+/** Escape text for use in XML attribute values and text nodes. */
+function escapeXml(text: string): string {
+  return text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Detail lines of one revision (conflicts, reverted and modified paths), workspace-relative. */
+function revisionDetails(result: RevisionMergeResult, workspace: string): string[] {
+  const lines: string[] = [];
+  if (result.committedRevision) {
+    lines.push(`Committed as r${result.committedRevision}`);
+  }
+  for (const c of result.conflicts) {
+    const label = c.ignored ? formatIgnored(c.ignoredBy) : formatResolution(c.resolution, c.rule, c.interactive);
+    lines.push(formatConflictLine(c.type, c.isDirectory, relPath(c.path, workspace), label, c.treeConflict));
+  }
+  for (const r of result.reverted) {
+    const kindTag = r.isDirectory ? '[D]' : '[F]';
+    lines.push(`[NONE    ]${kindTag}  ${relPath(r.path, workspace)}  (${formatIgnored(r.ignoredBy)})`);
+  }
+  for (const m of result.modified) {
+    lines.push(`[MODIFIED]${m.isDirectory ? '[D]' : '[F]'}  ${relPath(m.path, workspace)}`);
+  }
+  return lines;
+}
+
+/**
+ * Render the report as JUnit XML: one test case per revision, failing on a
+ * merge error or on any conflict that was not ignored.
+ */
+export function toJUnit(report: MergeReport): string {
+  const branch = branchName(report.fromUrl);
+  const suiteName = `svn merge ${branch} → ${report.workspace}`;
+  const cases: string[] = [];
+  let failures = 0;
+  let errors = 0;
+
+  for (const result of report.summary.results) {
+    const details = escapeXml(revisionDetails(result, report.workspace).join('\n'));
+    const active = result.conflicts.filter((c) => !c.ignored);
+    let body = '';
+    if (!result.success) {
+      errors++;
+      const msg = result.errorMessage ?? 'merge failed';
+      body = `      <error type="merge" message="${escapeXml(msg.split(/\r?\n/)[0])}">${escapeXml(msg)}</error>\n`;
+    } else if (active.length > 0) {
+      failures++;
+      const activeLines = active.map((c) =>
+        formatConflictLine(c.type, c.isDirectory, relPath(c.path, report.workspace), formatResolution(c.resolution, c.rule, c.interactive), c.treeConflict)
+      );
+      body = `      <failure type="conflict" message="${active.length} conflict(s)">${escapeXml(activeLines.join('\n'))}</failure>\n`;
+    }
+    if (details) {
+      body += `      <system-out>${details}</system-out>\n`;
+    }
+    const open = `    <testcase classname="svnmerge.${escapeXml(branch)}" name="r${result.revision}"`;
+    cases.push(body ? `${open}>\n${body}    </testcase>` : `${open}/>`);
+  }
+
+  const props = [
+    ['fromUrl', report.fromUrl],
+    ['workspace', report.workspace],
+    ['commit.status', report.commit.status],
+    ...(report.commit.revision !== undefined ? [['commit.revision', String(report.commit.revision)]] : []),
+    ...(report.commit.message ? [['commit.message', report.commit.message]] : []),
+    ...(report.tickets?.length ? [['tickets', report.tickets.map((t) => t.ref).join(' ')]] : []),
+    ...(report.backupDir ? [['backupDir', report.backupDir]] : []),
+    ...(report.hooks ?? []).filter((h) => h.exitCode !== 0).map((h) => [`hook.${h.stage}`, `exit ${h.exitCode}: ${h.command}`]),
+  ].map(([name, value]) => `      <property name="${name}" value="${escapeXml(value)}"/>`);
+
+  const total = report.summary.results.length;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="svn-merge-tool" tests="${total}" failures="${failures}" errors="${errors}">`,
+    `  <testsuite name="${escapeXml(suiteName)}" tests="${total}" failures="${failures}" errors="${errors}">`,
+    '    <properties>',
+    ...props,
+    '    </properties>',
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Write the report in each requested format to the output directory:
+ *   json  → svnmerge-<ts>.json
+ *   junit → svnmerge-<ts>.junit.xml
+ * Returns the written file paths.
+ */
+export function writeReports(outputDir: string, report: MergeReport, formats: ReportFormat[]): string[] {
+  fs.mkdirSync(outputDir, { recursive: true });
+  const written: string[] = [];
+  for (const format of formats) {
+    const file = format === 'json'
+      ? path.join(outputDir, `svnmerge-${report.startTs}.json`)
+      : path.join(outputDir, `svnmerge-${report.startTs}.junit.xml`);
+    const content = format === 'json' ? JSON.stringify(report, null, 2) + '\n' : toJUnit(report);
+    fs.writeFileSync(file, content, 'utf8');
+    written.push(file);
+  }
+  return written;
+}
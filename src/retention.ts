@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { parseDateBound } from './filter';
+import { loadSession, sessionPath, startTime } from './session';
+import { RetentionPolicy } from './types';
+
+/**
+ * Files a run leaves in the output directory that retention may delete, and its
+ * conflict backup folder (stash patches are kept).
+ */
+const RUN_FILE_RE = /^svnmerge-(\d{14})\.(log|events\.jsonl|json|junit\.xml|html|hook\.json|message\.txt|session\.json|backup)$/;
+
+/**
+ * Validate the `retention:` section of a config file:
+ *   retention:
+ *     max-count: 50
+ *     max-age: 30d
+ * Throws with `where` in the message.
+ */
+export function parseRetention(value: unknown, where: string): RetentionPolicy {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`"retention" in ${where} must be a mapping with "max-count" and/or "max-age".`);
+  }
+  const policy: RetentionPolicy = {};
+  for (const [key, raw] of Object.entries(value)) {
+    if (key === 'max-count') {
+      if (typeof raw !== 'number' || !Number.isInteger(raw) || raw < 0) {
+        throw new Error(`"retention.max-count" in ${where} must be a whole number of runs.`);
+      }
+      policy.maxCount = raw;
+    } else if (key === 'max-age') {
+      if (typeof raw !== 'string' || !/^\d+[hdw]$/i.test(raw.trim())) {
+        throw new Error(`"retention.max-age" in ${where} must be an age like 12h, 30d or 8w.`);
+      }
+      policy.maxAge = raw.trim();
+    } else {
+      throw new Error(`Unknown key "retention.${key}" in ${where}. Use max-count or max-age.`);
+    }
+  }
+  return policy;
+}
+
+/** One-line description for the parameters and the prune note, e.g. `keep 50 runs, 30d`. */
+export function describeRetention(policy: RetentionPolicy): string {
+  const parts: string[] = [];
+  if (policy.maxCount !== undefined) parts.push(`keep ${policy.maxCount} run(s)`);
+  if (policy.maxAge) parts.push(`max age ${policy.maxAge}`);
+  return parts.join(', ') || '(none)';
+}
+
+/** True when the run has a session file that is still running (needed by --resume). */
+function isUnfinished(outputDir: string, ts: string): boolean {
+  try {
+    return loadSession(sessionPath(outputDir, ts)).status === 'running';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Delete the logs, reports, session files and backups of earlier runs that fall outside
+ * the policy: beyond the newest `maxCount` runs, or older than `maxAge`.
+ * The current run and unfinished sessions are never deleted.
+ * Returns the timestamps of the pruned runs and the deleted files.
+ */
+export function pruneRuns(
+  outputDir: string,
+  policy: RetentionPolicy,
+  currentTs: string,
+  now: Date = new Date(),
+): { runs: string[]; files: string[] } {
+  let names: string[];
+  try {
+    names = fs.readdirSync(outputDir);
+  } catch {
+    return { runs: [], files: [] };
+  }
+  const byRun = new Map<string, string[]>();
+  for (const name of names) {
+    const match = name.match(RUN_FILE_RE);
+    if (!match || match[1] === currentTs) continue;
+    byRun.set(match[1], [...(byRun.get(match[1]) ?? []), name]);
+  }
+
+  const cutoff = policy.maxAge ? parseDateBound(policy.maxAge, false, now) : undefined;
+  const runs: string[] = [];
+  const files: string[] = [];
+  const newestFirst = [...byRun.keys()].sort().reverse();
+  newestFirst.forEach((ts, index) => {
+    const tooMany = policy.maxCount !== undefined && index >= policy.maxCount;
+    const tooOld = cutoff !== undefined && startTime(ts) < cutoff;
+    if ((!tooMany && !tooOld) || isUnfinished(outputDir, ts)) return;
+    for (const name of byRun.get(ts)!) {
+      try {
+        fs.rmSync(path.join(outputDir, name), { recursive: true });
+        files.push(path.join(outputDir, name));
+      } catch {
+        // in use or already gone; tried again at the next start
+      }
+    }
+    runs.push(ts);
+  });
+  return { runs, files };
+}
@@ -0,0 +1,101 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { MergeOptions, MergeSession } from './types';
+
+const SESSION_RE = /^svnmerge-(\d{14})\.session\.json$/;
+
+/** Path of the session file for a run started at `startTs`. */
+export function sessionPath(outputDir: string, startTs: string): string {
+  return path.join(outputDir, `svnmerge-${startTs}.session.json`);
+}
+
+/** Start time of a run from its yyyymmddhhmmss timestamp (local time, epoch milliseconds). */
+export function startTime(startTs: string): number {
+  const n = (from: number, to: number) => parseInt(startTs.slice(from, to), 10);
+  return new Date(n(0, 4), n(4, 6) - 1, n(6, 8), n(8, 10), n(10, 12), n(12, 14)).getTime();
+}
+
+/** Create a new in-memory session for the given options (not yet written). */
+export function createSession(options: MergeOptions, startTs: string): MergeSession {
+  return {
+    version: 1,
+    startTs,
+    status: 'running',
+    options,
+    results: [],
+    logFiles: [],
+  };
+}
+
+/**
+ * Write the session to `svnmerge-<startTs>.session.json` in the output directory.
+ * The file is written to a temporary name first and then renamed, so an
+ * interrupted write never leaves a truncated session behind.
+ */
+export function saveSession(outputDir: string, session: MergeSession): void {
+  fs.mkdirSync(outputDir, { recursive: true });
+  const target = sessionPath(outputDir, session.startTs);
+  const temp = `${target}.tmp`;
+  fs.writeFileSync(temp, JSON.stringify(session, null, 2), 'utf8');
+  fs.renameSync(temp, target);
+}
+
+/**
+ * Load a session file.
+ * Throws if the file cannot be read or is not a session written by this tool.
+ */
+export function loadSession(filePath: string): MergeSession {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    throw new Error(`Cannot read session file "${filePath}": ${msg}`);
+  }
+  const session = parsed as MergeSession;
+  if (!session || session.version !== 1 || !session.options || !Array.isArray(session.results)) {
+    throw new Error(`"${filePath}" is not a valid merge session file.`);
+  }
+  session.logFiles = session.logFiles ?? [];
+  return session;
+}
+
+/**
+ * List all session files in the output directory, newest first.
+ */
+export function listSessionFiles(outputDir: string): string[] {
+  let names: string[];
+  try {
+    names = fs.readdirSync(outputDir);
+  } catch {
+    return [];
+  }
+  return names
+    .filter((name) => SESSION_RE.test(name))
+    .sort()
+    .reverse()
+    .map((name) => path.join(outputDir, name));
+}
+
+/**
+ * Return the most recent session in the output directory that has not completed,
+ * or undefined if there is none. Unreadable session files are skipped.
+ */
+export function findResumableSession(outputDir: string): MergeSession | undefined {
+  for (const file of listSessionFiles(outputDir)) {
+    try {
+      const session = loadSession(file);
+      if (session.status === 'running') return session;
+    } catch {
+      // skip corrupt or foreign files
+    }
+  }
+  return undefined;
+}
+
+/** Revisions of the session that do not have a result yet, in merge order. */
+export function pendingRevisions(session: MergeSession): number[] {
+  const done = new Set(session.results.map((r) => r.revision));
+  return session.options.revisions.filter((rev) => !done.has(rev));
+}
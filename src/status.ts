@@ -0,0 +1,115 @@
+import { cliSvn, SvnBackend } from './svn';
+import { compressRevisions } from './utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Version of the `status --json` output; only changes when a field is removed or changes meaning. */
+export const STATUS_SCHEMA_VERSION = 1;
+
+/** Pending revisions of one author. */
+export interface AuthorPending {
+  author: string;
+  revisions: number[];
+}
+
+/**
+ * Where a working copy stands against its source branch.
+ * `pending` are the eligible revisions that are not blocked; revisions from the
+ * config `block:` list are `blocked` while eligible and `recordOnly` once
+ * recorded as merged (`--block`). svn:mergeinfo records a record-only merge
+ * like any other, so a revision blocked with `--block` alone is in `merged`.
+ */
+export interface BranchStatus {
+  workspace: string;
+  fromUrl: string;
+  merged: number[];
+  pending: number[];
+  blocked: number[];
+  recordOnly: number[];
+  /** Oldest pending revision; age in whole days at the time of the query */
+  oldestPending?: { revision: number; author: string; date: string; ageDays: number };
+  /** Pending revisions grouped by author, most revisions first */
+  pendingByAuthor: AuthorPending[];
+}
+
+/**
+ * Query the merge status of a working copy: `svn mergeinfo --show-revs eligible`
+ * and `--show-revs merged`, and the log of the pending revisions.
+ * Throws when svn mergeinfo fails.
+ */
+export function collectStatus(
+  workspace: string,
+  fromUrl: string,
+  block: number[] = [],
+  svn: SvnBackend = cliSvn,
+  now: Date = new Date(),
+): BranchStatus {
+  const blockSet = new Set(block);
+  const eligible = svn.eligibleRevisions(fromUrl, workspace);
+  const merged = svn.mergedRevisions(fromUrl, workspace);
+  const pending = eligible.filter((rev) => !blockSet.has(rev));
+  const entries = svn.logEntries(pending, fromUrl);
+
+  const byAuthor = new Map<string, number[]>();
+  for (const rev of pending) {
+    const author = entries.get(rev)?.author || '(no author)';
+    byAuthor.set(author, [...(byAuthor.get(author) ?? []), rev]);
+  }
+  const pendingByAuthor = [...byAuthor]
+    .map(([author, revisions]) => ({ author, revisions }))
+    .sort((a, b) => b.revisions.length - a.revisions.length || a.author.localeCompare(b.author));
+
+  const status: BranchStatus = {
+    workspace,
+    fromUrl,
+    merged,
+    pending,
+    blocked: eligible.filter((rev) => blockSet.has(rev)),
+    recordOnly: merged.filter((rev) => blockSet.has(rev)),
+    pendingByAuthor,
+  };
+  if (pending.length > 0) {
+    const oldest = Math.min(...pending);
+    const entry = entries.get(oldest);
+    const time = entry ? Date.parse(entry.date) : NaN;
+    status.oldestPending = {
+      revision: oldest,
+      author: entry?.author ?? '',
+      date: entry?.date ?? '',
+      ageDays: isNaN(time) ? 0 : Math.max(0, Math.floor((now.getTime() - time) / DAY_MS)),
+    };
+  }
+  return status;
+}
+
+/**
+ * Format the status for the console:
+ *   merged      : 120
+ *   pending     : 7  (oldest r1001, 12 day(s) old, alice)
+ *   blocked     : 2  1005-1006
+ *   record-only : 0
+ *   (blocked and record-only only cover the config block: list; ...)
+ *   pending by author:
+ *     alice  4  1001, 1003-1004, 1010
+ */
+export function formatStatus(status: BranchStatus): string[] {
+  const oldest = status.oldestPending;
+  const lines = [
+    `merged      : ${status.merged.length}`,
+    `pending     : ${status.pending.length}${oldest
+      ? `  (oldest r${oldest.revision}${oldest.date ? `, ${oldest.ageDays} day(s) old` : ''}${oldest.author ? `, ${oldest.author}` : ''})`
+      : ''}`,
+    `blocked     : ${status.blocked.length}${status.blocked.length > 0 ? `  ${compressRevisions(status.blocked)}` : ''}`,
+    `record-only : ${status.recordOnly.length}${status.recordOnly.length > 0 ? `  ${compressRevisions(status.recordOnly)}` : ''}`,
+    '(blocked and record-only only cover the config block: list; revisions blocked with --block alone count as merged)',
+  ];
+  if (status.pendingByAuthor.length > 0) {
+    lines.push('pending by author:');
+    const width = Math.max(...status.pendingByAuthor.map((a) => a.author.length));
+    const countWidth = Math.max(...status.pendingByAuthor.map((a) => String(a.revisions.length).length));
+    for (const { author, revisions } of status.pendingByAuthor) {
+      lines.push(`  ${author.padEnd(width)}  ${String(revisions.length).padStart(countWidth)}  ${compressRevisions(revisions)}`);
+    }
+  }
+  return lines;
+}
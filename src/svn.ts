@@ -3,8 +3,11 @@ import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 
-import { ConflictInfo, ConflictType } from './types';
+import {
+    ConflictFiles, ConflictInfo, InfoEntry, LogEntry, NodeKind, ResolveStrategy, StatusEntry
+} from './types';
 import { isDir } from './utils';
+import { child, children, childText, parseXml } from './xml';
 
 let cachedWindowsConsoleEncoding: string | null | undefined;
 
@@ -82,8 +85,19 @@ function decodeOutput(buf: Buffer): string {
   return buf.toString('utf8');
 }
 
+/** Told about every svn command that ran, for the event log. */
+export type SvnCommandListener = (args: string[], exitCode: number, durationMs: number) => void;
+
+let commandListener: SvnCommandListener | undefined;
+
+/** Set (or clear, with undefined) the listener told about every svn command. */
+export function setSvnCommandListener(listener: SvnCommandListener | undefined): void {
+  commandListener = listener;
+}
+
 /** Run an SVN command synchronously, returning { stdout, stderr, exitCode } */
 function runSvn(args: string[], cwd?: string, maxBuffer?: number): { stdout: string; stderr: string; exitCode: number } {
+  const started = Date.now();
   const result = spawnSync('svn', args, {
     cwd,
     encoding: 'buffer',
@@ -94,6 +108,7 @@ function runSvn(args: string[], cwd?: string, maxBuffer?: number): { stdout: str
   const stdout = result.stdout ? decodeOutput(result.stdout) : '';
   const stderr = result.stderr ? decodeOutput(result.stderr) : '';
   const exitCode = result.status ?? 1;
+  commandListener?.(args, result.error ? -1 : exitCode, Date.now() - started);
 
   if (result.error) {
     throw new Error(`Failed to spawn svn: ${result.error.message}`);
@@ -102,24 +117,175 @@ function runSvn(args: string[], cwd?: string, maxBuffer?: number): { stdout: str
   return { stdout, stderr, exitCode };
 }
 
+// ─── XML parsing ──────────────────────────────────────────────────────────────
+
+function toNodeKind(kind: string | undefined): NodeKind {
+  return kind === 'file' || kind === 'dir' || kind === 'none' ? kind : 'unknown';
+}
+
+/**
+ * Parse `svn status --xml` output. Entries of every <target> (including
+ * svn:externals targets) are returned in document order.
+ */
+export function parseStatusXml(xml: string): StatusEntry[] {
+  const entries: StatusEntry[] = [];
+  for (const target of children(parseXml(xml), 'target')) {
+    for (const entry of children(target, 'entry')) {
+      const wc = child(entry, 'wc-status');
+      entries.push({
+        path: entry.attrs['path'] ?? '',
+        item: wc?.attrs['item'] ?? 'none',
+        props: wc?.attrs['props'] ?? 'none',
+        treeConflicted: wc?.attrs['tree-conflicted'] === 'true',
+      });
+    }
+  }
+  return entries;
+}
+
+/** Resolve a conflict marker file name reported by svn against the victim's folder. */
+function conflictFilePath(entryPath: string, file: string): string | undefined {
+  const trimmed = file.trim();
+  if (!trimmed) return undefined;
+  return path.isAbsolute(trimmed) ? trimmed : path.join(path.dirname(entryPath), trimmed);
+}
+
+/**
+ * Parse `svn info --xml` output, including tree-conflict descriptions and the
+ * marker files of text/property conflicts.
+ */
+export function parseInfoXml(xml: string): InfoEntry[] {
+  return children(parseXml(xml), 'entry').map((entry) => {
+    const entryPath = entry.attrs['path'] ?? '';
+    const commit = child(entry, 'commit');
+    const info: InfoEntry = {
+      path: entryPath,
+      kind: toNodeKind(entry.attrs['kind']),
+      url: childText(entry, 'url'),
+      revision: parseInt(entry.attrs['revision'] ?? '', 10) || 0,
+      lastChangedAuthor: commit ? childText(commit, 'author') || undefined : undefined,
+      lastChangedDate: commit ? childText(commit, 'date') || undefined : undefined,
+    };
+
+    // Text/property conflicts are <conflict> elements and tree conflicts are
+    // <tree-conflict> elements; some clients nest them inside <wc-info>
+    const conflictNodes = [
+      ...children(entry, 'conflict'),
+      ...children(entry, 'tree-conflict'),
+      ...(child(entry, 'wc-info') ? children(child(entry, 'wc-info')!, 'conflict') : []),
+    ];
+    for (const node of conflictNodes) {
+      const tree = node.name === 'tree-conflict' ? node : child(node, 'tree-conflict');
+      if (tree) {
+        info.treeConflict = {
+          operation: tree.attrs['operation'] ?? node.attrs['operation'] ?? 'unknown',
+          action: tree.attrs['action'] ?? 'unknown',
+          reason: tree.attrs['reason'] ?? 'unknown',
+          victimKind: toNodeKind(tree.attrs['kind']),
+          versions: children(tree, 'version').map((v) => ({
+            side: v.attrs['side'] ?? '',
+            kind: toNodeKind(v.attrs['kind']),
+            pathInRepos: v.attrs['path-in-repos'] ?? '',
+            reposUrl: v.attrs['repos-url'] ?? '',
+            revision: parseInt(v.attrs['revision'] ?? '', 10) || 0,
+          })),
+        };
+        continue;
+      }
+      const files: ConflictFiles = info.conflictFiles ?? {};
+      files.base = conflictFilePath(entryPath, childText(node, 'prev-base-file')) ?? files.base;
+      files.mine = conflictFilePath(entryPath, childText(node, 'prev-wc-file')) ?? files.mine;
+      files.theirs = conflictFilePath(entryPath, childText(node, 'cur-base-file')) ?? files.theirs;
+      files.propReject = conflictFilePath(entryPath, childText(node, 'prop-file')) ?? files.propReject;
+      if (files.base || files.mine || files.theirs || files.propReject) info.conflictFiles = files;
+    }
+    return info;
+  });
+}
+
+/**
+ * Parse `svn log --xml` output (with or without `-v` changed paths).
+ */
+export function parseLogXml(xml: string): LogEntry[] {
+  return children(parseXml(xml), 'logentry').map((entry) => {
+    const log: LogEntry = {
+      revision: parseInt(entry.attrs['revision'] ?? '', 10) || 0,
+      author: childText(entry, 'author'),
+      date: childText(entry, 'date'),
+      message: childText(entry, 'msg').replace(/\r\n/g, '\n').replace(/\s+$/, ''),
+    };
+    const paths = child(entry, 'paths');
+    if (paths) {
+      log.paths = children(paths, 'path').map((p) => ({
+        path: p.text,
+        action: p.attrs['action'] ?? '',
+        kind: toNodeKind(p.attrs['kind']),
+      }));
+    }
+    return log;
+  });
+}
+
+// ─── Commands ─────────────────────────────────────────────────────────────────
+
+const ITEM_CODES: Record<string, string> = {
+  added: 'A',
+  conflicted: 'C',
+  deleted: 'D',
+  ignored: 'I',
+  incomplete: '!',
+  missing: '!',
+  modified: 'M',
+  obstructed: '~',
+  replaced: 'R',
+  unversioned: '?',
+};
+
+/**
+ * Run `svn status --xml` on the workspace and return every reported entry.
+ * Throws when svn fails or its output cannot be parsed, so a failed query is
+ * not mistaken for a clean working copy.
+ */
+export function svnStatus(workspace: string): StatusEntry[] {
+  const { stdout, stderr, exitCode } = runSvn(['status', '--xml', workspace]);
+  if (exitCode !== 0) {
+    throw new Error(`svn status failed (exit ${exitCode}):\n${stderr.trim() || stdout.trim()}`);
+  }
+  if (!stdout.includes('<status')) {
+    throw new Error(`svn status returned no XML status:\n${stdout.trim()}`);
+  }
+  try {
+    return parseStatusXml(stdout);
+  } catch (e: unknown) {
+    throw new Error(`svn status returned unreadable XML: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+/** True for status entries without local changes (or svn:externals markers). */
+function isCleanEntry(entry: StatusEntry): boolean {
+  if (entry.item === 'external') return true;
+  return (
+    (entry.item === 'normal' || entry.item === 'none') &&
+    (entry.props === 'normal' || entry.props === 'none') &&
+    !entry.treeConflicted
+  );
+}
+
 /**
  * Check for local modifications or unversioned files in the workspace.
- * Returns an array of status lines that indicate dirty state.
- * Status lines starting with '?' (unversioned) or any non-space first column
- * (modified, added, deleted, missing, conflicted, etc.) are included.
- * Lines starting with 'X' (external) or ' ' (clean) are excluded.
+ * Returns a `svn status`-style line for every entry that indicates dirty state
+ * (modified, added, deleted, missing, conflicted, unversioned, etc.).
+ * Clean entries and svn:externals markers are excluded.
+ * Throws when svn status fails.
  */
 export function svnStatusDirty(workspace: string): string[] {
-  const { stdout, exitCode } = runSvn(['status', workspace]);
-  if (exitCode !== 0 || !stdout.trim()) return [];
-
-  return stdout
-    .split(/\r?\n/)
-    .filter((line) => {
-      if (line.length < 2) return false;
-      const col0 = line[0];
-      // Ignore clean lines and svn:externals markers
-      return col0 !== ' ' && col0 !== 'X';
+  return svnStatus(workspace)
+    .filter((entry) => !isCleanEntry(entry))
+    .map((entry) => {
+      const col0 = ITEM_CODES[entry.item] ?? ' ';
+      const col1 = entry.props === 'conflicted' ? 'C' : entry.props === 'modified' ? 'M' : ' ';
+      const col6 = entry.treeConflicted ? 'C' : ' ';
+      return `${col0}${col1}    ${col6} ${entry.path}`;
     });
 }
 
@@ -140,69 +306,192 @@ export function svnUpdate(workspace: string): void {
 }
 
 /**
- * Verify that the given directory is a valid SVN working copy.
+ * Verify that the given directory is a valid SVN working copy and return its info.
  * Throws if not valid.
  */
-export function svnInfo(workspace: string): void {
-  const { exitCode, stderr } = runSvn(['info', workspace]);
+export function svnInfo(workspace: string): InfoEntry {
+  const { stdout, exitCode, stderr } = runSvn(['info', '--xml', workspace]);
   if (exitCode !== 0) {
     throw new Error(`"${workspace}" is not a valid SVN working copy:\n${stderr.trim()}`);
   }
+  const [entry] = parseInfoXml(stdout);
+  if (!entry) {
+    throw new Error(`"${workspace}" is not a valid SVN working copy: svn info returned no entry.`);
+  }
+  return entry;
+}
+
+/**
+ * Run `svn info --xml --depth empty` for many working-copy paths in one call.
+ * The path list goes through a `--targets` file (see svnCommit for why).
+ * Paths svn cannot report (e.g. removed tree-conflict victims) are simply
+ * missing from the result; svn's warnings for them are ignored.
+ */
+export function svnInfoEntries(paths: string[], workspace: string): Map<string, InfoEntry> {
+  const result = new Map<string, InfoEntry>();
+  if (paths.length === 0) return result;
+
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'svn-merge-tool-'));
+  const targetFile = path.join(tempDir, 'info-targets.txt');
+  try {
+    fs.writeFileSync(targetFile, `${paths.join('\n')}\n`, 'utf8');
+    const { stdout } = runSvn(['info', '--xml', '--depth', 'empty', '--targets', targetFile], workspace);
+    if (!stdout.trim()) return result;
+    try {
+      for (const entry of parseInfoXml(stdout)) {
+        result.set(path.resolve(workspace, entry.path), entry);
+      }
+    } catch {
+      // Unparsable output: callers fall back to guessing the node kind
+    }
+  } finally {
+    try {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    } catch {
+      // A failed cleanup must not hide the SVN result.
+    }
+  }
+  return result;
 }
 
 /**
  * Merge a single revision from fromUrl into workspace.
+ * With `reverse`, the revision is undone instead (`-c -N`).
  * Uses --accept postpone to defer conflict resolution.
  */
 export function svnMerge(
   revision: number,
   fromUrl: string,
-  workspace: string
+  workspace: string,
+  reverse = false
 ): { stdout: string; stderr: string; exitCode: number } {
   return runSvn(
-    ['merge', '-c', String(revision), '--accept', 'postpone', fromUrl, workspace],
+    ['merge', '-c', reverse ? `-${revision}` : String(revision), '--accept', 'postpone', fromUrl, workspace],
     workspace
   );
 }
 
+/** One notification line of `svn merge`: content, property, lock and tree columns, then the path. */
+const MERGE_LINE_RE = /^([ ADUCGER])([ UCG])([ B])([ C]) (.+)$/;
+
 /**
- * Combined parse of `svn status` — returns conflicts AND non-conflict
- * modifications in a single SVN call.
- * Replaces calling svnStatusConflicts + svnStatusModifications separately.
+ * Parse the notification lines of `svn merge` (also `--dry-run`) into
+ * conflicts and changed paths, in the shape of svnStatusAfterMerge.
+ * Relative paths are resolved against `workspace`. Node kinds come from the
+ * working copy on disk, so paths the merge would add count as files.
+ */
+export function parseMergeOutput(stdout: string, workspace: string): {
+  conflicts: ConflictInfo[];
+  modifications: { path: string; isDirectory: boolean }[];
+} {
+  const conflicts: ConflictInfo[] = [];
+  const modifications: { path: string; isDirectory: boolean }[] = [];
+  const seen = new Set<string>();
+  for (const line of stdout.split(/\r?\n/)) {
+    const match = line.match(MERGE_LINE_RE);
+    if (!match) continue;
+    const [, content, props, , tree] = match;
+    const filePath = path.resolve(workspace, match[5].trim());
+    const isDirectory = isDir(filePath);
+    const type = tree === 'C' ? 'tree' : content === 'C' ? 'text' : props === 'C' ? 'property' : undefined;
+    if (seen.has(`${type}:${filePath}`)) continue;
+    seen.add(`${type}:${filePath}`);
+    if (type) {
+      conflicts.push({ path: filePath, type, resolution: type === 'tree' ? 'working' : 'theirs-full', isDirectory, ignored: false });
+    } else {
+      modifications.push({ path: filePath, isDirectory });
+    }
+  }
+  // A path reported with a conflict is not also a plain modification
+  const conflicted = new Set(conflicts.map((c) => c.path));
+  return { conflicts, modifications: modifications.filter((m) => !conflicted.has(m.path)) };
+}
+
+/**
+ * Predict what merging a single revision would do, without changing the
+ * working copy (`svn merge --dry-run`). With `reverse`, predicts undoing it.
+ * `error` is set when svn fails outright.
+ */
+export function svnMergeDryRun(
+  revision: number,
+  fromUrl: string,
+  workspace: string,
+  reverse = false
+): { conflicts: ConflictInfo[]; modifications: { path: string; isDirectory: boolean }[]; error?: string } {
+  const { stdout, stderr, exitCode } = runSvn(
+    ['merge', '--dry-run', '-c', reverse ? `-${revision}` : String(revision), '--accept', 'postpone', fromUrl, workspace],
+    workspace
+  );
+  if (exitCode !== 0 && !stdout.trim() && stderr.trim()) {
+    return { conflicts: [], modifications: [], error: stderr.trim() };
+  }
+  return parseMergeOutput(stdout, workspace);
+}
+
+/**
+ * Record revisions as merged without changing any file (`svn merge --record-only`),
+ * which removes them from the eligible list. With `reverse`, the revisions are
+ * recorded as not merged again (`-c -N`), which makes them eligible again.
+ */
+export function svnMergeRecordOnly(
+  revisions: number[],
+  fromUrl: string,
+  workspace: string,
+  reverse = false
+): { stdout: string; stderr: string; exitCode: number } {
+  const change = revisions.map((rev) => (reverse ? `-${rev}` : String(rev))).join(',');
+  return runSvn(['merge', '--record-only', '-c', change, fromUrl, workspace], workspace);
+}
+
+/**
+ * Combined parse of `svn status --xml` — returns conflicts AND non-conflict
+ * modifications in a single SVN call. Node kinds come from one batched
+ * `svn info --xml` call; `isDir` is only a fallback for paths svn cannot report.
+ * Throws when svn status fails.
  */
 export function svnStatusAfterMerge(workspace: string): {
   conflicts: ConflictInfo[];
   modifications: { path: string; isDirectory: boolean }[];
 } {
-  const { stdout } = runSvn(['status', workspace]);
+  const entries = svnStatus(workspace).filter(
+    (entry) => entry.path && !isCleanEntry(entry) && entry.item !== 'unversioned' && entry.item !== 'ignored'
+  );
+  const infos = svnInfoEntries(entries.map((entry) => entry.path), workspace);
+  const isDirectory = (filePath: string): boolean => {
+    const kind = infos.get(path.resolve(workspace, filePath))?.kind;
+    return kind === 'dir' || kind === 'file' ? kind === 'dir' : isDir(filePath);
+  };
+
   const conflicts: ConflictInfo[] = [];
   const modifications: { path: string; isDirectory: boolean }[] = [];
 
-  for (const line of stdout.split(/\r?\n/)) {
-    if (line.length < 2) continue;
-    const col0 = line[0];
-    const col1 = line[1];
-    const col6 = line.length > 6 ? line[6] : ' ';
-    const filePath = line.slice(8).trim();
-    if (!filePath) continue;
-
-    if (col6 === 'C') {
-      conflicts.push({ path: filePath, type: 'tree', resolution: 'working', isDirectory: isDir(filePath), ignored: false });
-    } else if (col0 === 'C') {
-      conflicts.push({ path: filePath, type: 'text', resolution: 'theirs-full', isDirectory: isDir(filePath), ignored: false });
-    } else if (col1 === 'C') {
-      conflicts.push({ path: filePath, type: 'property', resolution: 'theirs-full', isDirectory: isDir(filePath), ignored: false });
+  for (const entry of entries) {
+    const filePath = entry.path;
+    if (entry.treeConflicted) {
+      const treeConflict = infos.get(path.resolve(workspace, filePath))?.treeConflict;
+      conflicts.push({ path: filePath, type: 'tree', resolution: 'working', isDirectory: isDirectory(filePath), treeConflict, ignored: false });
+    } else if (entry.item === 'conflicted') {
+      conflicts.push({ path: filePath, type: 'text', resolution: 'theirs-full', isDirectory: isDirectory(filePath), ignored: false });
+    } else if (entry.props === 'conflicted') {
+      conflicts.push({ path: filePath, type: 'property', resolution: 'theirs-full', isDirectory: isDirectory(filePath), ignored: false });
     } else {
-      // Non-conflict modified paths (skip entirely clean / unversioned / external)
-      // Keep entries where col1='M' (property-only change, e.g. svn:mergeinfo on the workspace folder)
-      if ((col0 === ' ' && col1 === ' ') || col0 === '?' || col0 === 'X') continue;
-      modifications.push({ path: filePath, isDirectory: isDir(filePath) });
+      // Non-conflict modified paths, including property-only changes
+      // (e.g. svn:mergeinfo on the workspace folder)
+      modifications.push({ path: filePath, isDirectory: isDirectory(filePath) });
     }
   }
 
   return { conflicts, modifications };
 }
 
+/**
+ * Return `svn diff` of a working-copy path against its base (empty on failure).
+ */
+export function svnDiff(filePath: string, workspace: string): string {
+  const { stdout } = runSvn(['diff', filePath], workspace);
+  return stdout;
+}
+
 /**
  * Revert a path (and all children if it is a directory).
  */
@@ -219,10 +508,11 @@ export function svnRevert(
 
 /**
  * Resolve a conflicted file using the specified accept strategy.
+ * 'postpone' and 'fail' are not valid strategies here — those conflicts are simply not resolved.
  */
 export function svnResolve(
   filePath: string,
-  accept: 'working' | 'theirs-full',
+  accept: Exclude<ResolveStrategy, 'postpone' | 'fail'>,
   workspace: string
 ): { success: boolean; message: string } {
   const { exitCode, stderr } = runSvn(['resolve', '--accept', accept, filePath], workspace);
@@ -232,88 +522,59 @@ export function svnResolve(
   return { success: true, message: '' };
 }
 
+/** Parse the `r1001` lines printed by `svn mergeinfo --show-revs`. */
+function parseMergeinfoRevisions(stdout: string): number[] {
+  return stdout
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter(Boolean)
+    .map((l) => parseInt(l.replace(/^r/, ''), 10))
+    .filter((n) => !isNaN(n) && n > 0);
+}
+
 /**
  * Return all revisions from fromUrl that are eligible to be merged into workspace.
  * Uses `svn mergeinfo --show-revs eligible`.
+ * Throws on SVN error, so a failed query is not mistaken for "nothing to merge".
  */
 export function svnEligibleRevisions(fromUrl: string, workspace: string): number[] {
-  const { stdout, exitCode } = runSvn(
+  const { stdout, stderr, exitCode } = runSvn(
     ['mergeinfo', '--show-revs', 'eligible', fromUrl, workspace],
     workspace
   );
-  if (exitCode !== 0 || !stdout.trim()) return [];
-  return stdout
-    .split(/\r?\n/)
-    .map((l) => l.trim())
-    .filter(Boolean)
-    .map((l) => parseInt(l.replace(/^r/, ''), 10))
-    .filter((n) => !isNaN(n) && n > 0);
+  if (exitCode !== 0) {
+    throw new Error(`svn mergeinfo failed (exit ${exitCode}):\n${stderr || stdout}`);
+  }
+  return parseMergeinfoRevisions(stdout);
 }
 
 /**
- * Fetch the commit log message body for a single revision.
- * Returns the trimmed message body, or an empty string on failure.
- *
- * svn log output structure:
- *   -------...-------
- *   rNNNN | author | date | N lines
- *   <blank line>
- *   <message body>
- *   -------...-------
+ * Return all revisions from fromUrl that are recorded as merged into workspace
+ * (including record-only merges). Uses `svn mergeinfo --show-revs merged`.
+ * Throws on SVN error, so a failed query is not mistaken for "nothing merged".
  */
-export function svnLog(revision: number, fromUrl: string): string {
-  const { stdout, exitCode } = runSvn(['log', '-c', String(revision), '--limit', '1', fromUrl]);
-  if (exitCode !== 0 || !stdout.trim()) return '';
-
-  const lines = stdout.split(/\r?\n/);
-  // Find the first separator line
-  const sepIdx = lines.findIndex((l) => /^-{10,}/.test(l));
-  if (sepIdx === -1) return '';
-
-  // Header line is right after the separator
-  const headerIdx = sepIdx + 1;
-  // Message body starts after header + one blank line
-  const bodyStart = headerIdx + 2;
-  // Find the closing separator
-  const closeSepIdx = lines.findIndex((l, i) => i > headerIdx && /^-{10,}/.test(l));
-  const bodyEnd = closeSepIdx === -1 ? lines.length : closeSepIdx;
-
-  const body = lines.slice(bodyStart, bodyEnd);
-
-  // Trim leading and trailing blank lines
-  while (body.length > 0 && body[0].trim() === '') body.shift();
-  while (body.length > 0 && body[body.length - 1].trim() === '') body.pop();
-
-  return body.join('\n');
+export function svnMergedRevisions(fromUrl: string, workspace: string): number[] {
+  const { stdout, stderr, exitCode } = runSvn(
+    ['mergeinfo', '--show-revs', 'merged', fromUrl, workspace],
+    workspace
+  );
+  if (exitCode !== 0) {
+    throw new Error(`svn mergeinfo failed (exit ${exitCode}):\n${stderr || stdout}`);
+  }
+  return parseMergeinfoRevisions(stdout);
 }
 
 /**
- * Fetch log message bodies for multiple revisions in a single `svn log` call.
- * Returns a Map<revision, body>; revisions with no message map to ''.
+ * Fetch the commit log message body for a single revision.
+ * Returns the trimmed message body, or an empty string on failure.
  */
-/** Parse `svn log` stdout text into a Map<revision, body>. */
-function parseSvnLogOutput(stdout: string, resultMap: Map<number, string>): void {
-  const sepRe = /^-{10,}$/;
-  const headerRe = /^r(\d+)\s*\|/;
-  const lines = stdout.split(/\r?\n/);
-  let i = 0;
-
-  while (i < lines.length) {
-    if (!sepRe.test(lines[i])) { i++; continue; }
-    i++; // advance past separator to header
-    if (i >= lines.length) break;
-    const headerMatch = lines[i].match(headerRe);
-    if (!headerMatch) { i++; continue; }
-    const rev = parseInt(headerMatch[1], 10);
-    i++; // advance past header
-    if (i < lines.length && lines[i].trim() === '') i++; // skip blank line after header
-    const bodyLines: string[] = [];
-    while (i < lines.length && !sepRe.test(lines[i])) {
-      bodyLines.push(lines[i]);
-      i++;
-    }
-    while (bodyLines.length > 0 && bodyLines[bodyLines.length - 1].trim() === '') bodyLines.pop();
-    if (resultMap.has(rev)) resultMap.set(rev, bodyLines.join('\n'));
+export function svnLog(revision: number, fromUrl: string): string {
+  const { stdout, exitCode } = runSvn(['log', '--xml', '-c', String(revision), '--limit', '1', fromUrl]);
+  if (exitCode !== 0 || !stdout.trim()) return '';
+  try {
+    return parseLogXml(stdout)[0]?.message.replace(/^\s*\n/, '') ?? '';
+  } catch {
+    return '';
   }
 }
 
@@ -363,25 +624,103 @@ export function svnCommit(workspace: string, message: string, targets?: string[]
 }
 
 /**
- * Fetch log message bodies for multiple revisions in batched `svn log` calls.
+ * Extract the new revision number from `svn commit` output ("Committed revision N.").
+ * Returns undefined if the output contains no such line (e.g. nothing to commit).
+ */
+export function parseCommittedRevision(output: string): number | undefined {
+  const match = output.match(/Committed revision (\d+)\./);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Fetch log entries (author, date, message and optionally changed paths) for
+ * multiple revisions in batched `svn log --xml` calls.
  * Splits revisions into chunks to avoid buffer overflow on large revision sets.
- * Returns a Map<revision, body>; revisions with no message map to ''.
+ * Revisions svn does not report are missing from the returned map.
  */
-export function svnLogBatch(revisions: number[], fromUrl: string): Map<number, string> {
-  const resultMap = new Map<number, string>(revisions.map((r) => [r, '']));
+export function svnLogEntries(revisions: number[], fromUrl: string, withPaths = false): Map<number, LogEntry> {
+  const wanted = new Set(revisions);
+  const resultMap = new Map<number, LogEntry>();
   if (revisions.length === 0) return resultMap;
 
   const CHUNK_SIZE = 200;
-  const sorted = [...revisions].sort((a, b) => a - b);
+  const sorted = [...wanted].sort((a, b) => a - b);
 
   for (let start = 0; start < sorted.length; start += CHUNK_SIZE) {
     const chunk = sorted.slice(start, start + CHUNK_SIZE);
     const min = chunk[0];
     const max = chunk[chunk.length - 1];
-    const { stdout, exitCode } = runSvn(['log', fromUrl, '-r', `${min}:${max}`]);
+    const args = ['log', '--xml', fromUrl, '-r', `${min}:${max}`];
+    if (withPaths) args.push('-v');
+    const { stdout, exitCode } = runSvn(args);
     if (exitCode !== 0 || !stdout.trim()) continue;
-    parseSvnLogOutput(stdout, resultMap);
+    try {
+      for (const entry of parseLogXml(stdout)) {
+        if (wanted.has(entry.revision)) resultMap.set(entry.revision, entry);
+      }
+    } catch {
+      // unparsable chunk: leave its revisions without a log entry
+    }
   }
 
   return resultMap;
 }
+
+/**
+ * Fetch log message bodies for multiple revisions.
+ * Returns a Map<revision, body>; revisions with no message map to ''.
+ */
+export function svnLogBatch(revisions: number[], fromUrl: string): Map<number, string> {
+  const entries = svnLogEntries(revisions, fromUrl);
+  return new Map(revisions.map((r) => [r, entries.get(r)?.message.replace(/^\s*\n/, '') ?? '']));
+}
+
+/**
+ * The SVN operations used by the merge pipeline.
+ * `cliSvn` runs the real `svn` command line; tests substitute an in-memory fake.
+ */
+export interface SvnBackend {
+  info(workspace: string): InfoEntry;
+  update(workspace: string): void;
+  statusDirty(workspace: string): string[];
+  statusAfterMerge(workspace: string): {
+    conflicts: ConflictInfo[];
+    modifications: { path: string; isDirectory: boolean }[];
+  };
+  infoEntries(paths: string[], workspace: string): Map<string, InfoEntry>;
+  diff(filePath: string, workspace: string): string;
+  merge(revision: number, fromUrl: string, workspace: string, reverse?: boolean): { stdout: string; stderr: string; exitCode: number };
+  mergeDryRun(revision: number, fromUrl: string, workspace: string, reverse?: boolean): {
+    conflicts: ConflictInfo[];
+    modifications: { path: string; isDirectory: boolean }[];
+    error?: string;
+  };
+  recordOnly(revisions: number[], fromUrl: string, workspace: string, reverse?: boolean): { stdout: string; stderr: string; exitCode: number };
+  resolve(filePath: string, accept: Exclude<ResolveStrategy, 'postpone' | 'fail'>, workspace: string): { success: boolean; message: string };
+  revert(filePath: string, workspace: string): { success: boolean; message: string };
+  eligibleRevisions(fromUrl: string, workspace: string): number[];
+  mergedRevisions(fromUrl: string, workspace: string): number[];
+  logBatch(revisions: number[], fromUrl: string): Map<number, string>;
+  logEntries(revisions: number[], fromUrl: string, withPaths?: boolean): Map<number, LogEntry>;
+  commit(workspace: string, message: string, targets?: string[]): string;
+}
+
+/** SVN backend that runs the `svn` command line client. */
+export const cliSvn: SvnBackend = {
+  info: svnInfo,
+  update: svnUpdate,
+  statusDirty: svnStatusDirty,
+  statusAfterMerge: svnStatusAfterMerge,
+  infoEntries: svnInfoEntries,
+  diff: svnDiff,
+  merge: svnMerge,
+  mergeDryRun: svnMergeDryRun,
+  recordOnly: svnMergeRecordOnly,
+  resolve: svnResolve,
+  revert: svnRevert,
+  eligibleRevisions: svnEligibleRevisions,
+  mergedRevisions: svnMergedRevisions,
+  logBatch: svnLogBatch,
+  logEntries: svnLogEntries,
+  commit: svnCommit,
+};
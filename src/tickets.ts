@@ -0,0 +1,107 @@
+import { Ticket, TicketConfig } from './types';
+
+/** Ticket pattern used by --ticket when the config has no `tickets:` section */
+export const DEFAULT_TICKET_PATTERN = '#(\\d+)';
+
+/**
+ * Compile a ticket pattern for repeated matching.
+ * Throws if it is not a valid regular expression.
+ */
+export function compileTicketPattern(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern, 'g');
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    throw new Error(`Invalid ticket pattern: ${msg}`);
+  }
+}
+
+/**
+ * The ticket references of one log message, deduplicated by id, in order of appearance.
+ * `pattern` must come from compileTicketPattern (global flag set).
+ */
+export function extractTickets(message: string, pattern: RegExp): { id: string; ref: string }[] {
+  const found = new Map<string, string>();
+  for (const match of message.matchAll(pattern)) {
+    if (!match[0]) continue;
+    const id = match[1] ?? match[0];
+    if (!found.has(id)) found.set(id, match[0]);
+  }
+  return [...found].map(([id, ref]) => ({ id, ref }));
+}
+
+/**
+ * Collect the tickets referenced by the given revisions' log messages.
+ * Each ticket appears once, in order of first reference, with every revision that names it.
+ */
+export function collectTickets(revisions: number[], messages: Map<number, string>, config: TicketConfig): Ticket[] {
+  const pattern = compileTicketPattern(config.pattern);
+  const tickets = new Map<string, Ticket>();
+  for (const rev of revisions) {
+    for (const { id, ref } of extractTickets(messages.get(rev) ?? '', pattern)) {
+      let ticket = tickets.get(id);
+      if (!ticket) {
+        ticket = { id, ref, revisions: [] };
+        if (config.url) ticket.url = config.url.split('{id}').join(id);
+        tickets.set(id, ticket);
+      }
+      if (!ticket.revisions.includes(rev)) ticket.revisions.push(rev);
+    }
+  }
+  return [...tickets.values()];
+}
+
+/**
+ * True when a ticket given on the command line (`88279` or `#88279`) is one
+ * of the references.
+ */
+export function referencesTicket(refs: { id: string; ref: string }[], ticket: string): boolean {
+  const wanted = ticket.trim().toLowerCase();
+  return refs.some((r) => r.id.toLowerCase() === wanted || r.ref.toLowerCase() === wanted);
+}
+
+/**
+ * The Tickets section of the merge message, one ticket per line:
+ *   Tickets (2):
+ *     #88279  https://tracker.example.com/88279
+ *     #88300
+ * Empty when there are no tickets.
+ */
+export function formatTicketSection(tickets: Ticket[]): string {
+  if (tickets.length === 0) return '';
+  return [
+    `Tickets (${tickets.length}):`,
+    ...tickets.map((t) => `  ${t.ref}${t.url ? `  ${t.url}` : ''}`),
+  ].join('\n');
+}
+
+/**
+ * Validate the `tickets:` section of a config file:
+ *   tickets:
+ *     pattern: "(?:#|PROJ-)(\\d+)"
+ *     url: https://tracker.example.com/issue/{id}
+ * A plain string is taken as the pattern. Throws with `where` in the message.
+ */
+export function parseTicketConfig(value: unknown, where: string): TicketConfig {
+  const doc = typeof value === 'string' ? { pattern: value } : value;
+  if (!doc || typeof doc !== 'object' || Array.isArray(doc)) {
+    throw new Error(`"tickets" in ${where} must be a pattern or a mapping with "pattern" and "url".`);
+  }
+  const result: TicketConfig = { pattern: DEFAULT_TICKET_PATTERN };
+  for (const [key, raw] of Object.entries(doc)) {
+    if (key !== 'pattern' && key !== 'url') {
+      throw new Error(`Unknown key "tickets.${key}" in ${where}. Use pattern or url.`);
+    }
+    if (typeof raw !== 'string' || !raw.trim()) {
+      throw new Error(`"tickets.${key}" in ${where} must be a non-empty string.`);
+    }
+    result[key] = raw.trim();
+  }
+  try {
+    compileTicketPattern(result.pattern);
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    throw new Error(`${msg} (in ${where})`);
+  }
+  return result;
+}
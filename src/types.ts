@@ -9,6 +9,131 @@ export interface MergeOptions {
   ignorePaths?: string[];
   /** When true, print ignored/reverted entries on the console */
   verbose?: boolean;
+  /** Conflict resolution rules from the `resolve:` config section, first match wins */
+  resolveRules?: ResolveRule[];
+  /** Filter that selected the revisions (recorded in the log header) */
+  filter?: RevisionFilter;
+  /** Undo the revisions (`svn merge -c -N`) instead of merging them (--reverse) */
+  reverse?: boolean;
+  /**
+   * Commit every revision right after it is merged, with its own log message
+   * (--commit-each). The run stops at the first revision that fails or leaves
+   * conflicts unresolved.
+   */
+  commitEach?: boolean;
+  /** Commit message format from the `message:` config sections */
+  message?: MessageTemplate;
+  /** Ticket extraction for the message's Tickets section (`tickets:` config) */
+  tickets?: TicketConfig;
+}
+
+/**
+ * Commit message format (`message:` in svnmerge.yaml or .svnmergerc).
+ * Templates use {placeholder} fields; unset parts keep the built-in format.
+ */
+export interface MessageTemplate {
+  /** Whole message: {verb} {branch} {revisions} {count} {authors} {entries} {conflicts} {ignored} {tickets} */
+  template?: string;
+  /** One merged revision, joined into {entries}: {rev} {author} {date} {body} */
+  entry?: string;
+  /** Keep only the first line of each log message */
+  firstLine?: boolean;
+}
+
+/**
+ * Narrows a revision list using the log data (--author, --grep, --since,
+ * --until, --touching). Every field that is set must match.
+ */
+export interface RevisionFilter {
+  /** Commit authors; any of them matches (case-insensitive) */
+  authors?: string[];
+  /** Regular expression searched in the log message (case-insensitive) */
+  grep?: string;
+  /** Earliest commit date: YYYY-MM-DD, an ISO 8601 timestamp, or an age like 7d, 2w, 12h */
+  since?: string;
+  /** Latest commit date, same formats as `since`; a plain date includes the whole day */
+  until?: string;
+  /** Branch-relative path patterns; a revision matches if it changed any path below one of them */
+  touching?: string[];
+  /** Ticket ids; a revision matches if its log message references any of them (--ticket) */
+  tickets?: string[];
+}
+
+/**
+ * How ticket references are found in log messages (`tickets:` config).
+ */
+export interface TicketConfig {
+  /** Regular expression; the first capture group (or the whole match) is the ticket id */
+  pattern: string;
+  /** Link for a ticket, with {id} replaced by the ticket id */
+  url?: string;
+}
+
+/**
+ * A ticket referenced by one or more revisions.
+ */
+export interface Ticket {
+  id: string;
+  /** The reference as written in the log message, e.g. `#88279` */
+  ref: string;
+  url?: string;
+  /** Revisions whose log message references the ticket */
+  revisions: number[];
+}
+
+/**
+ * Stage of a merge run at which `hooks:` commands are run.
+ */
+export type HookStage = 'pre-merge' | 'post-revision' | 'pre-commit' | 'post-commit' | 'on-failure';
+
+/**
+ * Shell commands per stage (`hooks:` config), run in order in the working copy.
+ */
+export type HookConfig = Partial<Record<HookStage, string[]>>;
+
+/**
+ * One executed hook command.
+ */
+export interface HookRun {
+  stage: HookStage;
+  command: string;
+  /** Exit status; -1 when the command could not be started or was killed by a signal */
+  exitCode: number;
+  /** Source revision, for post-revision and --commit-each pre/post-commit hooks */
+  revision?: number;
+  durationMs: number;
+}
+
+/**
+ * Severity of a log line or event; anything below the --log-level is not written.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * One event of the JSONL event log (`svnmerge-<ts>.events.jsonl`), written
+ * with a timestamp and level. Paths are workspace-relative.
+ */
+export type LogEvent =
+  | { event: 'run-start'; workspace: string; fromUrl: string; revisions: number[]; reverse: boolean }
+  | { event: 'revision-start'; revision: number }
+  | { event: 'svn'; args: string[]; exitCode: number; durationMs: number }
+  | { event: 'conflict'; revision: number; path: string; type: ConflictType; isDirectory: boolean; resolution: ResolveStrategy; ignored: boolean }
+  | { event: 'resolve'; revision: number; path: string; accept: ResolveStrategy; success: boolean; error?: string }
+  | { event: 'backup'; revision: number; path: string; files: string[] }
+  | { event: 'revert'; revision: number; path: string; ignoredBy?: string; success: boolean; error?: string }
+  | { event: 'revision-end'; revision: number; success: boolean; conflicts: number; error?: string }
+  | { event: 'commit'; revision?: number; committedRevision?: number; success: boolean; error?: string }
+  | { event: 'run-end'; succeeded: number; withConflicts: number; failed: number };
+
+/**
+ * Which earlier runs have their logs and reports deleted from the output
+ * directory at startup (`retention:` config). Both limits may be set.
+ */
+export interface RetentionPolicy {
+  /** Keep the files of at most this many earlier runs */
+  maxCount?: number;
+  /** Delete the files of runs older than this age: 12h, 30d, 8w */
+  maxAge?: string;
 }
 
 /**
@@ -16,16 +141,61 @@ export interface MergeOptions {
  */
 export type ConflictType = 'text' | 'tree' | 'property';
 
+/**
+ * Strategy used to resolve a conflict (`svn resolve --accept <strategy>`).
+ * 'postpone' leaves the conflict unresolved for a human; 'fail' also leaves it
+ * unresolved and marks the whole revision as failed.
+ */
+export type ResolveStrategy =
+  | 'working'
+  | 'mine-full'
+  | 'theirs-full'
+  | 'mine-conflict'
+  | 'theirs-conflict'
+  | 'base'
+  | 'postpone'
+  | 'fail';
+
+/**
+ * A conflict resolution rule from the `resolve:` config section.
+ */
+export interface ResolveRule {
+  /** Workspace-relative path pattern; omitted = any path */
+  path?: string;
+  /** Conflict types the rule applies to; omitted = all types */
+  types?: ConflictType[];
+  /** Incoming tree-conflict actions the rule applies to (tree conflicts only) */
+  incoming?: string[];
+  /** Local tree-conflict states the rule applies to (tree conflicts only) */
+  local?: string[];
+  accept: ResolveStrategy;
+}
+
 /**
  * Details about a specific conflict
  */
 export interface ConflictInfo {
   path: string;
   type: ConflictType;
-  resolution: 'working' | 'theirs-full';
+  resolution: ResolveStrategy;
+  /** Description of the `resolve:` rule that chose the resolution (undefined = built-in default) */
+  rule?: string;
+  /** True when the resolution was chosen at the --interactive prompt */
+  interactive?: boolean;
   isDirectory: boolean;
+  /** What happened, for tree conflicts (missing if svn info could not describe it) */
+  treeConflict?: TreeConflictDetails;
   /** True when this conflict was silently discarded due to ignore-merge config */
   ignored: boolean;
+  /** The ignore pattern that matched this path (set when ignored) */
+  ignoredBy?: string;
+  /** Copies of svn's conflict files (.working, .merge-left, .merge-right) taken before resolving */
+  backup?: string[];
+  /**
+   * Predictions only: `incoming`/`local` rules (`<rule> → <accept>`) that may apply
+   * but cannot be checked, because a dry run does not describe tree conflicts
+   */
+  unknownRules?: string[];
 }
 
 /**
@@ -35,6 +205,8 @@ export interface ConflictInfo {
 export interface RevertedInfo {
   path: string;
   isDirectory: boolean;
+  /** The ignore pattern that matched this path */
+  ignoredBy?: string;
 }
 
 /**
@@ -49,6 +221,8 @@ export interface RevisionMergeResult {
   /** All non-reverted paths that were modified by this revision (for selective commit) */
   modified: { path: string; isDirectory: boolean }[];
   errorMessage?: string;
+  /** Revision created by committing this revision on its own (--commit-each) */
+  committedRevision?: number;
 }
 
 /**
@@ -60,4 +234,137 @@ export interface MergeSummary {
   withConflicts: number;
   failed: number;
   results: RevisionMergeResult[];
+  /** Revision at which --commit-each stopped; later revisions were not merged */
+  stoppedAt?: number;
+}
+
+/**
+ * Persisted state of a merge run, written to the output directory after every
+ * revision so an interrupted run can be continued with --resume.
+ */
+export interface MergeSession {
+  version: 1;
+  /** Start timestamp (yyyymmddhhmmss) of the run that created the session */
+  startTs: string;
+  /** 'running' until the summary, message and optional commit have been produced */
+  status: 'running' | 'completed';
+  options: MergeOptions;
+  /** Results of every revision processed so far, in merge order */
+  results: RevisionMergeResult[];
+  /** Log files written by the original run and every resumed run */
+  logFiles: string[];
+  /** Merge message generated by the last run that reached the summary */
+  message?: string;
+  /** Auto-commit outcome of the last run that reached the summary */
+  commit?: CommitOutcome;
+}
+
+/**
+ * Outcome of the auto-commit step.
+ */
+export interface CommitOutcome {
+  /** 'disabled' when auto-commit was not requested */
+  status: 'committed' | 'skipped' | 'failed' | 'disabled';
+  /** New revision number when status is 'committed' */
+  revision?: number;
+  /** Skip reason or error message */
+  message?: string;
+}
+
+/**
+ * What to do with the remaining target working copies after one of them fails
+ * (`on-target-failure` / --on-target-failure): stop, or continue with the next.
+ */
+export type TargetFailurePolicy = 'stop' | 'continue';
+
+/**
+ * What to do when the working copy has uncommitted changes before a merge
+ * (`on-dirty` / --on-dirty): abort, continue with the changes in place, or
+ * stash them to a patch file and revert them.
+ */
+export type DirtyPolicy = 'abort' | 'continue' | 'stash';
+
+/**
+ * Node kind as reported by svn.
+ */
+export type NodeKind = 'file' | 'dir' | 'none' | 'unknown';
+
+/**
+ * One entry of `svn status --xml`.
+ */
+export interface StatusEntry {
+  path: string;
+  /** wc-status item: normal, modified, added, deleted, conflicted, unversioned, external, ... */
+  item: string;
+  /** wc-status props: none, normal, modified, conflicted */
+  props: string;
+  treeConflicted: boolean;
+}
+
+/**
+ * One side of a conflict: the repository location and node kind involved.
+ */
+export interface ConflictVersion {
+  /** source-left, source-right (merge) */
+  side: string;
+  kind: NodeKind;
+  pathInRepos: string;
+  reposUrl: string;
+  revision: number;
+}
+
+/**
+ * Tree conflict description from `svn info --xml`.
+ */
+export interface TreeConflictDetails {
+  /** Operation that raised the conflict: merge, update, switch */
+  operation: string;
+  /** Incoming change: edit, add, delete, replace */
+  action: string;
+  /** Local state: edit, obstruction, delete, missing, unversioned, add, replace, moved-away, moved-here */
+  reason: string;
+  /** Node kind of the conflict victim */
+  victimKind: NodeKind;
+  versions: ConflictVersion[];
+}
+
+/**
+ * Conflict marker files of a text or property conflict (absolute paths).
+ */
+export interface ConflictFiles {
+  /** Common ancestor (.merge-left) */
+  base?: string;
+  /** Local version (.working / .mine) */
+  mine?: string;
+  /** Incoming version (.merge-right) */
+  theirs?: string;
+  /** Property reject file (.prej) */
+  propReject?: string;
+}
+
+/**
+ * One entry of `svn info --xml`.
+ */
+export interface InfoEntry {
+  path: string;
+  kind: NodeKind;
+  url: string;
+  revision: number;
+  lastChangedAuthor?: string;
+  lastChangedDate?: string;
+  treeConflict?: TreeConflictDetails;
+  conflictFiles?: ConflictFiles;
+}
+
+/**
+ * One entry of `svn log --xml`.
+ */
+export interface LogEntry {
+  revision: number;
+  author: string;
+  /** ISO 8601 timestamp (UTC) */
+  date: string;
+  message: string;
+  /** Changed paths, repository-absolute (only with a verbose log) */
+  paths?: { path: string; action: string; kind: NodeKind }[];
 }
@@ -4,6 +4,9 @@ import { load as yamlLoad } from 'js-yaml';
 import * as os from 'os';
 import * as path from 'path';
 
+import { parseMessageTemplate } from './message';
+import { MessageTemplate } from './types';
+
 const RC_PATH = path.join(os.homedir(), '.svnmergerc');
 
 function getStateDir(): string {
@@ -40,6 +43,21 @@ checkInterval: 86400
 # Copy merge message to clipboard after each run
 # Set to false to disable
 copyToClipboard: true
+
+# External merge tool offered by --interactive for text conflicts
+# Placeholders: {base} {mine} {theirs} {merged}
+# mergeTool: code --wait --merge {mine} {theirs} {base} {merged}
+
+# Commit message format (a "message:" section in svnmerge.yaml overrides each key)
+# template fields: {verb} {branch} {revisions} {count} {authors} {entries} {conflicts} {ignored}
+# entry fields:    {rev} {author} {date} {body}
+# message:
+#   template: |
+#     {verb} revision(s) {revisions} from {branch}:
+#     {entries}
+#     {conflicts}
+#   entry: "r{rev} {author} {date}: {body}"
+#   first-line: true
 `;
 
 // ─── RC Config ────────────────────────────────────────────────────────────────
@@ -49,6 +67,10 @@ export interface RcConfig {
   checkInterval: number;
   globalIgnore: string[];
   copyToClipboard: boolean;
+  /** External merge tool command for --interactive (with {base} {mine} {theirs} {merged}) */
+  mergeTool?: string;
+  /** Default commit message format */
+  message?: MessageTemplate;
 }
 
 function loadOrCreateRc(): RcConfig {
@@ -67,12 +89,26 @@ function loadOrCreateRc(): RcConfig {
     const globalIgnore: string[] = Array.isArray(gi)
       ? gi.filter((x) => typeof x === 'string' && x.trim()).map((x) => (x as string).trim())
       : [];
+    let message: MessageTemplate | undefined;
+    if (parsed['message'] !== undefined) {
+      try {
+        message = parseMessageTemplate(parsed['message'], RC_PATH);
+      } catch (e: unknown) {
+        const msg = e instanceof Error ? e.message : String(e);
+        console.log(YELLOW(`Ignoring the message format: ${msg}`));
+      }
+    }
     return {
       checkUpdate: parsed['checkUpdate'] !== false,
       checkInterval:
         typeof parsed['checkInterval'] === 'number' ? parsed['checkInterval'] : 86400,
       globalIgnore,
       copyToClipboard: parsed['copyToClipboard'] !== false,
+      mergeTool:
+        typeof parsed['mergeTool'] === 'string' && parsed['mergeTool'].trim()
+          ? parsed['mergeTool'].trim()
+          : undefined,
+      message,
     };
   } catch {
     return { checkUpdate: true, checkInterval: 86400, globalIgnore: [], copyToClipboard: true };
@@ -1,7 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 
-import { ConflictType } from './types';
+import { CommitOutcome, ConflictType, ResolveRule, RevisionMergeResult, TreeConflictDetails } from './types';
 
 /**
  * Return a workspace-relative path, using forward slashes.
@@ -36,21 +36,245 @@ function normPath(p: string): string {
 }
 
 /**
- * Check whether `absPath` matches any entry in `ignorePaths`.
- * `ignorePaths` contains workspace-relative paths (files or folders).
- * A folder entry also matches any file/folder nested inside it.
+ * A path pattern compiled for matching against normalised workspace-relative paths.
  */
-export function isIgnored(absPath: string, workspace: string, ignorePaths: string[]): boolean {
-  if (ignorePaths.length === 0) return false;
+interface CompiledPattern {
+  /** Original pattern text, as written in the config or on the command line */
+  source: string;
+  negated: boolean;
+  /** Pattern ended with '/': matches directories only */
+  dirOnly: boolean;
+  regex: RegExp;
+}
+
+const patternCache = new Map<string, CompiledPattern>();
+
+/** Convert a gitignore-style glob body to a regular expression source. */
+function globToRegex(glob: string): string {
+  let re = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        if (glob[i + 2] === '/') {
+          // "**/" — zero or more leading directories
+          re += '(?:.*/)?';
+          i += 2;
+        } else {
+          re += '.*';
+          i += 1;
+        }
+      } else {
+        re += '[^/]*';
+      }
+    } else if (ch === '?') {
+      re += '[^/]';
+    } else if (ch === '[') {
+      const close = glob.indexOf(']', i + 2);
+      if (close === -1) {
+        re += '\\[';
+      } else {
+        let cls = glob.slice(i + 1, close);
+        if (cls.startsWith('!')) cls = '^' + cls.slice(1);
+        re += `[${cls.replace(/\\/g, '\\\\')}]`;
+        i = close;
+      }
+    } else {
+      re += ch.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  return re;
+}
+
+/**
+ * Compile an ignore/resolve path pattern.
+ *
+ * - Plain paths (no `*`, `?` or `[`) match the path itself and everything
+ *   below it, relative to the workspace root.
+ * - Globs follow gitignore rules: `*` and `?` stay within one segment, `**`
+ *   spans segments, a trailing `/` matches directories only, and a pattern
+ *   without a slash (other than a trailing one) matches at any depth.
+ *   A leading `/` anchors a pattern to the workspace root.
+ * - A leading `!` negates the pattern (handled by the caller).
+ */
+function compilePattern(pattern: string): CompiledPattern {
+  const cached = patternCache.get(pattern);
+  if (cached) return cached;
+
+  let body = pattern.trim().replace(/\\/g, '/');
+  const negated = body.startsWith('!');
+  if (negated) body = body.slice(1);
+
+  let compiled: CompiledPattern;
+  if (!/[*?[]/.test(body)) {
+    const norm = normPath(body.replace(/^\/+/, ''));
+    compiled = { source: pattern, negated, dirOnly: false, regex: new RegExp(`^${globToRegex(norm)}$`) };
+  } else {
+    const dirOnly = body.endsWith('/');
+    body = body.replace(/\/+$/, '');
+    const anchored = body.includes('/');
+    body = body.replace(/^\/+/, '');
+    const prefix = anchored ? '^' : '^(?:.*/)?';
+    compiled = { source: pattern, negated, dirOnly, regex: new RegExp(`${prefix}${globToRegex(body)}$`, 'i') };
+  }
+  patternCache.set(pattern, compiled);
+  return compiled;
+}
+
+/**
+ * Check whether a normalised workspace-relative path matches a compiled pattern.
+ * A pattern that matches a parent folder also matches everything nested inside it.
+ */
+function matchesPattern(rel: string, compiled: CompiledPattern, isDirectory?: boolean): boolean {
+  // The path itself (directory-only patterns need a directory, or unknown kind)
+  if ((!compiled.dirOnly || isDirectory !== false) && compiled.regex.test(rel)) return true;
+  // Any ancestor folder
+  for (let i = rel.lastIndexOf('/'); i > 0; i = rel.lastIndexOf('/', i - 1)) {
+    if (compiled.regex.test(rel.slice(0, i))) return true;
+  }
+  return false;
+}
+
+/**
+ * Find the ignore pattern that decides whether `absPath` is ignored.
+ * `ignorePaths` contains workspace-relative paths or gitignore-style globs;
+ * patterns are evaluated in order and the last match wins, so a later `!pattern`
+ * re-includes paths excluded by an earlier one (including single files inside
+ * an ignored folder).
+ * Returns the deciding pattern, or undefined when the path is not ignored.
+ */
+export function matchIgnore(
+  absPath: string,
+  workspace: string,
+  ignorePaths: string[],
+  isDirectory?: boolean
+): string | undefined {
+  if (ignorePaths.length === 0) return undefined;
   const rel = normPath(relPath(absPath, workspace));
+  let decided: CompiledPattern | undefined;
   for (const pattern of ignorePaths) {
-    const norm = normPath(pattern);
-    // Exact match or absPath is inside the ignored directory
-    if (rel === norm || rel.startsWith(norm + '/')) {
-      return true;
+    const compiled = compilePattern(pattern);
+    if (matchesPattern(rel, compiled, isDirectory)) decided = compiled;
+  }
+  return decided && !decided.negated ? decided.source : undefined;
+}
+
+/**
+ * Check whether `absPath` matches the `ignorePaths` patterns (see matchIgnore).
+ */
+export function isIgnored(absPath: string, workspace: string, ignorePaths: string[], isDirectory?: boolean): boolean {
+  return matchIgnore(absPath, workspace, ignorePaths, isDirectory) !== undefined;
+}
+
+/**
+ * Check whether a relative path matches one ignore-style pattern
+ * (the path itself or any folder above it).
+ */
+export function matchesPath(rel: string, pattern: string): boolean {
+  return matchesPattern(normPath(rel), compilePattern(pattern));
+}
+
+/**
+ * Find the first `resolve:` rule that applies to a conflict of `type` at `absPath`.
+ * Returns undefined when no rule matches (the built-in default applies).
+ */
+export function findResolveRule(
+  absPath: string,
+  workspace: string,
+  type: ConflictType,
+  rules: ResolveRule[],
+  tree?: TreeConflictDetails
+): ResolveRule | undefined {
+  const rel = normPath(relPath(absPath, workspace));
+  return rules.find((rule) =>
+    (!rule.types || rule.types.includes(type)) &&
+    (!rule.incoming || (tree !== undefined && rule.incoming.includes(tree.action))) &&
+    (!rule.local || (tree !== undefined && rule.local.includes(tree.reason))) &&
+    (rule.path === undefined || matchesPattern(rel, compilePattern(rule.path)))
+  );
+}
+
+/**
+ * Short human-readable label for a resolve rule, e.g. `Config/Localization [text]`.
+ */
+export function describeRule(rule: ResolveRule): string {
+  const where = rule.path ?? '*';
+  const filters = [
+    ...(rule.types ? [rule.types.join(',')] : []),
+    ...(rule.incoming ? [`incoming ${rule.incoming.join('|')}`] : []),
+    ...(rule.local ? [`local ${rule.local.join('|')}`] : []),
+  ];
+  return filters.length > 0 ? `${where} [${filters.join(', ')}]` : where;
+}
+
+/**
+ * Short description of a tree conflict, e.g.
+ * `incoming file delete vs local file edit` (prefixed with the operation unless it is a merge).
+ * The incoming node kind comes from the source-right version, or source-left for deletes.
+ */
+export function describeTreeConflict(tree: TreeConflictDetails): string {
+  const side = tree.action === 'delete' ? 'source-left' : 'source-right';
+  const incomingKind = tree.versions.find((v) => v.side === side)?.kind;
+  const kind = (k: string | undefined) => (k === 'file' || k === 'dir' ? `${k} ` : '');
+  const text = `incoming ${kind(incomingKind)}${tree.action} vs local ${kind(tree.victimKind)}${tree.reason}`;
+  return tree.operation === 'merge' ? text : `${tree.operation}: ${text}`;
+}
+
+/**
+ * Resolution label for display: `theirs-full`, `mine-full, rule: Config [text]`
+ * when a configured rule chose it, or `working, interactive` when chosen at the prompt.
+ */
+export function formatResolution(resolution: string, rule?: string, interactive?: boolean): string {
+  if (interactive) return `${resolution}, interactive`;
+  return rule ? `${resolution}, rule: ${rule}` : resolution;
+}
+
+/**
+ * Label for an ignored entry: `ignored`, or `ignored by *.meta` when the pattern is known.
+ */
+export function formatIgnored(pattern?: string): string {
+  return pattern ? `ignored by ${pattern}` : 'ignored';
+}
+
+/**
+ * Parse a revision list such as "1001,1002-1005,1008" into revision numbers,
+ * in the given order. Throws on empty lists, malformed entries and reversed ranges.
+ */
+export function parseRevisionList(value: string): number[] {
+  const rawRevisions = value
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  if (rawRevisions.length === 0) {
+    throw new Error('No revisions specified. Use e.g. 1001,1002,1003');
+  }
+
+  const revisions: number[] = [];
+  for (const raw of rawRevisions) {
+    // Support range syntax: e.g. "84597-84608"
+    const rangeMatch = raw.match(/^(\d+)-(\d+)$/);
+    if (rangeMatch) {
+      const from = parseInt(rangeMatch[1], 10);
+      const to = parseInt(rangeMatch[2], 10);
+      if (from <= 0 || to <= 0) {
+        throw new Error(`Invalid revision range "${raw}". Revisions must be positive integers.`);
+      }
+      if (from > to) {
+        throw new Error(`Invalid revision range "${raw}": start must be <= end.`);
+      }
+      for (let rev = from; rev <= to; rev++) {
+        revisions.push(rev);
+      }
+    } else {
+      const n = parseInt(raw, 10);
+      if (isNaN(n) || n <= 0) {
+        throw new Error(`Invalid revision "${raw}". Use integers or ranges like 1001-1005.`);
+      }
+      revisions.push(n);
     }
   }
-  return false;
+  return revisions;
 }
 
 /**
@@ -116,7 +340,15 @@ export interface SummaryEntry {
   isDirectory: boolean;
   relPath: string;
   resolution: string;
+  /** Resolve rule that chose the resolution, if any */
+  rule?: string;
+  /** Resolution chosen at the interactive prompt */
+  interactive?: boolean;
+  /** Tree conflict description, if known */
+  treeConflict?: TreeConflictDetails;
   ignored: boolean;
+  /** Ignore pattern that matched, if ignored */
+  ignoredBy?: string;
 }
 
 /**
@@ -124,7 +356,7 @@ export interface SummaryEntry {
  * group by type (tree → text → property), and sort by path within each group.
  */
 export function groupSummaryByType(
-  results: Array<{ conflicts: Array<{ type: ConflictType; isDirectory: boolean; path: string; resolution: string; ignored: boolean }> }>,
+  results: Array<{ conflicts: Array<{ type: ConflictType; isDirectory: boolean; path: string; resolution: string; rule?: string; interactive?: boolean; treeConflict?: TreeConflictDetails; ignored: boolean; ignoredBy?: string }> }>,
   workspace: string
 ): Map<ConflictType, SummaryEntry[]> {
   const seen = new Set<string>();
@@ -145,7 +377,11 @@ export function groupSummaryByType(
         isDirectory: c.isDirectory,
         relPath: rel,
         resolution: c.ignored ? 'ignored' : c.resolution,
+        rule: c.ignored ? undefined : c.rule,
+        interactive: c.ignored ? undefined : c.interactive,
+        treeConflict: c.treeConflict,
         ignored: c.ignored,
+        ignoredBy: c.ignoredBy,
       });
     }
   }
@@ -163,16 +399,164 @@ export function groupSummaryByType(
 
 /**
  * Format a single conflict line for display:
- *   [TREE][D] src/module/foo/bar   (working)
+ *   [TREE][D] src/module/foo/bar   (working)  incoming dir delete vs local dir edit
  *   [TEXT][F] src/config/hero/buff.xlsx   (theirs-full)
  */
 export function formatConflictLine(
   type: ConflictType,
   directory: boolean,
   rel: string,
-  resolution: string
+  resolution: string,
+  tree?: TreeConflictDetails
 ): string {
   const typeTag = `[${type.toUpperCase().padEnd(8)}]`;
   const kindTag = directory ? '[D]' : '[F]';
-  return `${typeTag}${kindTag}  ${rel}  (${resolution})`;
+  const detail = tree ? `  ${describeTreeConflict(tree)}` : '';
+  return `${typeTag}${kindTag}  ${rel}  (${resolution})${detail}`;
+}
+
+/**
+ * Sub-folder of each target in a shared output directory: the working copy
+ * folder name, or for targets that share one, the full path with its separators
+ * turned into dashes (`/wc/a/release` → `wc-a-release`), so no two targets
+ * write their logs, sessions and backups into the same folder.
+ */
+export function targetFolderNames(workspaces: string[]): string[] {
+  const names = workspaces.map((w) => path.basename(w));
+  return workspaces.map((w, i) =>
+    names.indexOf(names[i]) === names.lastIndexOf(names[i]) ? names[i] : dashedPath(w)
+  );
+}
+
+/** Full path of a working copy with its separators turned into dashes */
+function dashedPath(workspace: string): string {
+  return workspace.replace(/[\\/:]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Output directory of each target working copy, where merge runs write their
+ * logs, sessions and reports: `.svnmerge` inside it by default, a relative
+ * `output` inside it, and an absolute `output` as is for a single target or
+ * with a sub-folder per target (see targetFolderNames).
+ */
+export function targetOutputDirs(workspaces: string[], output?: string): string[] {
+  const folders = targetFolderNames(workspaces);
+  return workspaces.map((workspace, i) => {
+    if (!output) return path.join(workspace, '.svnmerge');
+    if (!path.isAbsolute(output)) return path.resolve(workspace, output);
+    // A shared directory gets one sub-folder per target so logs and sessions stay apart
+    return workspaces.length > 1 ? path.join(output, folders[i]) : output;
+  });
+}
+
+/**
+ * Output directory of a single working copy for the subcommands that read past
+ * runs. Like targetOutputDirs, except that an absolute `output` without runs of
+ * its own falls back to the sub-folder a multi-target run gave the working copy.
+ */
+export function findTargetOutputDir(workspace: string, output?: string): string {
+  const [dir] = targetOutputDirs([workspace], output);
+  if (!output || !path.isAbsolute(output)) return dir;
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir);
+  } catch {
+    files = [];
+  }
+  if (files.some((f) => /^svnmerge-\d{14}\./.test(f))) return dir;
+  const subfolders = [path.basename(workspace), dashedPath(workspace)].map((f) => path.join(output, f));
+  return subfolders.find((d) => fs.existsSync(d)) ?? dir;
+}
+
+/** One column of the fan-out result matrix: a target working copy. */
+export interface TargetColumn {
+  label: string;
+  /** Revision results (empty when the target stopped before merging) */
+  results: RevisionMergeResult[];
+  commit?: CommitOutcome;
+}
+
+/** Matrix cell for one revision: ok, resolved, conflict (left unresolved) or FAILED. */
+function revisionCell(result: RevisionMergeResult): string {
+  if (!result.success) return 'FAILED';
+  const active = result.conflicts.filter((c) => !c.ignored);
+  if (active.some((c) => c.resolution === 'postpone')) return 'conflict';
+  return active.length > 0 ? 'resolved' : 'ok';
+}
+
+/**
+ * Format the revision × target matrix printed after a fan-out merge:
+ *   revision  rel-1.0   rel-1.1
+ *   r1001     ok        conflict
+ *   r1002     resolved  FAILED
+ *   commit    r5012     skipped
+ * Revisions appear in first-seen order; `-` marks a revision a target did not merge.
+ */
+export function formatTargetMatrix(columns: TargetColumn[]): string[] {
+  const revisions: number[] = [];
+  for (const column of columns) {
+    for (const r of column.results) {
+      if (!revisions.includes(r.revision)) revisions.push(r.revision);
+    }
+  }
+  const commitCell = (commit?: CommitOutcome): string => {
+    if (!commit || commit.status === 'disabled') return '-';
+    if (commit.status === 'committed') return commit.revision ? `r${commit.revision}` : 'committed';
+    return commit.status === 'failed' ? 'FAILED' : 'skipped';
+  };
+  const rows: string[][] = [
+    ['revision', ...columns.map((c) => c.label)],
+    ...revisions.map((rev) => [
+      `r${rev}`,
+      ...columns.map((c) => {
+        const result = c.results.find((r) => r.revision === rev);
+        return result ? revisionCell(result) : '-';
+      }),
+    ]),
+  ];
+  if (columns.some((c) => c.commit && c.commit.status !== 'disabled')) {
+    rows.push(['commit', ...columns.map((c) => commitCell(c.commit))]);
+  }
+  const widths = rows[0].map((_, i) => Math.max(...rows.map((row) => row[i].length)));
+  return rows.map((row) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd());
+}
+
+/**
+ * Process exit codes of a merge run. Scripts depend on these numbers,
+ * so existing values must never change.
+ */
+export const EXIT_CODES = {
+  /** Everything merged cleanly, or nothing was changed on purpose (dry-run) */
+  success: 0,
+  /** Invalid arguments, svn errors, failed revisions or a failed commit */
+  failure: 1,
+  /** Merged, but conflicts remain to review (auto-commit was skipped) */
+  conflicts: 2,
+  /** No eligible revision, or none matching the filter */
+  nothingToMerge: 3,
+  /** Declined at a prompt, or stopped by the dirty working copy policy */
+  aborted: 4,
+} as const;
+
+export type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES];
+
+/** Worst outcome first; nothing-to-merge only wins when every target had nothing to do. */
+const EXIT_CODE_PRIORITY: ExitCode[] = [
+  EXIT_CODES.failure, EXIT_CODES.conflicts, EXIT_CODES.aborted, EXIT_CODES.success, EXIT_CODES.nothingToMerge,
+];
+
+/** Exit code of a run over several targets: the most serious of their codes. */
+export function combineExitCodes(codes: ExitCode[]): ExitCode {
+  return EXIT_CODE_PRIORITY.find((code) => codes.includes(code)) ?? EXIT_CODES.success;
+}
+
+/** Status word of an exit code for the target list: ok, FAILED, conflicts, up to date, aborted. */
+export function describeExitCode(code: ExitCode): string {
+  switch (code) {
+    case EXIT_CODES.success: return 'ok';
+    case EXIT_CODES.failure: return 'FAILED';
+    case EXIT_CODES.conflicts: return 'conflicts';
+    case EXIT_CODES.nothingToMerge: return 'up to date';
+    case EXIT_CODES.aborted: return 'aborted';
+  }
 }
@@ -0,0 +1,116 @@
+/**
+ * Minimal XML reader for `svn --xml` output.
+ * Supports elements, attributes, text, CDATA, comments and the standard/numeric
+ * entities — enough for svn's own documents, not a general-purpose parser.
+ */
+
+export interface XmlElement {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlElement[];
+  /** Concatenated text content directly inside this element */
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (whole, ref: string) => {
+    if (ref[0] === '#') {
+      const code = ref[1] === 'x' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : whole;
+    }
+    return ENTITIES[ref] ?? whole;
+  });
+}
+
+/**
+ * Parse an XML document and return its root element.
+ * Throws if the document is not well-formed.
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attrs: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  const attrRe = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let i = 0;
+
+  while (i < xml.length) {
+    const lt = xml.indexOf('<', i);
+    const top = stack[stack.length - 1];
+    if (lt === -1) {
+      top.text += decodeEntities(xml.slice(i));
+      break;
+    }
+    if (lt > i) top.text += decodeEntities(xml.slice(i, lt));
+
+    if (xml.startsWith('<!--', lt)) {
+      const end = xml.indexOf('-->', lt + 4);
+      if (end === -1) throw new Error('Unterminated XML comment');
+      i = end + 3;
+    } else if (xml.startsWith('<![CDATA[', lt)) {
+      const end = xml.indexOf(']]>', lt + 9);
+      if (end === -1) throw new Error('Unterminated CDATA section');
+      top.text += xml.slice(lt + 9, end);
+      i = end + 3;
+    } else if (xml.startsWith('<?', lt) || xml.startsWith('<!', lt)) {
+      const end = xml.indexOf('>', lt);
+      if (end === -1) throw new Error('Unterminated XML declaration');
+      i = end + 1;
+    } else if (xml[lt + 1] === '/') {
+      const end = xml.indexOf('>', lt);
+      if (end === -1) throw new Error('Unterminated closing tag');
+      const name = xml.slice(lt + 2, end).trim();
+      if (stack.length < 2 || top.name !== name) {
+        throw new Error(`Unexpected closing tag </${name}>`);
+      }
+      stack.pop();
+      i = end + 1;
+    } else {
+      const end = xml.indexOf('>', lt);
+      if (end === -1) throw new Error('Unterminated opening tag');
+      let body = xml.slice(lt + 1, end);
+      const selfClosing = body.endsWith('/');
+      if (selfClosing) body = body.slice(0, -1);
+      const nameMatch = body.match(/^[^\s/>]+/);
+      if (!nameMatch) throw new Error('Malformed opening tag');
+      const element: XmlElement = { name: nameMatch[0], attrs: {}, children: [], text: '' };
+      const attrText = body.slice(nameMatch[0].length);
+      attrRe.lastIndex = 0;
+      let m: RegExpExecArray | null;
+      while ((m = attrRe.exec(attrText)) !== null) {
+        element.attrs[m[1]] = decodeEntities(m[3] ?? m[4] ?? '');
+      }
+      top.children.push(element);
+      if (!selfClosing) stack.push(element);
+      i = end + 1;
+    }
+  }
+
+  if (stack.length !== 1) {
+    throw new Error(`Unclosed XML element <${stack[stack.length - 1].name}>`);
+  }
+  const docRoot = root.children[0];
+  if (!docRoot) throw new Error('Empty XML document');
+  return docRoot;
+}
+
+/** First direct child element named `name`, if any. */
+export function child(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find((c) => c.name === name);
+}
+
+/** All direct child elements named `name`. */
+export function children(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((c) => c.name === name);
+}
+
+/** Text content of the first direct child named `name` ('' if missing). */
+export function childText(element: XmlElement, name: string): string {
+  return child(element, name)?.text ?? '';
+}
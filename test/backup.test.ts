@@ -0,0 +1,82 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { backupConflictFiles, backupDirPath, listBackups, localCopy, restoreLocal } from '../src/backup';
+
+describe('conflict backups', () => {
+  let dir: string;
+  let ws: string;
+  let outputDir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'svnmerge-backup-'));
+    ws = path.join(dir, 'wc');
+    outputDir = path.join(ws, '.svnmerge');
+    fs.mkdirSync(path.join(ws, 'src'), { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Leave svn's conflict files for src/hero.lua with the given local content (resolving removed the earlier ones). */
+  function conflict(local: string, revision: number): void {
+    for (const name of fs.readdirSync(path.join(ws, 'src')).filter((n) => n.startsWith('hero.lua.'))) {
+      fs.rmSync(path.join(ws, 'src', name));
+    }
+    fs.writeFileSync(path.join(ws, 'src/hero.lua'), 'merged', 'utf8');
+    fs.writeFileSync(path.join(ws, 'src/hero.lua.working'), local, 'utf8');
+    fs.writeFileSync(path.join(ws, `src/hero.lua.merge-left.r${revision - 1}`), 'left', 'utf8');
+    fs.writeFileSync(path.join(ws, `src/hero.lua.merge-right.r${revision}`), 'right', 'utf8');
+  }
+
+  it('copies only the conflict files of the path', () => {
+    conflict('local', 101);
+    fs.writeFileSync(path.join(ws, 'src/hero.lua.bak'), '', 'utf8');
+    fs.writeFileSync(path.join(ws, 'src/hero.luac.working'), '', 'utf8');
+    const backupDir = backupDirPath(outputDir, '20240315120000');
+
+    const files = backupConflictFiles(path.join(ws, 'src/hero.lua'), ws, 101, backupDir);
+
+    assert.deepEqual(files.map((f) => path.relative(backupDir, f).replace(/\\/g, '/')).sort(), [
+      'r101/src/hero.lua.merge-left.r100',
+      'r101/src/hero.lua.merge-right.r101',
+      'r101/src/hero.lua.working',
+    ]);
+    assert.deepEqual(backupConflictFiles(path.join(ws, 'src/other.lua'), ws, 101, backupDir), []);
+  });
+
+  it('lists the backups newest session first, then by revision', () => {
+    conflict('first', 101);
+    backupConflictFiles(path.join(ws, 'src/hero.lua'), ws, 101, backupDirPath(outputDir, '20240315120000'));
+    conflict('second', 105);
+    backupConflictFiles(path.join(ws, 'src/hero.lua'), ws, 105, backupDirPath(outputDir, '20240320090000'));
+
+    const entries = listBackups(outputDir);
+
+    assert.deepEqual(entries.map((e) => [e.startTs, e.revision, e.path, e.files.length]), [
+      ['20240320090000', 105, 'src/hero.lua', 3],
+      ['20240315120000', 101, 'src/hero.lua', 3],
+    ]);
+    assert.match(localCopy(entries[0])!, /r105[\\/]src[\\/]hero\.lua\.working$/);
+  });
+
+  it('restores the earliest local version of the newest session unless told otherwise', () => {
+    const backupDir = backupDirPath(outputDir, '20240315120000');
+    conflict('before r101', 101);
+    backupConflictFiles(path.join(ws, 'src/hero.lua'), ws, 101, backupDir);
+    conflict('before r102', 102);
+    backupConflictFiles(path.join(ws, 'src/hero.lua'), ws, 102, backupDir);
+    const content = () => fs.readFileSync(path.join(ws, 'src/hero.lua'), 'utf8');
+
+    assert.equal(restoreLocal(outputDir, ws, 'src/hero.lua').revision, 101);
+    assert.equal(content(), 'before r101');
+    restoreLocal(outputDir, ws, './src/hero.lua', { revision: 102 });
+    assert.equal(content(), 'before r102');
+    assert.throws(() => restoreLocal(outputDir, ws, 'src/hero.lua', { startTs: '2023' }), /No backup of the local version of "src\/hero\.lua" in session 2023/);
+    assert.throws(() => restoreLocal(outputDir, ws, 'src/other.lua'), /No backup of the local version of "src\/other\.lua"/);
+  });
+});
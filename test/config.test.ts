@@ -0,0 +1,105 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { listProfiles, loadConfig } from '../src/config';
+
+const CONFIG = `
+workspace: .
+from: http://svn.example.com/repos/project/trunk
+ignore:
+  - src/generated
+commit: false
+block: [1001, "1005-1006"]
+since: 2024-03-01
+profiles:
+  trunk: {}
+  hotfix:
+    from: http://svn.example.com/repos/project/branches/hotfix
+    ignore: [assets]
+    commit: true
+`;
+
+describe('loadConfig', () => {
+  let dir: string;
+  let configPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'svnmerge-config-'));
+    configPath = path.join(dir, 'svnmerge.yaml');
+    fs.writeFileSync(configPath, CONFIG, 'utf8');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('uses the top-level settings without a profile', () => {
+    const config = loadConfig(configPath);
+    assert.equal(config.workspace, dir);
+    assert.equal(config.from, 'http://svn.example.com/repos/project/trunk');
+    assert.deepEqual(config.ignore, ['src/generated']);
+    assert.deepEqual(config.block, [1001, 1005, 1006]);
+    assert.deepEqual(config.filter, { since: '2024-03-01' });
+    assert.deepEqual(config.profiles, ['trunk', 'hotfix']);
+    assert.equal(config.profile, undefined);
+  });
+
+  it('lets a profile replace top-level keys', () => {
+    const config = loadConfig(configPath, 'hotfix');
+    assert.equal(config.profile, 'hotfix');
+    assert.equal(config.workspace, dir);
+    assert.equal(config.from, 'http://svn.example.com/repos/project/branches/hotfix');
+    assert.deepEqual(config.ignore, ['assets']);
+    assert.equal(config.commit, true);
+  });
+
+  it('rejects unknown profiles and lists the available ones', () => {
+    assert.throws(() => loadConfig(configPath, 'vendor'), /Profile "vendor" not found .*Available: trunk, hotfix\./);
+  });
+
+  it('resolves targets against the config directory', () => {
+    fs.appendFileSync(configPath, 'targets: [rel-1.0, /abs/rel-1.1]\non-target-failure: continue\n', 'utf8');
+    const config = loadConfig(configPath);
+    assert.deepEqual(config.targets, [path.join(dir, 'rel-1.0'), '/abs/rel-1.1']);
+    assert.equal(config.onTargetFailure, 'continue');
+  });
+
+  it('rejects an unknown on-target-failure policy', () => {
+    fs.appendFileSync(configPath, 'on-target-failure: retry\n', 'utf8');
+    assert.throws(() => loadConfig(configPath), /"on-target-failure" .* must be stop or continue/);
+  });
+
+  it('reads hook commands per stage', () => {
+    fs.appendFileSync(configPath, 'hooks:\n  pre-merge: ./check.sh\n  post-commit: [./notify.sh, ./tag.sh]\n', 'utf8');
+    assert.deepEqual(loadConfig(configPath).hooks, { 'pre-merge': ['./check.sh'], 'post-commit': ['./notify.sh', './tag.sh'] });
+  });
+
+  it('accepts the incoming and local tokens svn reports for tree conflicts', () => {
+    fs.appendFileSync(configPath, 'resolve:\n  - { incoming: replace, local: [replace, moved-away], accept: fail }\n', 'utf8');
+    assert.deepEqual(loadConfig(configPath).resolve, [{ incoming: ['replace'], local: ['replace', 'moved-away'], accept: 'fail' }]);
+    fs.writeFileSync(configPath, 'resolve:\n  - { local: replaced, accept: fail }\n', 'utf8');
+    assert.throws(() => loadConfig(configPath), /"local" must be edit, .*, replace, .* or a list of them/);
+  });
+
+  it('reads the log level and the retention policy', () => {
+    fs.appendFileSync(configPath, 'log-level: debug\nretention:\n  max-count: 20\n  max-age: 4w\n', 'utf8');
+    const config = loadConfig(configPath);
+    assert.equal(config.logLevel, 'debug');
+    assert.deepEqual(config.retention, { maxCount: 20, maxAge: '4w' });
+  });
+
+  it('rejects an unknown log level', () => {
+    fs.appendFileSync(configPath, 'log-level: trace\n', 'utf8');
+    assert.throws(() => loadConfig(configPath), /"log-level" .* must be debug, info, warn, error/);
+  });
+
+  it('lists profiles with their source URL', () => {
+    assert.deepEqual(listProfiles(configPath), [
+      { name: 'trunk', from: 'http://svn.example.com/repos/project/trunk' },
+      { name: 'hotfix', from: 'http://svn.example.com/repos/project/branches/hotfix' },
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { findDependencies, formatDependencies } from '../src/dependencies';
+import { LogEntry } from '../src/types';
+
+const FROM = 'http://svn.example.com/repos/project/trunk';
+
+function entry(revision: number, message: string, paths: [string, string][]): [number, LogEntry] {
+  return [revision, {
+    revision,
+    author: 'dev',
+    date: '2024-03-01T10:00:00.000000Z',
+    message,
+    paths: paths.map(([action, p]) => ({ path: p, action, kind: 'file' })),
+  }];
+}
+
+const ENTRIES = new Map<number, LogEntry>([
+  entry(101, 'Add skill tables', [['A', '/trunk/config/skills'], ['A', '/trunk/config/skills/fire.xlsx']]),
+  entry(102, 'Fix hero buff', [['M', '/trunk/src/hero.lua'], ['M', '/trunk/src/ui.lua']]),
+  entry(103, 'Record merge', [['M', '/trunk']]),
+  entry(104, 'Unrelated', [['M', '/trunk/docs/readme.txt']]),
+  entry(105, 'Tune fire skill', [['M', '/trunk/config/skills/fire.xlsx'], ['M', '/trunk/src/hero.lua']]),
+  entry(106, 'Hero follow-up', [['M', '/trunk/src/hero.lua']]),
+]);
+
+describe('findDependencies', () => {
+  it('reports earlier unselected revisions that change the same paths', () => {
+    assert.deepEqual(findDependencies([105, 106], [101, 102, 103, 104, 105, 106], ENTRIES), [
+      { revision: 101, dependents: [105], paths: ['/trunk/config/skills', '/trunk/config/skills/fire.xlsx'] },
+      { revision: 102, dependents: [105, 106], paths: ['/trunk/src/hero.lua'] },
+    ]);
+  });
+
+  it('ignores later revisions and property changes on parent directories', () => {
+    assert.deepEqual(findDependencies([102], [101, 102, 103, 104, 105, 106], ENTRIES), []);
+    assert.deepEqual(findDependencies([104], [103, 104], ENTRIES), []);
+  });
+});
+
+describe('formatDependencies', () => {
+  it('lists the dependents, branch-relative paths and the first log line', () => {
+    const deps = findDependencies([105, 106], [102], ENTRIES);
+    assert.deepEqual(formatDependencies(deps, ENTRIES, FROM), ['r102 → r105, r106  src/hero.lua', '  Fix hero buff']);
+    const many = [{ revision: 101, dependents: [105], paths: ['/trunk/a', '/trunk/b', '/trunk/c', '/trunk/d'] }];
+    assert.equal(formatDependencies(many, ENTRIES, FROM)[0], 'r101 → r105  a, b, c (+1 more)');
+  });
+});
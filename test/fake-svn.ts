@@ -0,0 +1,247 @@
+import * as path from 'path';
+
+import { SvnBackend } from '../src/svn';
+import { ConflictInfo, ConflictType, InfoEntry, LogEntry, ResolveStrategy, TreeConflictDetails } from '../src/types';
+
+/**
+ * What merging one revision does to the fake working copy.
+ * Paths are workspace-relative with forward slashes.
+ */
+export interface FakeRevision {
+  message?: string;
+  author?: string;
+  /** ISO 8601 commit date */
+  date?: string;
+  /** Repository paths changed by the revision (verbose log) */
+  changedPaths?: string[];
+  /** Paths changed cleanly by the merge; a trailing '/' marks a directory */
+  modifies?: string[];
+  /** Conflicts raised by the merge */
+  conflicts?: { path: string; type: ConflictType; isDirectory?: boolean; treeConflict?: TreeConflictDetails }[];
+  /** Simulate a fatal `svn merge` error with this stderr */
+  error?: string;
+}
+
+interface FakeEntry {
+  isDirectory: boolean;
+  conflict?: ConflictType;
+  treeConflict?: TreeConflictDetails;
+}
+
+/**
+ * Scriptable in-memory SVN backend.
+ * Merging a revision applies its scripted modifications and conflicts to an
+ * in-memory working copy; every call is recorded in `calls`.
+ */
+export class FakeSvnBackend implements SvnBackend {
+  /** Every backend call, e.g. "merge 101" or "resolve theirs-full src/a.txt" */
+  readonly calls: string[] = [];
+  /** Paths (workspace-relative) for which `resolve` fails */
+  readonly failResolve = new Set<string>();
+  /** When set, `statusDirty` and `statusAfterMerge` throw this error (svn status failed or returned bad XML) */
+  failStatus?: string;
+  /** Messages and targets passed to `commit` */
+  readonly commits: { message: string; targets?: string[] }[] = [];
+  /** Working copy state: workspace-relative path → entry */
+  readonly entries = new Map<string, FakeEntry>();
+
+  private readonly eligible: Set<number>;
+  private nextCommit = 1000;
+
+  constructor(
+    readonly workspace: string,
+    readonly revisions: Record<number, FakeRevision>,
+  ) {
+    this.eligible = new Set(Object.keys(revisions).map(Number));
+  }
+
+  private abs(rel: string): string {
+    return path.join(this.workspace, rel);
+  }
+
+  private rel(absPath: string): string {
+    return path.relative(this.workspace, absPath).replace(/\\/g, '/');
+  }
+
+  info(workspace: string): InfoEntry {
+    this.calls.push('info');
+    return { path: workspace, kind: 'dir', url: 'http://svn.example.com/repos/project/branches/release', revision: 1 };
+  }
+
+  update(_workspace: string): void {
+    this.calls.push('update');
+  }
+
+  statusDirty(_workspace: string): string[] {
+    this.calls.push('status');
+    if (this.failStatus) throw new Error(this.failStatus);
+    return [...this.entries.entries()].map(([rel, e]) => `${e.conflict ? 'C' : 'M'}       ${this.abs(rel)}`);
+  }
+
+  statusAfterMerge(_workspace: string): {
+    conflicts: ConflictInfo[];
+    modifications: { path: string; isDirectory: boolean }[];
+  } {
+    this.calls.push('status');
+    if (this.failStatus) throw new Error(this.failStatus);
+    const conflicts: ConflictInfo[] = [];
+    const modifications: { path: string; isDirectory: boolean }[] = [];
+    for (const [rel, e] of this.entries) {
+      if (e.conflict) {
+        conflicts.push({
+          path: this.abs(rel),
+          type: e.conflict,
+          resolution: e.conflict === 'tree' ? 'working' : 'theirs-full',
+          isDirectory: e.isDirectory,
+          treeConflict: e.treeConflict,
+          ignored: false,
+        });
+      } else {
+        modifications.push({ path: this.abs(rel), isDirectory: e.isDirectory });
+      }
+    }
+    return { conflicts, modifications };
+  }
+
+  infoEntries(paths: string[], _workspace: string): Map<string, InfoEntry> {
+    this.calls.push(`info ${paths.map((p) => this.rel(p)).join(',')}`);
+    const result = new Map<string, InfoEntry>();
+    for (const p of paths) {
+      const entry = this.entries.get(this.rel(p));
+      if (entry) result.set(p, { path: p, kind: entry.isDirectory ? 'dir' : 'file', url: '', revision: 1 });
+    }
+    return result;
+  }
+
+  diff(filePath: string, _workspace: string): string {
+    this.calls.push(`diff ${this.rel(filePath)}`);
+    return '';
+  }
+
+  merge(revision: number, _fromUrl: string, _workspace: string, reverse = false): { stdout: string; stderr: string; exitCode: number } {
+    this.calls.push(`merge ${reverse ? -revision : revision}`);
+    const script = this.revisions[revision];
+    if (!script) {
+      return { stdout: '', stderr: `svn: E195012: Unable to find revision ${revision}`, exitCode: 1 };
+    }
+    if (script.error) {
+      return { stdout: '', stderr: script.error, exitCode: 1 };
+    }
+    const lines = [`--- ${reverse ? 'Reverse-merging' : 'Merging'} r${revision} into '.':`];
+    for (const p of script.modifies ?? []) {
+      const isDirectory = p.endsWith('/');
+      const rel = p.replace(/\/$/, '');
+      if (!this.entries.has(rel)) this.entries.set(rel, { isDirectory });
+      lines.push(`U    ${this.abs(rel)}`);
+    }
+    for (const c of script.conflicts ?? []) {
+      this.entries.set(c.path, { isDirectory: c.isDirectory ?? false, conflict: c.type, treeConflict: c.treeConflict });
+      lines.push(`C    ${this.abs(c.path)}`);
+    }
+    if (reverse) this.eligible.add(revision);
+    else this.eligible.delete(revision);
+    return { stdout: lines.join('\n'), stderr: '', exitCode: 0 };
+  }
+
+  mergeDryRun(revision: number, _fromUrl: string, _workspace: string, reverse = false): {
+    conflicts: ConflictInfo[];
+    modifications: { path: string; isDirectory: boolean }[];
+    error?: string;
+  } {
+    this.calls.push(`merge --dry-run ${reverse ? -revision : revision}`);
+    const script = this.revisions[revision];
+    if (!script || script.error) {
+      return { conflicts: [], modifications: [], error: script?.error ?? `svn: E195012: Unable to find revision ${revision}` };
+    }
+    return {
+      conflicts: (script.conflicts ?? []).map((c) => ({
+        path: this.abs(c.path),
+        type: c.type,
+        resolution: c.type === 'tree' ? 'working' : 'theirs-full',
+        isDirectory: c.isDirectory ?? false,
+        ignored: false,
+      })),
+      modifications: (script.modifies ?? []).map((p) => ({ path: this.abs(p.replace(/\/$/, '')), isDirectory: p.endsWith('/') })),
+    };
+  }
+
+  recordOnly(revisions: number[], _fromUrl: string, _workspace: string, reverse = false): { stdout: string; stderr: string; exitCode: number } {
+    this.calls.push(`record-only ${revisions.map((r) => (reverse ? -r : r)).join(',')}`);
+    for (const rev of revisions) {
+      if (reverse) this.eligible.add(rev);
+      else this.eligible.delete(rev);
+    }
+    this.entries.set('', { isDirectory: true });
+    const verb = reverse ? 'reverse-merge' : 'merge';
+    return { stdout: `--- Recording mergeinfo for ${verb} of r${revisions.join(', r')} into '.':\n U   ${this.workspace}`, stderr: '', exitCode: 0 };
+  }
+
+  resolve(filePath: string, accept: Exclude<ResolveStrategy, 'postpone' | 'fail'>, _workspace: string): { success: boolean; message: string } {
+    const rel = this.rel(filePath);
+    this.calls.push(`resolve ${accept} ${rel}`);
+    if (this.failResolve.has(rel)) {
+      return { success: false, message: `svn: E155027: cannot resolve '${rel}'` };
+    }
+    const entry = this.entries.get(rel);
+    if (entry) {
+      delete entry.conflict;
+      delete entry.treeConflict;
+    }
+    return { success: true, message: '' };
+  }
+
+  revert(filePath: string, _workspace: string): { success: boolean; message: string } {
+    const rel = this.rel(filePath);
+    this.calls.push(`revert ${rel}`);
+    for (const key of [...this.entries.keys()]) {
+      if (key === rel || key.startsWith(rel + '/')) this.entries.delete(key);
+    }
+    return { success: true, message: '' };
+  }
+
+  eligibleRevisions(_fromUrl: string, _workspace: string): number[] {
+    this.calls.push('mergeinfo eligible');
+    return [...this.eligible].sort((a, b) => a - b);
+  }
+
+  /** Scripted revisions that are not eligible, i.e. recorded as merged */
+  mergedRevisions(_fromUrl: string, _workspace: string): number[] {
+    this.calls.push('mergeinfo merged');
+    return Object.keys(this.revisions).map(Number).filter((r) => !this.eligible.has(r)).sort((a, b) => a - b);
+  }
+
+  logBatch(revisions: number[], _fromUrl: string): Map<number, string> {
+    this.calls.push(`log ${revisions.join(',')}`);
+    return new Map(revisions.map((r) => [r, this.revisions[r]?.message ?? '']));
+  }
+
+  logEntries(revisions: number[], _fromUrl: string, withPaths = false): Map<number, LogEntry> {
+    this.calls.push(`log ${revisions.join(',')}`);
+    const result = new Map<number, LogEntry>();
+    for (const r of revisions) {
+      const script = this.revisions[r];
+      if (!script) continue;
+      result.set(r, {
+        revision: r,
+        author: script.author ?? 'dev',
+        date: script.date ?? '2024-01-01T00:00:00.000000Z',
+        message: script.message ?? '',
+        paths: withPaths
+          ? (script.changedPaths ?? []).map((p) => ({ path: p, action: 'M', kind: 'file' as const }))
+          : undefined,
+      });
+    }
+    return result;
+  }
+
+  commit(_workspace: string, message: string, targets?: string[]): string {
+    this.calls.push('commit');
+    this.commits.push({ message, targets });
+    const committed = targets ? new Set(targets.map((t) => this.rel(t))) : undefined;
+    for (const key of [...this.entries.keys()]) {
+      if (!committed || committed.has(key)) this.entries.delete(key);
+    }
+    this.nextCommit++;
+    return `Transmitting file data .done\nCommitting transaction...\nCommitted revision ${this.nextCommit}.`;
+  }
+}
@@ -0,0 +1,73 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { compileFilter, describeFilter, filterRevisions, isFilterEmpty, parseDateBound } from '../src/filter';
+import { LogEntry } from '../src/types';
+
+const FROM = 'http://svn.example.com/repos/project/trunk';
+const NOW = new Date('2024-03-15T12:00:00Z');
+
+function entry(revision: number, author: string, date: string, message: string, paths: string[] = []): LogEntry {
+  return { revision, author, date, message, paths: paths.map((p) => ({ path: p, action: 'M', kind: 'file' })) };
+}
+
+const ENTRIES = new Map<number, LogEntry>([
+  [101, entry(101, 'alice', '2024-03-01T10:00:00.000000Z', 'Fix hero buff #88279', ['/trunk/src/gameplay/hero.lua'])],
+  [102, entry(102, 'bob', '2024-03-10T10:00:00.000000Z', 'Update UI', ['/trunk/src/ui/panel.lua'])],
+  [103, entry(103, 'Alice', '2024-03-14T10:00:00.000000Z', 'Tune skills', ['/trunk/config/skill.xlsx'])],
+]);
+
+describe('parseDateBound', () => {
+  it('accepts dates, timestamps and ages', () => {
+    const dayStart = new Date(2024, 2, 1).getTime();
+    assert.equal(parseDateBound('2024-03-01', false, NOW), dayStart);
+    assert.equal(parseDateBound('2024-03-01', true, NOW), dayStart + 24 * 60 * 60 * 1000 - 1);
+    assert.equal(parseDateBound('2024-03-01T08:00:00Z', true, NOW), Date.parse('2024-03-01T08:00:00Z'));
+    assert.equal(parseDateBound('7d', false, NOW), NOW.getTime() - 7 * 24 * 60 * 60 * 1000);
+    assert.equal(parseDateBound('2w', false, NOW), NOW.getTime() - 14 * 24 * 60 * 60 * 1000);
+    assert.throws(() => parseDateBound('last week', false, NOW), /Invalid date/);
+  });
+});
+
+describe('filterRevisions', () => {
+  const revisions = [101, 102, 103];
+
+  it('matches authors case-insensitively', () => {
+    assert.deepEqual(filterRevisions(revisions, ENTRIES, { authors: ['alice'] }, FROM, NOW), [101, 103]);
+  });
+
+  it('searches the message with a regular expression', () => {
+    assert.deepEqual(filterRevisions(revisions, ENTRIES, { grep: '#882\\d+' }, FROM, NOW), [101]);
+  });
+
+  it('keeps revisions inside the date range', () => {
+    assert.deepEqual(filterRevisions(revisions, ENTRIES, { since: '7d' }, FROM, NOW), [102, 103]);
+    assert.deepEqual(filterRevisions(revisions, ENTRIES, { until: '2024-03-10T10:00:00Z' }, FROM, NOW), [101, 102]);
+  });
+
+  it('matches changed paths relative to the source branch', () => {
+    assert.deepEqual(filterRevisions(revisions, ENTRIES, { touching: ['src/gameplay', 'config/*.xlsx'] }, FROM, NOW), [101, 103]);
+  });
+
+  it('selects revisions referencing a ticket, with or without its prefix', () => {
+    assert.deepEqual(filterRevisions(revisions, ENTRIES, { tickets: ['88279'] }, FROM, NOW), [101]);
+    assert.deepEqual(filterRevisions(revisions, ENTRIES, { tickets: ['#88279', '#1'] }, FROM, NOW), [101]);
+    assert.deepEqual(filterRevisions(revisions, ENTRIES, { tickets: ['GAME-88279'] }, FROM, NOW, 'GAME-(\\d+)'), []);
+  });
+
+  it('requires every filter to match and drops revisions without a log entry', () => {
+    const filter = { authors: ['alice'], since: '2024-03-05' };
+    assert.deepEqual(filterRevisions([...revisions, 104], ENTRIES, filter, FROM, NOW), [103]);
+  });
+
+  it('rejects invalid regular expressions', () => {
+    assert.throws(() => compileFilter({ grep: '(' }, FROM), /Invalid --grep pattern/);
+  });
+});
+
+describe('describeFilter', () => {
+  it('lists the set fields', () => {
+    assert.equal(isFilterEmpty({ authors: [] }), true);
+    assert.equal(describeFilter({ authors: ['alice', 'bob'], grep: '#88279', since: '7d' }), 'author=alice,bob  grep=#88279  since=7d');
+  });
+});
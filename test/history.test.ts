@@ -0,0 +1,113 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+
+import { filterHistory, findSession, formatHistory, formatSessionDetail, loadHistory } from '../src/history';
+import { saveSession } from '../src/session';
+import { MergeSession } from '../src/types';
+
+const WS = path.resolve('/ws');
+const FROM = 'http://svn.example.com/repos/project/trunk';
+
+const MERGED: MergeSession = {
+  version: 1,
+  startTs: '20240315120000',
+  status: 'completed',
+  options: { workspace: WS, fromUrl: FROM, revisions: [84597, 84598], ignorePaths: ['gen'] },
+  results: [
+    {
+      revision: 84597,
+      success: true,
+      conflicts: [
+        { path: path.join(WS, 'src/hero.lua'), type: 'text', resolution: 'theirs-full', isDirectory: false, ignored: false },
+        { path: path.join(WS, 'gen/catalog'), type: 'tree', resolution: 'working', isDirectory: true, ignored: true, ignoredBy: 'gen' },
+      ],
+      reverted: [],
+      modified: [{ path: path.join(WS, 'src/hero.lua'), isDirectory: false }],
+    },
+    { revision: 84598, success: true, conflicts: [], reverted: [], modified: [{ path: path.join(WS, 'ui/panel.lua'), isDirectory: false }] },
+  ],
+  logFiles: ['/ws/.svnmerge/svnmerge-20240315120000.log'],
+  message: 'Merged revision(s) 84597-84598 from trunk:\nFix hero\n',
+  commit: { status: 'committed', revision: 90001 },
+};
+
+const UNFINISHED: MergeSession = {
+  version: 1,
+  startTs: '20240320090000',
+  status: 'running',
+  options: { workspace: WS, fromUrl: FROM, revisions: [84600, 84601], ignorePaths: [] },
+  results: [{ revision: 84600, success: false, conflicts: [], reverted: [], modified: [], errorMessage: 'svn: E155015' }],
+  logFiles: [],
+};
+
+const SESSIONS = [UNFINISHED, MERGED];
+
+describe('loadHistory', () => {
+  it('loads the session files newest first and skips unreadable ones', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'svnmerge-history-'));
+    try {
+      saveSession(dir, MERGED);
+      saveSession(dir, UNFINISHED);
+      fs.writeFileSync(path.join(dir, 'svnmerge-20240101000000.session.json'), '{', 'utf8');
+      assert.deepEqual(loadHistory(dir).map((s) => s.startTs), ['20240320090000', '20240315120000']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('filterHistory', () => {
+  const ids = (filter: Parameters<typeof filterHistory>[1]) =>
+    filterHistory(SESSIONS, filter, new Date(2024, 2, 31)).map((s) => s.startTs);
+
+  it('filters by revision, path and date', () => {
+    assert.deepEqual(ids({ revisions: [84597] }), ['20240315120000']);
+    assert.deepEqual(ids({ revisions: [84601] }), ['20240320090000']);
+    assert.deepEqual(ids({ paths: ['ui'] }), ['20240315120000']);
+    assert.deepEqual(ids({ paths: ['assets'] }), []);
+    assert.deepEqual(ids({ since: '2024-03-16' }), ['20240320090000']);
+    assert.deepEqual(ids({ until: '2024-03-15' }), ['20240315120000']);
+    assert.deepEqual(ids({ since: '2w' }), ['20240320090000']);
+  });
+});
+
+describe('findSession', () => {
+  it('accepts a unique prefix of the start timestamp', () => {
+    assert.equal(findSession(SESSIONS, '202403151').startTs, '20240315120000');
+    assert.throws(() => findSession(SESSIONS, '202403'), /"202403" matches 2 sessions/);
+    assert.throws(() => findSession(SESSIONS, '2023'), /No merge session "2023"/);
+  });
+});
+
+describe('formatHistory', () => {
+  it('lists each session with its outcome and commit', () => {
+    assert.deepEqual(formatHistory(SESSIONS), [
+      'date              session         source  revisions    outcome                                   commit',
+      '2024-03-20 09:00  20240320090000  trunk   84600-84601  unfinished: 0 ok, 1 failed, 1 not merged  -',
+      '2024-03-15 12:00  20240315120000  trunk   84597-84598  completed: 1 ok, 1 conflicts              r90001',
+    ]);
+  });
+
+  it('shows how the selected revisions went, with their conflicts', () => {
+    assert.deepEqual(formatHistory([MERGED], [84597]).slice(2), [
+      '  r84597  1 conflict(s)',
+      '    [TEXT    ][F]  src/hero.lua  (theirs-full)',
+    ]);
+  });
+});
+
+describe('formatSessionDetail', () => {
+  it('reprints the conflict summary and the merge message', () => {
+    const text = formatSessionDetail(MERGED).join('\n');
+    assert.match(text, /^commit {4}: r90001$/m);
+    assert.match(text, /Merge Summary:\n {2}Tree Conflicts \(0 \+ 1 ignored\):\n {4}\[D\] {2}gen\/catalog {2}\(ignored by gen\)\n {2}Text Conflicts \(1\):\n {4}\[F\] {2}src\/hero\.lua {2}\(theirs-full\)/);
+    assert.match(text, /Merge Message:\nMerged revision\(s\) 84597-84598 from trunk:\nFix hero$/);
+  });
+
+  it('notes a message that was never generated', () => {
+    assert.match(formatSessionDetail(UNFINISHED).join('\n'), /r84600 {2}FAILED: svn: E155015\n {2}r84601 {2}not merged[\s\S]*Merge Message:\n {2}\(not recorded\)$/);
+  });
+});
@@ -0,0 +1,103 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { formatHookRuns, hookEnvironment, HookContext, parseHooks, runHooks } from '../src/hooks';
+import { Logger } from '../src/logger';
+
+const FROM = 'http://svn.example.com/repos/project/trunk';
+
+/** A shell command that runs a node script, so the tests do not depend on the platform shell. */
+function node(script: string): string {
+  return `"${process.execPath}" -e "${script.replace(/"/g, '\\"')}"`;
+}
+
+describe('parseHooks', () => {
+  it('accepts a command or a list of commands per stage', () => {
+    assert.deepEqual(parseHooks({ 'pre-merge': ' ./check.sh ', 'post-commit': ['a', 'b'] }, 'test'), {
+      'pre-merge': ['./check.sh'],
+      'post-commit': ['a', 'b'],
+    });
+  });
+
+  it('rejects unknown stages and empty commands', () => {
+    assert.throws(() => parseHooks({ 'post-merge': 'x' }, 'test'), /Unknown hook stage "hooks.post-merge"/);
+    assert.throws(() => parseHooks({ 'pre-commit': [] }, 'test'), /"hooks.pre-commit" in test must be a command/);
+    assert.throws(() => parseHooks(['x'], 'test'), /must be a mapping/);
+  });
+});
+
+describe('hookEnvironment', () => {
+  it('describes the revision with workspace-relative paths', () => {
+    const ws = path.resolve('/ws');
+    const env = hookEnvironment({
+      stage: 'post-revision',
+      workspace: ws,
+      fromUrl: FROM,
+      revisions: [101, 102],
+      revision: {
+        revision: 101,
+        success: true,
+        conflicts: [
+          { path: path.join(ws, 'src/a.lua'), type: 'text', resolution: 'postpone', isDirectory: false, ignored: false },
+          { path: path.join(ws, 'gen/b.lua'), type: 'text', resolution: 'working', isDirectory: false, ignored: true },
+        ],
+        reverted: [],
+        modified: [{ path: path.join(ws, 'src/a.lua'), isDirectory: false }, { path: path.join(ws, 'src/c.lua'), isDirectory: false }],
+      },
+    }, '/out/ctx.json');
+    assert.equal(env.SVNMERGE_HOOK, 'post-revision');
+    assert.equal(env.SVNMERGE_REVISIONS, '101,102');
+    assert.equal(env.SVNMERGE_REVISION, '101');
+    assert.equal(env.SVNMERGE_CONFLICTS, 'src/a.lua');
+    assert.equal(env.SVNMERGE_MODIFIED, 'src/a.lua\nsrc/c.lua');
+    assert.equal(env.SVNMERGE_CONTEXT, '/out/ctx.json');
+    assert.equal(env.SVNMERGE_MESSAGE_FILE, undefined);
+  });
+});
+
+describe('runHooks', () => {
+  let dir: string;
+  let logger: Logger;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'svnmerge-hooks-'));
+    logger = new Logger(dir, '20240101000000');
+  });
+
+  afterEach(() => {
+    logger.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function context(extra: Partial<HookContext> = {}): HookContext {
+    return { stage: 'pre-commit', workspace: dir, fromUrl: FROM, revisions: [101], ...extra };
+  }
+
+  it('passes the context file and environment to the commands in the working copy', () => {
+    const contextFile = path.join(dir, 'out', 'hook.json');
+    const script = 'const fs = require("fs");'
+      + 'const ctx = JSON.parse(fs.readFileSync(process.env.SVNMERGE_CONTEXT, "utf8"));'
+      + 'fs.writeFileSync("seen.txt", [process.env.SVNMERGE_HOOK, ctx.stage, ctx.revisions.join(), process.env.SVNMERGE_MESSAGE_FILE].join("|"));'
+      + 'console.log("checked");';
+
+    const runs = runHooks({ 'pre-commit': [node(script)] }, context({ messageFile: 'msg.txt' }), contextFile, logger);
+
+    assert.deepEqual(runs.map((r) => [r.stage, r.exitCode]), [['pre-commit', 0]]);
+    assert.equal(fs.readFileSync(path.join(dir, 'seen.txt'), 'utf8'), 'pre-commit|pre-commit|101|msg.txt');
+    logger.close();
+    assert.match(fs.readFileSync(logger.getLogPath(), 'utf8'), /Hook pre-commit: .*\nchecked\n/);
+  });
+
+  it('stops the stage at the first failing command', () => {
+    const hooks = { 'pre-merge': [node('process.exit(3)'), node('console.log(1)')] };
+
+    const runs = runHooks(hooks, context({ stage: 'pre-merge' }), path.join(dir, 'hook.json'), logger);
+
+    assert.deepEqual(runs.map((r) => r.exitCode), [3]);
+    assert.deepEqual(runHooks(hooks, context({ stage: 'post-commit' }), path.join(dir, 'hook.json')), []);
+    assert.deepEqual(formatHookRuns([{ ...runs[0], command: './check.sh', revision: 101 }]), ['pre-merge  FAILED (3)   r101  ./check.sh']);
+  });
+});
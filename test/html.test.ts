@@ -0,0 +1,75 @@
+import * as assert from 'node:assert/strict';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+
+import { renderHtmlReport } from '../src/html';
+import { MergeReport } from '../src/report';
+import { MergeOptions } from '../src/types';
+
+const WS = path.resolve('/ws');
+const FROM = 'http://svn.example.com/repos/project/trunk';
+
+const OPTIONS: MergeOptions = { workspace: WS, fromUrl: FROM, revisions: [101, 102, 103], ignorePaths: ['assets/gen'] };
+
+const REPORT: MergeReport = {
+  schemaVersion: 1,
+  tool: { name: 'svn-merge-tool', version: '1.0.10' },
+  startTs: '20240315120000',
+  workspace: WS,
+  fromUrl: FROM,
+  revisions: [101, 102, 103],
+  reverse: false,
+  summary: {
+    total: 3,
+    succeeded: 0,
+    withConflicts: 1,
+    failed: 1,
+    stoppedAt: 102,
+    results: [
+      {
+        revision: 101,
+        success: true,
+        conflicts: [
+          { path: path.join(WS, 'src/gameplay/hero.lua'), type: 'text', resolution: 'postpone', isDirectory: false, ignored: false },
+          { path: path.join(WS, 'src/gameplay/skill.lua'), type: 'text', resolution: 'theirs-full', isDirectory: false, ignored: false },
+          { path: path.join(WS, 'assets/gen/a.bin'), type: 'tree', resolution: 'working', isDirectory: false, ignored: true, ignoredBy: 'assets/gen' },
+        ],
+        reverted: [],
+        modified: [{ path: path.join(WS, 'src/ui/panel.lua'), isDirectory: false }],
+      },
+      { revision: 102, success: false, conflicts: [], reverted: [], modified: [], errorMessage: 'svn: E155015 <conflict>' },
+    ],
+  },
+  message: 'Merged revision(s) 101-102 from trunk:\nFix hero & skills\n........\n',
+  commit: { status: 'skipped', message: 'unresolved conflicts (r101)' },
+  logFile: '/ws/.svnmerge/svnmerge-20240315120000.log',
+};
+
+const MESSAGES = new Map([[101, 'Fix hero <buff>\n\nDetails on the second line'], [102, 'Update UI'], [103, 'Localize']]);
+
+describe('renderHtmlReport', () => {
+  const html = renderHtmlReport(REPORT, OPTIONS, MESSAGES);
+
+  it('is a single page without external assets', () => {
+    assert.match(html, /^<!DOCTYPE html>/);
+    assert.match(html, /<style>/);
+    assert.doesNotMatch(html, /<(script|link|img)\b/);
+  });
+
+  it('lists every revision with its status and counts, including those not merged', () => {
+    assert.match(html, /<td><a href="#r101">r101<\/a><\/td><td class="conflicts">conflicts<\/td><td class="num">2<\/td><td class="num">1<\/td>/);
+    assert.match(html, /<td class="failed">FAILED: svn: E155015 &lt;conflict&gt;<\/td>/);
+    assert.match(html, /<td>r103<\/td><td class="muted">not merged<\/td>/);
+  });
+
+  it('groups conflicts by type under collapsible directories', () => {
+    assert.match(html, /<h3 class="conflicts">Text Conflicts \(2\)<\/h3>\n<details open><summary>src\/gameplay\/ <span class="muted">\(2\)<\/span><\/summary>/);
+    assert.match(html, /hero\.lua {2}\(postpone\)/);
+    assert.match(html, /<h3 class="muted">Tree Conflicts \(0 \+ 1 ignored\)<\/h3>/);
+  });
+
+  it('includes the full log messages and the merge message, escaped', () => {
+    assert.match(html, /<pre>Fix hero &lt;buff&gt;\n\nDetails on the second line<\/pre>/);
+    assert.match(html, /<h2>Merge Message<\/h2>\n<pre>Merged revision\(s\) 101-102 from trunk:\nFix hero &amp; skills/);
+  });
+});
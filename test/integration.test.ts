@@ -0,0 +1,90 @@
+import * as assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { pathToFileURL } from 'node:url';
+
+import { Logger } from '../src/logger';
+import { run } from '../src/merger';
+import { cliSvn } from '../src/svn';
+
+function available(cmd: string): boolean {
+  return spawnSync(cmd, ['--version', '--quiet'], { encoding: 'utf8' }).status === 0;
+}
+
+const skip = available('svn') && available('svnadmin') ? false : 'svn/svnadmin not found on PATH';
+
+function sh(cmd: string, args: string[], cwd?: string): string {
+  const result = spawnSync(cmd, args, { cwd, encoding: 'utf8' });
+  if (result.status !== 0) {
+    throw new Error(`${cmd} ${args.join(' ')} failed:\n${result.stderr}`);
+  }
+  return result.stdout;
+}
+
+/**
+ * End-to-end merge against a local file:// repository:
+ *   r1 trunk/a.txt, r2 branches/release copied from trunk,
+ *   r3 trunk edits a.txt and adds gen/x.txt, r4 release edits a.txt.
+ * Merging r3 into release conflicts on a.txt and touches the ignored gen/ folder.
+ */
+describe('cli backend against a local repository', { skip }, () => {
+  let root: string;
+  let url: string;
+  let branchWc: string;
+
+  before(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'svnmerge-it-'));
+    const repo = path.join(root, 'repo');
+    sh('svnadmin', ['create', repo]);
+    url = pathToFileURL(repo).href;
+
+    const trunkWc = path.join(root, 'trunk');
+    sh('svn', ['mkdir', '--parents', '-m', 'layout', `${url}/trunk`, `${url}/branches`]);
+    sh('svn', ['checkout', `${url}/trunk`, trunkWc]);
+    fs.writeFileSync(path.join(trunkWc, 'a.txt'), 'one\n');
+    sh('svn', ['add', 'a.txt'], trunkWc);
+    sh('svn', ['commit', '-m', 'add a.txt'], trunkWc);
+    sh('svn', ['copy', '-m', 'branch', `${url}/trunk`, `${url}/branches/release`]);
+
+    fs.writeFileSync(path.join(trunkWc, 'a.txt'), 'two\n');
+    fs.mkdirSync(path.join(trunkWc, 'gen'));
+    fs.writeFileSync(path.join(trunkWc, 'gen', 'x.txt'), 'generated\n');
+    sh('svn', ['add', 'gen'], trunkWc);
+    sh('svn', ['commit', '-m', 'trunk change'], trunkWc);
+
+    branchWc = path.join(root, 'release');
+    sh('svn', ['checkout', `${url}/branches/release`, branchWc]);
+    fs.writeFileSync(path.join(branchWc, 'a.txt'), 'branch\n');
+    sh('svn', ['commit', '-m', 'branch change'], branchWc);
+    sh('svn', ['update'], branchWc);
+  });
+
+  after(() => {
+    if (root) fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('merges a revision, resolves the text conflict and reverts ignored paths', () => {
+    const trunkUrl = `${url}/trunk`;
+    const eligible = cliSvn.eligibleRevisions(trunkUrl, branchWc);
+    const rev = Math.max(...eligible);
+
+    const logger = new Logger(path.join(root, 'out'), '20240101000000');
+    const summary = run({ workspace: branchWc, fromUrl: trunkUrl, revisions: [rev], ignorePaths: ['gen'] }, logger);
+    logger.close();
+
+    const [result] = summary.results;
+    assert.equal(result.success, true);
+    assert.deepEqual(result.conflicts.map((c) => [path.basename(c.path), c.type, c.resolution]), [['a.txt', 'text', 'theirs-full']]);
+    assert.equal(fs.readFileSync(path.join(branchWc, 'a.txt'), 'utf8'), 'two\n');
+    assert.ok(result.reverted.some((r) => path.basename(r.path) === 'gen'));
+    assert.doesNotMatch(sh('svn', ['status', branchWc]), /^A.*gen/m);
+  });
+
+  it('reports a failed mergeinfo query instead of no eligible revisions', () => {
+    const notWc = fs.mkdtempSync(path.join(root, 'not-a-wc-'));
+    assert.throws(() => cliSvn.eligibleRevisions(`${url}/trunk`, notWc), /svn mergeinfo failed/);
+  });
+});
@@ -0,0 +1,48 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { Logger } from '../src/logger';
+
+describe('Logger', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'svnmerge-logger-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('drops lines and events below the level and tags the others', () => {
+    const logger = new Logger(dir, '20240101000000', { level: 'warn' });
+    logger.log('merged r101');
+    logger.log('svn update → exit 1', 'warn');
+    logger.event({ event: 'revision-start', revision: 101 });
+    logger.event({ event: 'svn', args: ['update'], exitCode: 1, durationMs: 12 }, 'warn');
+    logger.close();
+
+    const log = fs.readFileSync(logger.getLogPath(), 'utf8');
+    assert.doesNotMatch(log, /merged r101/);
+    assert.match(log, /^\[[\d\- :]+\] WARN svn update → exit 1\n$/);
+    const events = fs.readFileSync(logger.getEventsPath(), 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+    assert.equal(events.length, 1);
+    assert.deepEqual({ ...events[0], ts: undefined }, {
+      ts: undefined, level: 'warn', event: 'svn', args: ['update'], exitCode: 1, durationMs: 12,
+    });
+  });
+
+  it('continues the files of the same run in append mode', () => {
+    const first = new Logger(dir, '20240101000000');
+    first.log('first');
+    first.close();
+    const second = new Logger(dir, '20240101000000', { append: true });
+    second.log('second');
+    second.log('svn info → exit 0', 'debug');
+    second.close();
+    assert.match(fs.readFileSync(second.getLogPath(), 'utf8'), /first\n.*second\n$/);
+  });
+});
@@ -0,0 +1,480 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { Logger } from '../src/logger';
+import { localChanges, predictRevisions, recordRevisions, run, stashChanges } from '../src/merger';
+import { MergeOptions, RevisionMergeResult } from '../src/types';
+import { FakeSvnBackend } from './fake-svn';
+
+const WS = path.resolve('/ws');
+const FROM = 'http://svn.example.com/repos/project/trunk';
+
+describe('run', () => {
+  let outputDir: string;
+  let logger: Logger;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'svnmerge-test-'));
+    logger = new Logger(outputDir, '20240101000000');
+  });
+
+  afterEach(() => {
+    logger.close();
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  function options(revisions: number[], extra: Partial<MergeOptions> = {}): MergeOptions {
+    return { workspace: WS, fromUrl: FROM, revisions, ...extra };
+  }
+
+  it('merges revisions in the given order and counts outcomes', () => {
+    const svn = new FakeSvnBackend(WS, {
+      101: { modifies: ['src/a.lua'] },
+      102: { conflicts: [{ path: 'src/b.lua', type: 'text' }] },
+      103: { error: 'svn: E160013: path not found' },
+    });
+
+    const summary = run(options([102, 101, 103]), logger, [], { svn });
+
+    assert.deepEqual(svn.calls.filter((c) => c.startsWith('merge')), ['merge 102', 'merge 101', 'merge 103']);
+    assert.deepEqual(summary.results.map((r) => r.revision), [102, 101, 103]);
+    assert.equal(summary.total, 3);
+    assert.equal(summary.succeeded, 1);
+    assert.equal(summary.withConflicts, 1);
+    assert.equal(summary.failed, 1);
+    assert.equal(summary.results[2].errorMessage, 'svn: E160013: path not found');
+  });
+
+  it('resolves tree conflicts with working and text/property conflicts with theirs-full', () => {
+    const svn = new FakeSvnBackend(WS, {
+      101: {
+        conflicts: [
+          { path: 'src/mod', type: 'tree', isDirectory: true },
+          { path: 'src/a.lua', type: 'text' },
+          { path: 'src/b.lua', type: 'property' },
+        ],
+      },
+    });
+
+    const [result] = run(options([101]), logger, [], { svn }).results;
+
+    assert.deepEqual(svn.calls.filter((c) => c.startsWith('resolve')), [
+      'resolve working src/mod',
+      'resolve theirs-full src/a.lua',
+      'resolve theirs-full src/b.lua',
+    ]);
+    assert.ok(result.conflicts.every((c) => !c.ignored));
+    assert.deepEqual(
+      result.modified.map((m) => path.relative(WS, m.path).replace(/\\/g, '/')).sort(),
+      ['src/a.lua', 'src/b.lua', 'src/mod']
+    );
+  });
+
+  it('resolves ignored conflicts with working and reverts ignored modifications', () => {
+    const svn = new FakeSvnBackend(WS, {
+      101: {
+        modifies: ['gen/catalog.json', 'Assets/x.png.meta', 'src/a.lua'],
+        conflicts: [{ path: 'gen/hero.xlsx', type: 'text' }],
+      },
+    });
+
+    const [result] = run(options([101], { ignorePaths: ['gen', '**/*.meta'] }), logger, [], { svn }).results;
+
+    assert.deepEqual(result.conflicts.map((c) => [c.resolution, c.ignored, c.ignoredBy]), [['working', true, 'gen']]);
+    assert.deepEqual(svn.calls.filter((c) => c.startsWith('revert')).sort(), [
+      'revert Assets/x.png.meta',
+      'revert gen/catalog.json',
+    ]);
+    assert.deepEqual(result.reverted.map((r) => r.ignoredBy).sort(), ['**/*.meta', 'gen']);
+    assert.deepEqual(
+      result.modified.map((m) => path.relative(WS, m.path).replace(/\\/g, '/')).sort(),
+      ['gen/hero.xlsx', 'src/a.lua']
+    );
+  });
+
+  it('applies the first matching resolve rule and leaves postponed conflicts unresolved', () => {
+    const svn = new FakeSvnBackend(WS, {
+      101: {
+        conflicts: [
+          { path: 'config/lang/en.txt', type: 'text' },
+          { path: 'assets/hero.png', type: 'text' },
+          { path: 'src/a.lua', type: 'text' },
+        ],
+      },
+    });
+    const resolveRules = [
+      { path: 'config/lang', accept: 'postpone' as const },
+      { path: 'config', accept: 'mine-full' as const },
+      { path: 'assets', types: ['text' as const], accept: 'theirs-full' as const },
+    ];
+
+    const summary = run(options([101], { resolveRules }), logger, [], { svn });
+    const [result] = summary.results;
+
+    assert.deepEqual(svn.calls.filter((c) => c.startsWith('resolve')), [
+      'resolve theirs-full assets/hero.png',
+      'resolve theirs-full src/a.lua',
+    ]);
+    assert.deepEqual(result.conflicts.map((c) => [c.resolution, c.rule]), [
+      ['postpone', 'config/lang'],
+      ['theirs-full', 'assets [text]'],
+      ['theirs-full', undefined],
+    ]);
+    assert.equal(summary.withConflicts, 1);
+  });
+
+  it('fails the revision when a tree conflict matches a fail policy', () => {
+    const tree = (action: string, reason: string) => ({ operation: 'merge', action, reason, victimKind: 'file' as const, versions: [] });
+    const svn = new FakeSvnBackend(WS, {
+      101: {
+        modifies: ['src/c.lua'],
+        conflicts: [
+          { path: 'src/a.lua', type: 'tree', treeConflict: tree('delete', 'edit') },
+          { path: 'src/b.lua', type: 'tree', treeConflict: tree('edit', 'missing') },
+        ],
+      },
+      102: { conflicts: [{ path: 'src/d.lua', type: 'tree', treeConflict: tree('add', 'obstruction') }] },
+    });
+    const resolveRules = [{ incoming: ['delete'], local: ['edit'], accept: 'fail' as const }];
+
+    const summary = run(options([101, 102], { resolveRules }), logger, [], { svn });
+    const [failed, merged] = summary.results;
+
+    assert.equal(failed.success, false);
+    assert.match(failed.errorMessage ?? '', /src\/a\.lua/);
+    assert.deepEqual(failed.conflicts.map((c) => [c.resolution, c.treeConflict?.action]), [
+      ['fail', 'delete'],
+      ['working', 'edit'],
+    ]);
+    assert.equal(merged.success, true);
+    assert.deepEqual(svn.calls.filter((c) => c.startsWith('resolve')), [
+      'resolve working src/b.lua',
+      'resolve working src/d.lua',
+    ]);
+    assert.equal(summary.failed, 1);
+    logger.close();
+    assert.match(fs.readFileSync(logger.getLogPath(), 'utf8'), /incoming delete vs local file edit .*revision FAILED/);
+  });
+
+  it('reverts only the ignored children of a directory whose paths a negated pattern re-includes', () => {
+    const svn = new FakeSvnBackend(WS, { 101: { modifies: ['dir/', 'dir/keep.txt', 'dir/drop.txt'] } });
+
+    const [result] = run(options([101], { ignorePaths: ['dir/', '!dir/keep.txt'] }), logger, [], { svn }).results;
+
+    assert.deepEqual(svn.calls.filter((c) => c.startsWith('revert')), ['revert dir/drop.txt']);
+    assert.deepEqual(
+      result.modified.map((m) => path.relative(WS, m.path).replace(/\\/g, '/')).sort(),
+      ['dir', 'dir/keep.txt']
+    );
+  });
+
+  it('asks the chooser for every conflict that is not ignored', () => {
+    const svn = new FakeSvnBackend(WS, {
+      101: {
+        conflicts: [
+          { path: 'src/a.lua', type: 'text' },
+          { path: 'gen/b.lua', type: 'text' },
+          { path: 'src/mod', type: 'tree', isDirectory: true },
+        ],
+      },
+    });
+    const asked: string[] = [];
+
+    const [result] = run(options([101], { ignorePaths: ['gen'] }), logger, [], {
+      svn,
+      chooseResolution: (conflict, revision) => {
+        asked.push(`r${revision} ${conflict.type} ${conflict.resolution}`);
+        return conflict.type === 'text' ? 'mine-full' : 'postpone';
+      },
+    }).results;
+
+    assert.deepEqual(asked, ['r101 text theirs-full', 'r101 tree working']);
+    assert.deepEqual(svn.calls.filter((c) => c.startsWith('resolve')), [
+      'resolve mine-full src/a.lua',
+      'resolve working gen/b.lua',
+    ]);
+    assert.deepEqual(result.conflicts.map((c) => [c.resolution, !!c.interactive]), [
+      ['mine-full', true],
+      ['working', false],
+      ['postpone', true],
+    ]);
+  });
+
+  it('skips revisions that already have a result and reports every result', () => {
+    const svn = new FakeSvnBackend(WS, { 101: {}, 102: {}, 103: {} });
+    const previous: RevisionMergeResult[] = [
+      { revision: 101, success: true, conflicts: [], reverted: [], modified: [] },
+    ];
+    const seen: number[] = [];
+
+    const summary = run(options([101, 102, 103]), logger, previous, {
+      svn,
+      onRevision: (result, results) => {
+        seen.push(result.revision);
+        assert.equal(results[results.length - 1], result);
+      },
+    });
+
+    assert.deepEqual(svn.calls.filter((c) => c.startsWith('merge')), ['merge 102', 'merge 103']);
+    assert.deepEqual(seen, [102, 103]);
+    assert.deepEqual(summary.results.map((r) => r.revision), [101, 102, 103]);
+    assert.equal(summary.succeeded, 3);
+  });
+
+  it('undoes revisions with negated merges in reverse mode', () => {
+    const svn = new FakeSvnBackend(WS, {
+      101: { modifies: ['src/a.lua', 'gen/b.lua'] },
+      102: { conflicts: [{ path: 'src/c.lua', type: 'text' }] },
+    });
+
+    const summary = run(options([102, 101], { reverse: true, ignorePaths: ['gen'] }), logger, [], { svn });
+    logger.close();
+
+    assert.deepEqual(svn.calls.filter((c) => c.startsWith('merge ')), ['merge -102', 'merge -101']);
+    assert.deepEqual(svn.calls.filter((c) => c.startsWith('re')), ['resolve theirs-full src/c.lua', 'revert gen/b.lua']);
+    assert.equal(summary.withConflicts, 1);
+    const log = fs.readFileSync(logger.getLogPath(), 'utf8');
+    assert.match(log, /Mode {6}: reverse merge/);
+    assert.match(log, /\[r102\] Reverse-merging -c -102/);
+  });
+
+  it('commits each revision with its own message and stops at unresolved conflicts', () => {
+    const svn = new FakeSvnBackend(WS, {
+      101: { message: 'Fix hero buff', modifies: ['src/a.lua'] },
+      102: { message: 'Update UI', conflicts: [{ path: 'src/b.lua', type: 'text' }] },
+      103: { message: 'Localize', conflicts: [{ path: 'config/lang/en.txt', type: 'text' }] },
+      104: { modifies: ['src/d.lua'] },
+    });
+    const resolveRules = [{ path: 'config/lang', accept: 'postpone' as const }];
+
+    const summary = run(options([101, 102, 103, 104], { commitEach: true, resolveRules }), logger, [], { svn });
+
+    assert.deepEqual(svn.calls.filter((c) => c.startsWith('merge ') || c === 'commit'), [
+      'merge 101', 'commit', 'merge 102', 'commit', 'merge 103',
+    ]);
+    assert.deepEqual(svn.commits.map((c) => c.message), [
+      'Merged revision(s) 101 from trunk:\nFix hero buff\n........\n',
+      'Merged revision(s) 102 from trunk:\nUpdate UI\n........\n',
+    ]);
+    assert.deepEqual(svn.commits[0].targets, [path.join(WS, 'src/a.lua')]);
+    assert.deepEqual(summary.results.map((r) => [r.revision, r.committedRevision]), [
+      [101, 1001],
+      [102, 1002],
+      [103, undefined],
+    ]);
+    assert.equal(summary.stoppedAt, 103);
+    assert.equal(summary.total, 4);
+  });
+
+  it('commits the message returned by beforeCommit and stops when it refuses', () => {
+    const svn = new FakeSvnBackend(WS, {
+      101: { message: 'Fix hero buff', modifies: ['src/a.lua'] },
+      102: { message: 'Update UI', modifies: ['src/b.lua'] },
+      103: { modifies: ['src/c.lua'] },
+    });
+    const committed: number[] = [];
+
+    const summary = run(options([101, 102, 103], { commitEach: true }), logger, [], {
+      svn,
+      beforeCommit: (result, message) => (result.revision === 102 ? undefined : `[hotfix] ${message}`),
+      afterCommit: (result) => committed.push(result.revision),
+    });
+
+    assert.deepEqual(svn.commits.map((c) => c.message), ['[hotfix] Merged revision(s) 101 from trunk:\nFix hero buff\n........\n']);
+    assert.deepEqual(committed, [101]);
+    assert.equal(summary.results[1].success, false);
+    assert.equal(summary.results[1].errorMessage, 'pre-commit hook failed');
+    assert.equal(summary.stoppedAt, 102);
+  });
+
+  it('fails the revision and commits nothing when svn status fails after the merge', () => {
+    const svn = new FakeSvnBackend(WS, { 101: { modifies: ['src/a.lua'] } });
+    svn.failStatus = 'svn status failed (exit 1):\nsvn: E155037: Previous operation has not finished';
+
+    const summary = run(options([101], { commitEach: true }), logger, [], { svn });
+
+    assert.equal(summary.failed, 1);
+    assert.match(summary.results[0].errorMessage ?? '', /E155037/);
+    assert.deepEqual(svn.commits, []);
+  });
+
+  it('writes resolve failures to the log', () => {
+    const svn = new FakeSvnBackend(WS, { 101: { conflicts: [{ path: 'src/a.lua', type: 'text' }] } });
+    svn.failResolve.add('src/a.lua');
+
+    run(options([101]), logger, [], { svn });
+    logger.close();
+
+    const log = fs.readFileSync(logger.getLogPath(), 'utf8');
+    assert.match(log, /src\/a\.lua {2}\(theirs-full\) → resolve FAILED: svn: E155027/);
+  });
+
+  it('backs up the conflict files before resolving and postpones when that fails', () => {
+    const ws = path.join(outputDir, 'wc');
+    fs.mkdirSync(path.join(ws, 'src'), { recursive: true });
+    for (const name of ['a.lua', 'a.lua.working', 'a.lua.merge-left.r100', 'a.lua.merge-right.r101', 'b.lua.working']) {
+      fs.writeFileSync(path.join(ws, 'src', name), name, 'utf8');
+    }
+    const backupDir = path.join(outputDir, 'svnmerge-20240101000000.backup');
+    const script = { 101: { conflicts: [{ path: 'src/a.lua', type: 'text' as const }] } };
+
+    const [result] = run({ workspace: ws, fromUrl: FROM, revisions: [101] }, logger, [], { svn: new FakeSvnBackend(ws, script), backupDir }).results;
+
+    assert.deepEqual(result.conflicts[0].backup?.map((f) => path.relative(backupDir, f).replace(/\\/g, '/')).sort(), [
+      'r101/src/a.lua.merge-left.r100',
+      'r101/src/a.lua.merge-right.r101',
+      'r101/src/a.lua.working',
+    ]);
+    assert.equal(fs.readFileSync(path.join(backupDir, 'r101/src/a.lua.working'), 'utf8'), 'a.lua.working');
+
+    // The backup folder cannot be created inside a file
+    const blocked = new FakeSvnBackend(ws, script);
+    const [postponed] = run({ workspace: ws, fromUrl: FROM, revisions: [101] }, logger, [], {
+      svn: blocked, backupDir: path.join(ws, 'src', 'a.lua'),
+    }).results;
+    assert.equal(postponed.conflicts[0].resolution, 'postpone');
+    assert.deepEqual(blocked.calls.filter((c) => c.startsWith('resolve')), []);
+  });
+});
+
+describe('recordRevisions', () => {
+  it('blocks and unblocks revisions with record-only merges', () => {
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'svnmerge-test-'));
+    const logger = new Logger(outputDir, '20240101000000');
+    try {
+      const svn = new FakeSvnBackend(WS, { 101: {}, 102: {}, 103: {} });
+
+      const blocked = recordRevisions([101, 103], FROM, WS, logger, false, svn);
+      assert.equal(blocked.success, true);
+      assert.deepEqual(blocked.modified, [{ path: WS, isDirectory: true }]);
+      assert.deepEqual(svn.eligibleRevisions(FROM, WS), [102]);
+
+      recordRevisions([103], FROM, WS, logger, true, svn);
+      assert.deepEqual(svn.eligibleRevisions(FROM, WS), [102, 103]);
+      assert.deepEqual(svn.calls.filter((c) => c.startsWith('record-only')), ['record-only 101,103', 'record-only -103']);
+      assert.deepEqual(svn.calls.filter((c) => c.startsWith('merge ')), []);
+    } finally {
+      logger.close();
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('predictRevisions', () => {
+  it('classifies the predicted conflicts without changing the working copy', () => {
+    const svn = new FakeSvnBackend(WS, {
+      101: { modifies: ['src/a.lua', 'gen/out.lua'] },
+      102: { conflicts: [{ path: 'src/hero.lua', type: 'text' }, { path: 'gen/hero.lua', type: 'text' }] },
+      103: { conflicts: [{ path: 'assets/ui', type: 'tree', isDirectory: true }] },
+      104: { error: 'svn: E160006: No such revision 104' },
+    });
+    const results = predictRevisions({
+      workspace: WS,
+      fromUrl: FROM,
+      revisions: [101, 102, 103, 104],
+      ignorePaths: ['gen'],
+      resolveRules: [{ path: 'assets', accept: 'fail' }],
+    }, svn);
+
+    assert.deepEqual(results.map((r) => [r.revision, r.success]), [[101, true], [102, true], [103, false], [104, false]]);
+    assert.deepEqual(results[0].modified.map((m) => m.path), [path.join(WS, 'src/a.lua')]);
+    assert.deepEqual(results[0].reverted.map((r) => r.ignoredBy), ['gen']);
+    assert.deepEqual(results[1].conflicts.map((c) => [c.ignored, c.resolution]), [[false, 'theirs-full'], [true, 'working']]);
+    assert.equal(results[2].errorMessage, 'conflict policy "fail" matched: assets/ui');
+    assert.equal(results[3].errorMessage, 'svn: E160006: No such revision 104');
+    assert.deepEqual(svn.calls, ['merge --dry-run 101', 'merge --dry-run 102', 'merge --dry-run 103', 'merge --dry-run 104']);
+    assert.equal(svn.entries.size, 0);
+  });
+
+  it('lists the incoming/local rules a predicted tree conflict may hit instead of matching them', () => {
+    const svn = new FakeSvnBackend(WS, {
+      101: { conflicts: [{ path: 'src/hero.lua', type: 'tree' }, { path: 'assets/ui.png', type: 'tree' }] },
+    });
+    const [result] = predictRevisions({
+      workspace: WS,
+      fromUrl: FROM,
+      revisions: [101],
+      resolveRules: [
+        { path: 'assets', accept: 'working' },
+        { incoming: ['delete'], local: ['edit'], accept: 'fail' },
+        { types: ['tree'], local: ['missing'], accept: 'postpone' },
+      ],
+    }, svn);
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.conflicts.map((c) => [c.resolution, c.unknownRules]), [
+      ['working', ['* [incoming delete, local edit] → fail', '* [tree, local missing] → postpone']],
+      ['working', undefined],
+    ]);
+  });
+});
+
+describe('localChanges', () => {
+  it('lists the local changes of the working copy', () => {
+    const svn = new FakeSvnBackend(WS, {});
+    svn.entries.set('src/a.lua', { isDirectory: false });
+    assert.deepEqual(localChanges(WS, svn), [`M       ${path.join(WS, 'src/a.lua')}`]);
+  });
+
+  it('fails instead of reporting a clean working copy when svn status fails', () => {
+    const svn = new FakeSvnBackend(WS, {});
+    svn.failStatus = 'svn status failed (exit 1):\nsvn: E155036: Please see the \'svn upgrade\' command';
+    assert.throws(() => localChanges(WS, svn), /checking the working copy for local changes failed: svn status failed \(exit 1\)/);
+  });
+});
+
+describe('stashChanges', () => {
+  class DiffSvn extends FakeSvnBackend {
+    constructor(private readonly patch: string, private readonly status: string[] = []) {
+      super(WS, {});
+    }
+
+    diff(filePath: string, workspace: string): string {
+      super.diff(filePath, workspace);
+      return this.patch;
+    }
+
+    statusDirty(workspace: string): string[] {
+      super.statusDirty(workspace);
+      return this.status;
+    }
+  }
+
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'svnmerge-stash-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes the diff to the patch file and reverts the working copy', () => {
+    const patchFile = path.join(dir, 'out', 'stash.patch');
+    const svn = new DiffSvn('Index: a.txt\n===\n-old\n+new\n');
+    assert.equal(stashChanges(WS, patchFile, svn), true);
+    assert.equal(fs.readFileSync(patchFile, 'utf8'), 'Index: a.txt\n===\n-old\n+new\n');
+    assert.deepEqual(svn.calls, ['diff ', 'status', 'revert ']);
+  });
+
+  it('does nothing without versioned changes and refuses binary changes', () => {
+    const patchFile = path.join(dir, 'stash.patch');
+    assert.equal(stashChanges(WS, patchFile, new DiffSvn('')), false);
+    const binary = new DiffSvn('Index: a.png\n===\nCannot display: file marked as a binary type.\n');
+    assert.throws(() => stashChanges(WS, patchFile, binary), /binary changes/);
+    assert.equal(fs.existsSync(patchFile), false);
+    assert.deepEqual(binary.calls, ['diff ']);
+  });
+
+  it('refuses added files, which the revert would leave in the way of svn patch', () => {
+    const patchFile = path.join(dir, 'stash.patch');
+    const svn = new DiffSvn('Index: src/new.lua\n===\n+new\n', [`A       ${path.join(WS, 'src/new.lua')}`, `M       ${path.join(WS, 'a.txt')}`]);
+    assert.throws(() => stashChanges(WS, patchFile, svn), /added files that cannot be stashed \(src\/new\.lua\)/);
+    assert.equal(fs.existsSync(patchFile), false);
+    assert.deepEqual(svn.calls, ['diff ', 'status']);
+  });
+});
@@ -0,0 +1,175 @@
+import * as assert from 'node:assert/strict';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+
+import { buildBlockMessage, buildMessage, parseMessageTemplate } from '../src/message';
+import { MergeSummary } from '../src/types';
+import { FakeSvnBackend } from './fake-svn';
+
+const WS = path.resolve('/ws');
+const FROM = 'http://svn.example.com/repos/project/trunk';
+
+describe('buildMessage', () => {
+  it('lists successfully merged revisions in ascending order with their log bodies', () => {
+    const svn = new FakeSvnBackend(WS, {
+      84556: { message: '#88279 Fix hero buff\nhttps://tracker.example.com/88279' },
+      84587: { message: 'Second change' },
+      84588: {},
+      84590: { message: 'Failed revision' },
+    });
+    const summary: MergeSummary = {
+      total: 4,
+      succeeded: 3,
+      withConflicts: 0,
+      failed: 1,
+      results: [
+        { revision: 84588, success: true, conflicts: [], reverted: [], modified: [] },
+        { revision: 84556, success: true, conflicts: [], reverted: [], modified: [] },
+        { revision: 84587, success: true, conflicts: [], reverted: [], modified: [] },
+        { revision: 84590, success: false, conflicts: [], reverted: [], modified: [], errorMessage: 'x' },
+      ],
+    };
+
+    const message = buildMessage(summary, FROM, svn);
+
+    assert.equal(message, [
+      'Merged revision(s) 84556, 84587-84588 from trunk:',
+      '#88279 Fix hero buff',
+      'https://tracker.example.com/88279',
+      '........',
+      'Second change',
+      '........',
+      '(no log message for r84588)',
+      '........',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('buildMessage (reverse)', () => {
+  it('uses the reverse-merge header', () => {
+    const svn = new FakeSvnBackend(WS, { 1001: { message: 'Bad change' } });
+    const summary: MergeSummary = {
+      total: 1,
+      succeeded: 1,
+      withConflicts: 0,
+      failed: 0,
+      results: [{ revision: 1001, success: true, conflicts: [], reverted: [], modified: [] }],
+    };
+
+    assert.equal(buildMessage(summary, FROM, svn, { reverse: true }), 'Reverse-merged revision(s) 1001 from trunk:\nBad change\n........\n');
+  });
+});
+
+describe('buildMessage (tickets)', () => {
+  it('appends the deduplicated tickets of the merged revisions', () => {
+    const svn = new FakeSvnBackend(WS, {
+      1001: { message: '#88279 Fix hero buff' },
+      1002: { message: 'Follow-up for #88279 and #88300' },
+    });
+    const summary: MergeSummary = {
+      total: 2,
+      succeeded: 2,
+      withConflicts: 0,
+      failed: 0,
+      results: [
+        { revision: 1001, success: true, conflicts: [], reverted: [], modified: [] },
+        { revision: 1002, success: true, conflicts: [], reverted: [], modified: [] },
+      ],
+    };
+
+    const tickets = { pattern: '#(\\d+)', url: 'https://tracker.example.com/issue/{id}' };
+    assert.equal(buildMessage(summary, FROM, svn, { tickets }), [
+      'Merged revision(s) 1001-1002 from trunk:',
+      '#88279 Fix hero buff',
+      '........',
+      'Follow-up for #88279 and #88300',
+      '........',
+      'Tickets (2):',
+      '  #88279  https://tracker.example.com/issue/88279',
+      '  #88300  https://tracker.example.com/issue/88300',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('buildMessage (template)', () => {
+  const svn = new FakeSvnBackend(WS, {
+    101: { message: '#88279 Fix hero buff\nDetails follow', author: 'alice', date: '2024-03-01T10:00:00.000000Z' },
+    102: { message: 'Update UI', author: 'bob', date: '2024-03-02T10:00:00.000000Z' },
+  });
+  const summary: MergeSummary = {
+    total: 2,
+    succeeded: 1,
+    withConflicts: 1,
+    failed: 0,
+    results: [
+      { revision: 101, success: true, conflicts: [], reverted: [{ path: path.join(WS, 'gen/a.json'), isDirectory: false, ignoredBy: 'gen' }], modified: [] },
+      {
+        revision: 102,
+        success: true,
+        conflicts: [{ path: path.join(WS, 'src/ui.lua'), type: 'text', resolution: 'theirs-full', isDirectory: false, ignored: false }],
+        reverted: [],
+        modified: [],
+      },
+    ],
+  };
+
+  it('fills the message and entry placeholders', () => {
+    const template = {
+      template: '[{branch}] {verb} {revisions} ({count}, by {authors})\n{entries}\n{conflicts}\nIgnored: {ignored}',
+      entry: 'r{rev} {author} {date}: {body}',
+      firstLine: true,
+    };
+
+    assert.equal(buildMessage(summary, FROM, svn, { workspace: WS, template }), [
+      '[trunk] Merged 101-102 (2, by alice, bob)',
+      'r101 alice 2024-03-01: #88279 Fix hero buff',
+      'r102 bob 2024-03-02: Update UI',
+      'Conflicts (1):',
+      '  [TEXT    ][F]  src/ui.lua  (theirs-full)',
+      'Ignored: 1',
+      '',
+    ].join('\n'));
+  });
+
+  it('drops lines whose only placeholder is empty and keeps the default layout otherwise', () => {
+    const clean: MergeSummary = { ...summary, results: [summary.results[0]] };
+
+    assert.equal(buildMessage(clean, FROM, svn, { template: { template: '{verb} {revisions}\n{conflicts}\n{entries}' } }), [
+      'Merged 101',
+      '#88279 Fix hero buff',
+      'Details follow',
+      '........',
+      '',
+    ].join('\n'));
+    assert.equal(buildMessage(clean, FROM, svn, { template: { firstLine: true } }), 'Merged revision(s) 101 from trunk:\n#88279 Fix hero buff\n........\n');
+  });
+});
+
+describe('parseMessageTemplate', () => {
+  it('reads the keys and rejects unknown placeholders', () => {
+    assert.deepEqual(parseMessageTemplate({ template: '{verb} {revisions}\n', 'first-line': true }, 'test'), {
+      template: '{verb} {revisions}',
+      firstLine: true,
+    });
+    assert.throws(() => parseMessageTemplate({ entry: '{rev} {ticket}' }, 'test'), /Unknown placeholder \{ticket\} in "message.entry"/);
+    assert.throws(() => parseMessageTemplate({ header: 'x' }, 'test'), /Unknown key "message.header"/);
+  });
+});
+
+describe('buildBlockMessage', () => {
+  it('names the record-only merge and lists the log bodies', () => {
+    const svn = new FakeSvnBackend(WS, { 1002: { message: 'Bump trunk version' }, 1001: { message: 'Debug tool' } });
+
+    assert.equal(buildBlockMessage([1002, 1001], FROM, false, svn), [
+      'Blocked revision(s) 1001-1002 from trunk (record-only merge):',
+      'Debug tool',
+      '........',
+      'Bump trunk version',
+      '........',
+      '',
+    ].join('\n'));
+    assert.match(buildBlockMessage([1001], FROM, true, svn), /^Unblocked revision\(s\) 1001 from trunk \(record-only reverse merge\):/);
+  });
+});
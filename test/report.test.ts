@@ -0,0 +1,93 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+
+import { MergeReport, parseReportFormats, toJUnit, writeReports } from '../src/report';
+
+const WS = path.resolve('/ws');
+const FROM = 'http://svn.example.com/repos/project/trunk';
+
+const REPORT: MergeReport = {
+  schemaVersion: 1,
+  tool: { name: 'svn-merge-tool', version: '1.0.10' },
+  startTs: '20240315120000',
+  workspace: WS,
+  fromUrl: FROM,
+  revisions: [101, 102, 103],
+  reverse: false,
+  summary: {
+    total: 3,
+    succeeded: 1,
+    withConflicts: 1,
+    failed: 1,
+    results: [
+      {
+        revision: 101,
+        success: true,
+        conflicts: [
+          { path: path.join(WS, 'src/hero.lua'), type: 'text', resolution: 'postpone', isDirectory: false, ignored: false },
+          { path: path.join(WS, 'gen/a.bin'), type: 'tree', resolution: 'working', isDirectory: false, ignored: true, ignoredBy: 'gen' },
+        ],
+        reverted: [],
+        modified: [],
+      },
+      { revision: 102, success: false, conflicts: [], reverted: [], modified: [], errorMessage: 'svn: E155015 <conflict>\x1b[0m\nsecond line' },
+      { revision: 103, success: true, conflicts: [], reverted: [], modified: [] },
+    ],
+  },
+  message: 'Merged revision(s) 101-103 from trunk:\n',
+  commit: { status: 'skipped', message: 'unresolved conflicts (r101) & "r102"' },
+  logFile: '/ws/.svnmerge/svnmerge-20240315120000.log',
+  tickets: [{ id: '88279', ref: '#88279', revisions: [101] }],
+  hooks: [
+    { stage: 'pre-merge', command: 'ok.sh', exitCode: 0, durationMs: 5 },
+    { stage: 'on-failure', command: 'notify.sh', exitCode: 2, durationMs: 7 },
+  ],
+  backupDir: '/ws/.svnmerge/svnmerge-20240315120000.backup',
+};
+
+describe('parseReportFormats', () => {
+  it('accepts json and junit once each and rejects others', () => {
+    assert.deepEqual(parseReportFormats(' JSON, junit,json'), ['json', 'junit']);
+    assert.throws(() => parseReportFormats('json,html'), /Unknown report format "html"/);
+  });
+});
+
+describe('toJUnit', () => {
+  const xml = toJUnit(REPORT);
+
+  it('has one test case per revision, failing on conflicts and erroring on merge failures', () => {
+    assert.match(xml, /<testsuites name="svn-merge-tool" tests="3" failures="1" errors="1">/);
+    assert.match(xml, /<testcase classname="svnmerge\.trunk" name="r101">\n {6}<failure type="conflict" message="1 conflict\(s\)">\[TEXT {4}\]\[F\] {2}src\/hero\.lua {2}\(postpone\)<\/failure>/);
+    assert.match(xml, /<testcase classname="svnmerge\.trunk" name="r103"\/>/);
+  });
+
+  it('escapes markup and strips control characters that XML cannot hold', () => {
+    assert.match(xml, /<error type="merge" message="svn: E155015 &lt;conflict&gt;\[0m">svn: E155015 &lt;conflict&gt;\[0m\nsecond line<\/error>/);
+    assert.doesNotMatch(xml, /\x1b/);
+    assert.match(xml, /<property name="commit\.message" value="unresolved conflicts \(r101\) &amp; &quot;r102&quot;"\/>/);
+  });
+
+  it('records tickets, the backup folder and failed hooks as properties', () => {
+    assert.match(xml, /<property name="tickets" value="#88279"\/>/);
+    assert.match(xml, /<property name="backupDir" value="\/ws\/\.svnmerge\/svnmerge-20240315120000\.backup"\/>/);
+    assert.match(xml, /<property name="hook\.on-failure" value="exit 2: notify\.sh"\/>/);
+    assert.doesNotMatch(xml, /hook\.pre-merge/);
+  });
+});
+
+describe('writeReports', () => {
+  it('writes each requested format next to the log', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'svnmerge-report-'));
+    try {
+      const files = writeReports(path.join(dir, 'out'), REPORT, ['json', 'junit']);
+      assert.deepEqual(files.map((f) => path.basename(f)), ['svnmerge-20240315120000.json', 'svnmerge-20240315120000.junit.xml']);
+      assert.deepEqual(JSON.parse(fs.readFileSync(files[0], 'utf8')), REPORT);
+      assert.equal(fs.readFileSync(files[1], 'utf8'), toJUnit(REPORT));
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,66 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { parseRetention, pruneRuns } from '../src/retention';
+import { createSession, saveSession } from '../src/session';
+
+const NOW = new Date(2024, 2, 31, 12, 0, 0);
+
+describe('parseRetention', () => {
+  it('accepts a run count and an age', () => {
+    assert.deepEqual(parseRetention({ 'max-count': 20, 'max-age': '30d' }, 'test'), { maxCount: 20, maxAge: '30d' });
+  });
+
+  it('rejects invalid values and unknown keys', () => {
+    assert.throws(() => parseRetention({ 'max-count': -1 }, 'test'), /"retention.max-count" in test must be a whole number/);
+    assert.throws(() => parseRetention({ 'max-age': '2024-01-01' }, 'test'), /"retention.max-age" in test must be an age/);
+    assert.throws(() => parseRetention({ keep: 3 }, 'test'), /Unknown key "retention.keep"/);
+    assert.throws(() => parseRetention(5, 'test'), /must be a mapping/);
+  });
+});
+
+describe('pruneRuns', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'svnmerge-retention-'));
+    for (const ts of ['20240301100000', '20240320100000', '20240330100000', '20240331110000']) {
+      for (const ext of ['log', 'events.jsonl', 'html']) {
+        fs.writeFileSync(path.join(dir, `svnmerge-${ts}.${ext}`), '', 'utf8');
+      }
+    }
+    fs.writeFileSync(path.join(dir, 'svnmerge-20240301100000.stash.patch'), '', 'utf8');
+    fs.writeFileSync(path.join(dir, 'notes.txt'), '', 'utf8');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const remaining = () => fs.readdirSync(dir).filter((name) => name.endsWith('.log')).sort();
+
+  it('keeps the newest runs besides the current one', () => {
+    const pruned = pruneRuns(dir, { maxCount: 1 }, '20240331110000', NOW);
+    assert.deepEqual(pruned.runs, ['20240320100000', '20240301100000']);
+    assert.equal(pruned.files.length, 6);
+    assert.deepEqual(remaining(), ['svnmerge-20240330100000.log', 'svnmerge-20240331110000.log']);
+    assert.ok(fs.existsSync(path.join(dir, 'svnmerge-20240301100000.stash.patch')));
+    assert.ok(fs.existsSync(path.join(dir, 'notes.txt')));
+  });
+
+  it('deletes runs older than the maximum age, with their conflict backups', () => {
+    fs.mkdirSync(path.join(dir, 'svnmerge-20240301100000.backup', 'r101'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'svnmerge-20240301100000.backup', 'r101', 'a.lua.working'), '', 'utf8');
+    assert.deepEqual(pruneRuns(dir, { maxAge: '2w' }, '20240331110000', NOW).runs, ['20240301100000']);
+    assert.ok(!fs.existsSync(path.join(dir, 'svnmerge-20240301100000.backup')));
+  });
+
+  it('keeps unfinished sessions for --resume', () => {
+    saveSession(dir, createSession({ workspace: dir, fromUrl: 'http://svn/trunk', revisions: [101] }, '20240301100000'));
+    assert.deepEqual(pruneRuns(dir, { maxCount: 0 }, '20240331110000', NOW).runs, ['20240330100000', '20240320100000']);
+    assert.ok(fs.existsSync(path.join(dir, 'svnmerge-20240301100000.log')));
+  });
+});
@@ -0,0 +1,73 @@
+import * as assert from 'node:assert/strict';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+
+import { collectStatus, formatStatus } from '../src/status';
+import { FakeSvnBackend } from './fake-svn';
+
+const WS = path.resolve('/ws');
+const FROM = 'http://svn.example.com/repos/project/trunk';
+const NOW = new Date('2024-03-31T12:00:00Z');
+
+function backend(): FakeSvnBackend {
+  const svn = new FakeSvnBackend(WS, {
+    1001: { author: 'alice', date: '2024-03-01T09:00:00.000000Z' },
+    1002: { author: 'bob', date: '2024-03-02T09:00:00.000000Z' },
+    1003: { author: 'alice', date: '2024-03-10T09:00:00.000000Z' },
+    1004: { author: 'alice', date: '2024-03-20T09:00:00.000000Z' },
+    1005: { author: 'carol', date: '2024-03-21T09:00:00.000000Z' },
+    1006: { author: 'carol', date: '2024-03-22T09:00:00.000000Z' },
+  });
+  svn.merge(1001, FROM, WS);
+  svn.recordOnly([1005], FROM, WS);
+  return svn;
+}
+
+describe('collectStatus', () => {
+  it('splits the revisions into merged, pending, blocked and record-only', () => {
+    const status = collectStatus(WS, FROM, [1005, 1006], backend(), NOW);
+    assert.deepEqual(status.merged, [1001, 1005]);
+    assert.deepEqual(status.pending, [1002, 1003, 1004]);
+    assert.deepEqual(status.blocked, [1006]);
+    assert.deepEqual(status.recordOnly, [1005]);
+  });
+
+  it('counts a revision blocked with --block alone as merged', () => {
+    const status = collectStatus(WS, FROM, [], backend(), NOW);
+    assert.deepEqual(status.merged, [1001, 1005]);
+    assert.deepEqual(status.pending, [1002, 1003, 1004, 1006]);
+    assert.deepEqual(status.blocked, []);
+    assert.deepEqual(status.recordOnly, []);
+  });
+
+  it('finds the oldest pending revision and groups the pending ones by author', () => {
+    const status = collectStatus(WS, FROM, [1005, 1006], backend(), NOW);
+    assert.deepEqual(status.oldestPending, { revision: 1002, author: 'bob', date: '2024-03-02T09:00:00.000000Z', ageDays: 29 });
+    assert.deepEqual(status.pendingByAuthor, [
+      { author: 'alice', revisions: [1003, 1004] },
+      { author: 'bob', revisions: [1002] },
+    ]);
+  });
+
+  it('has no oldest pending revision when everything is merged or blocked', () => {
+    const status = collectStatus(WS, FROM, [1002, 1003, 1004, 1005, 1006], backend(), NOW);
+    assert.deepEqual(status.pending, []);
+    assert.equal(status.oldestPending, undefined);
+    assert.deepEqual(status.pendingByAuthor, []);
+  });
+});
+
+describe('formatStatus', () => {
+  it('prints the counts, the oldest pending revision and the authors', () => {
+    assert.deepEqual(formatStatus(collectStatus(WS, FROM, [1005, 1006], backend(), NOW)), [
+      'merged      : 2',
+      'pending     : 3  (oldest r1002, 29 day(s) old, bob)',
+      'blocked     : 1  1006',
+      'record-only : 1  1005',
+      '(blocked and record-only only cover the config block: list; revisions blocked with --block alone count as merged)',
+      'pending by author:',
+      '  alice  2  1003-1004',
+      '  bob    1  1002',
+    ]);
+  });
+});
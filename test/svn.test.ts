@@ -0,0 +1,201 @@
+import * as assert from 'node:assert/strict';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+
+import { parseCommittedRevision, parseInfoXml, parseLogXml, parseMergeOutput, parseStatusXml } from '../src/svn';
+import { findResolveRule } from '../src/utils';
+import { parseXml } from '../src/xml';
+
+describe('parseXml', () => {
+  it('decodes entities, CDATA and attributes', () => {
+    const root = parseXml('<?xml version="1.0"?>\n<a x="1 &amp; 2"><!-- c --><b>&lt;t&gt; &#x4e2d;</b><c/><d><![CDATA[<raw>]]></d></a>');
+    assert.equal(root.attrs['x'], '1 & 2');
+    assert.deepEqual(root.children.map((c) => c.name), ['b', 'c', 'd']);
+    assert.equal(root.children[0].text, '<t> 中');
+    assert.equal(root.children[2].text, '<raw>');
+  });
+
+  it('rejects mismatched tags', () => {
+    assert.throws(() => parseXml('<a><b></a>'), /Unexpected closing tag/);
+  });
+});
+
+describe('parseStatusXml', () => {
+  it('reads item, props and tree-conflict state of every target', () => {
+    const entries = parseStatusXml(`<?xml version="1.0" encoding="UTF-8"?>
+<status>
+<target path="/ws">
+<entry path="/ws/a b &amp; c.txt"><wc-status item="conflicted" props="none" revision="5"></wc-status></entry>
+<entry path="/ws/dir"><wc-status item="normal" props="conflicted" revision="5"></wc-status></entry>
+<entry path="/ws/gone"><wc-status item="missing" props="none" tree-conflicted="true"></wc-status></entry>
+<entry path="/ws"><wc-status item="normal" props="modified" revision="5"></wc-status></entry>
+</target>
+<target path="/ws/ext"><entry path="/ws/ext/x"><wc-status item="modified" props="none"></wc-status></entry></target>
+</status>`);
+    assert.deepEqual(entries, [
+      { path: '/ws/a b & c.txt', item: 'conflicted', props: 'none', treeConflicted: false },
+      { path: '/ws/dir', item: 'normal', props: 'conflicted', treeConflicted: false },
+      { path: '/ws/gone', item: 'missing', props: 'none', treeConflicted: true },
+      { path: '/ws', item: 'normal', props: 'modified', treeConflicted: false },
+      { path: '/ws/ext/x', item: 'modified', props: 'none', treeConflicted: false },
+    ]);
+  });
+});
+
+describe('parseInfoXml', () => {
+  it('reads node kind, tree-conflict details and conflict files', () => {
+    const ws = path.resolve('/ws');
+    const [tree, text] = parseInfoXml(`<?xml version="1.0" encoding="UTF-8"?>
+<info>
+<entry kind="dir" path="${ws}/src/mod" revision="7">
+<url>http://svn/branches/release/src/mod</url>
+<commit revision="6"><author>alice</author><date>2024-03-01T10:00:00.000000Z</date></commit>
+<tree-conflict victim="mod" kind="dir" operation="merge" action="delete" reason="edit">
+<version side="source-left" kind="dir" path-in-repos="trunk/src/mod" repos-url="http://svn" revision="9"/>
+<version side="source-right" kind="none" path-in-repos="trunk/src/mod" repos-url="http://svn" revision="10"/>
+</tree-conflict>
+</entry>
+<entry kind="file" path="${ws}/a.txt" revision="7">
+<url>http://svn/branches/release/a.txt</url>
+<conflict type="text" operation="merge">
+<prev-base-file>a.txt.merge-left.r9</prev-base-file>
+<prev-wc-file>${ws}/a.txt.working</prev-wc-file>
+<cur-base-file>a.txt.merge-right.r10</cur-base-file>
+</conflict>
+</entry>
+</info>`);
+    assert.equal(tree.kind, 'dir');
+    assert.equal(tree.lastChangedAuthor, 'alice');
+    assert.deepEqual(
+      { ...tree.treeConflict, versions: tree.treeConflict!.versions.map((v) => `${v.side}:${v.kind}@${v.revision}`) },
+      {
+        operation: 'merge',
+        action: 'delete',
+        reason: 'edit',
+        victimKind: 'dir',
+        versions: ['source-left:dir@9', 'source-right:none@10'],
+      }
+    );
+    assert.equal(text.kind, 'file');
+    assert.equal(text.treeConflict, undefined);
+    assert.deepEqual(text.conflictFiles, {
+      base: path.join(ws, 'a.txt.merge-left.r9'),
+      mine: `${ws}/a.txt.working`,
+      theirs: path.join(ws, 'a.txt.merge-right.r10'),
+      propReject: undefined,
+    });
+  });
+
+  it('reads the tree conflict of svn 1.14 output, which a local: replace rule matches', () => {
+    const ws = path.resolve('/home/dev/release');
+    const [entry] = parseInfoXml(`<?xml version="1.0" encoding="UTF-8"?>
+<info>
+<entry
+   kind="file"
+   path="src/hero.lua"
+   revision="1200">
+<url>https://svn.example.com/repos/game/branches/release/src/hero.lua</url>
+<relative-url>^/branches/release/src/hero.lua</relative-url>
+<repository>
+<root>https://svn.example.com/repos/game</root>
+<uuid>8f2c4e1a-3b7d-4c9e-a1f0-5d6e7f8a9b0c</uuid>
+</repository>
+<wc-info>
+<wcroot-abspath>${ws}</wcroot-abspath>
+<schedule>replace</schedule>
+<depth>infinity</depth>
+</wc-info>
+<commit
+   revision="1180">
+<author>alice</author>
+<date>2024-03-01T10:00:00.000000Z</date>
+</commit>
+<tree-conflict
+   victim="hero.lua"
+   kind="file"
+   operation="merge"
+   action="replace"
+   reason="replace">
+<version
+   side="source-left"
+   path-in-repos="trunk/src/hero.lua"
+   repos-url="https://svn.example.com/repos/game"
+   revision="1199"
+   kind="file"/>
+<version
+   side="source-right"
+   path-in-repos="trunk/src/hero.lua"
+   repos-url="https://svn.example.com/repos/game"
+   revision="1201"
+   kind="file"/>
+</tree-conflict>
+</entry>
+</info>
+`);
+    assert.equal(entry.treeConflict?.action, 'replace');
+    assert.equal(entry.treeConflict?.reason, 'replace');
+    const rules = [{ local: ['replace'], accept: 'fail' as const }];
+    assert.equal(findResolveRule(path.join(ws, entry.path), ws, 'tree', rules, entry.treeConflict), rules[0]);
+  });
+});
+
+describe('parseLogXml', () => {
+  it('reads author, date, message and changed paths', () => {
+    const [entry, noMsg] = parseLogXml(`<?xml version="1.0" encoding="UTF-8"?>
+<log>
+<logentry revision="84597">
+<author>bob</author>
+<date>2024-03-01T10:00:00.000000Z</date>
+<paths>
+<path action="M" kind="file" text-mods="true" prop-mods="false">/trunk/src/a.lua</path>
+<path action="A" kind="dir" text-mods="false" prop-mods="false">/trunk/src/new</path>
+</paths>
+<msg>#88279 Fix buff\r\nhttps://tracker/88279\n\n</msg>
+</logentry>
+<logentry revision="84598"><author>eve</author><date>2024-03-02T10:00:00.000000Z</date><msg></msg></logentry>
+</log>`);
+    assert.equal(entry.revision, 84597);
+    assert.equal(entry.author, 'bob');
+    assert.equal(entry.date, '2024-03-01T10:00:00.000000Z');
+    assert.equal(entry.message, '#88279 Fix buff\nhttps://tracker/88279');
+    assert.deepEqual(entry.paths, [
+      { path: '/trunk/src/a.lua', action: 'M', kind: 'file' },
+      { path: '/trunk/src/new', action: 'A', kind: 'dir' },
+    ]);
+    assert.equal(noMsg.message, '');
+    assert.equal(noMsg.paths, undefined);
+  });
+});
+
+describe('parseCommittedRevision', () => {
+  it('extracts the new revision number', () => {
+    assert.equal(parseCommittedRevision('Sending a.txt\nCommitted revision 1234.'), 1234);
+    assert.equal(parseCommittedRevision(''), undefined);
+  });
+});
+
+describe('parseMergeOutput', () => {
+  it('reads text, property and tree conflicts and the cleanly changed paths', () => {
+    const ws = path.resolve('/ws');
+    const result = parseMergeOutput([
+      "--- Merging r1005 into '.':",
+      'C    src/hero.lua',
+      'U    src/ui.lua',
+      ' C   config',
+      '   C assets/old',
+      'A    src/new.lua',
+      'C    src/hero.lua',
+      "--- Recording mergeinfo for merge of r1005 into '.':",
+      ' U   .',
+      'Summary of conflicts:',
+      '  Text conflicts: 1',
+      '  Tree conflicts: 1',
+    ].join('\n'), ws);
+    assert.deepEqual(result.conflicts.map((c) => [path.relative(ws, c.path), c.type, c.resolution]), [
+      ['src/hero.lua', 'text', 'theirs-full'],
+      ['config', 'property', 'theirs-full'],
+      ['assets/old', 'tree', 'working'],
+    ]);
+    assert.deepEqual(result.modifications.map((m) => path.relative(ws, m.path)), ['src/ui.lua', 'src/new.lua', '']);
+  });
+});
@@ -0,0 +1,40 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { collectTickets, compileTicketPattern, extractTickets, formatTicketSection, parseTicketConfig } from '../src/tickets';
+
+describe('extractTickets', () => {
+  it('takes the first capture group as the id and keeps the reference as written', () => {
+    const pattern = compileTicketPattern('(?:#|GAME-)(\\d+)');
+    assert.deepEqual(extractTickets('GAME-12 fix, see #12 and #40', pattern), [
+      { id: '12', ref: 'GAME-12' },
+      { id: '40', ref: '#40' },
+    ]);
+  });
+
+  it('uses the whole match without a capture group', () => {
+    assert.deepEqual(extractTickets('PROJ-7: crash', compileTicketPattern('PROJ-\\d+')), [{ id: 'PROJ-7', ref: 'PROJ-7' }]);
+  });
+});
+
+describe('collectTickets', () => {
+  it('deduplicates tickets across revisions and fills the link', () => {
+    const messages = new Map([[101, 'Fix #5'], [102, 'More for #5, also #6'], [103, 'No ticket']]);
+    const tickets = collectTickets([101, 102, 103], messages, { pattern: '#(\\d+)', url: 'https://t.example.com/{id}' });
+    assert.deepEqual(tickets, [
+      { id: '5', ref: '#5', url: 'https://t.example.com/5', revisions: [101, 102] },
+      { id: '6', ref: '#6', url: 'https://t.example.com/6', revisions: [102] },
+    ]);
+    assert.equal(formatTicketSection(tickets), 'Tickets (2):\n  #5  https://t.example.com/5\n  #6  https://t.example.com/6');
+    assert.equal(formatTicketSection([]), '');
+  });
+});
+
+describe('parseTicketConfig', () => {
+  it('accepts a bare pattern or a mapping and rejects invalid ones', () => {
+    assert.deepEqual(parseTicketConfig('GAME-(\\d+)', 'test'), { pattern: 'GAME-(\\d+)' });
+    assert.deepEqual(parseTicketConfig({ url: 'https://t/{id}' }, 'test'), { pattern: '#(\\d+)', url: 'https://t/{id}' });
+    assert.throws(() => parseTicketConfig({ pattern: '(' }, 'test'), /Invalid ticket pattern/);
+    assert.throws(() => parseTicketConfig({ link: 'x' }, 'test'), /Unknown key "tickets.link"/);
+  });
+});
@@ -0,0 +1,225 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+
+import { ConflictInfo, RevisionMergeResult, TreeConflictDetails } from '../src/types';
+import {
+    branchName, combineExitCodes, compressRevisions, describeTreeConflict, EXIT_CODES, findResolveRule, findTargetOutputDir,
+    formatTargetMatrix, groupSummaryByType, matchIgnore, parseRevisionList, sortConflicts, targetFolderNames, targetOutputDirs
+} from '../src/utils';
+
+const WS = path.resolve('/ws');
+const abs = (rel: string) => path.join(WS, rel);
+
+describe('compressRevisions', () => {
+  it('collapses consecutive revisions into ranges', () => {
+    assert.equal(compressRevisions([5, 1, 2, 3, 6, 9]), '1-3, 5-6, 9');
+    assert.equal(compressRevisions([]), '');
+  });
+});
+
+describe('parseRevisionList', () => {
+  it('expands ranges and keeps the given order', () => {
+    assert.deepEqual(parseRevisionList('1008, 1001-1003,1005'), [1008, 1001, 1002, 1003, 1005]);
+  });
+
+  it('rejects empty lists, reversed ranges and non-numbers', () => {
+    assert.throws(() => parseRevisionList(' , '), /No revisions/);
+    assert.throws(() => parseRevisionList('1005-1001'), /start must be <= end/);
+    assert.throws(() => parseRevisionList('abc'), /Invalid revision "abc"/);
+  });
+});
+
+describe('branchName', () => {
+  it('returns the last URL segment', () => {
+    assert.equal(branchName('https://svn.example.com/repos/project/trunk/'), 'trunk');
+  });
+});
+
+describe('matchIgnore', () => {
+  const cases: [string, string[], string | undefined, boolean?][] = [
+    ['src/gen/a.txt', ['src/gen'], 'src/gen'],
+    ['SRC/Gen', ['src/gen/'], 'src/gen/'],
+    ['src/general.txt', ['src/gen'], undefined],
+    ['Assets/x/y.meta', ['**/*.meta'], '**/*.meta'],
+    ['y.meta', ['*.meta'], '*.meta'],
+    ['Assets/a/b/Generated/f.cs', ['Assets/**/Generated/'], 'Assets/**/Generated/'],
+    ['Assets/Generated', ['Assets/**/Generated/'], undefined, false],
+    ['a/Build/x.log', ['/Build/*.log'], undefined],
+    ['Build/x.log', ['/Build/*.log'], '/Build/*.log'],
+    ['Gen/keep.txt', ['Gen', '!Gen/keep.txt'], undefined],
+    ['Gen/other.txt', ['Gen', '!Gen/keep.txt'], 'Gen'],
+    ['Gen/keep.txt', ['Gen', '!Gen/keep.txt', '*.txt'], '*.txt'],
+    ['file1.txt', ['file[0-9].txt'], 'file[0-9].txt'],
+  ];
+  for (const [rel, patterns, expected, isDirectory] of cases) {
+    it(`${patterns.join(' ')} → ${rel}`, () => {
+      assert.equal(matchIgnore(abs(rel), WS, patterns, isDirectory), expected);
+    });
+  }
+});
+
+describe('findResolveRule', () => {
+  it('returns the first rule matching path and type', () => {
+    const rules = [
+      { path: 'config', types: ['tree' as const], accept: 'working' as const },
+      { path: 'config', accept: 'mine-full' as const },
+      { accept: 'theirs-full' as const },
+    ];
+    assert.equal(findResolveRule(abs('config/a.ini'), WS, 'text', rules), rules[1]);
+    assert.equal(findResolveRule(abs('config/a.ini'), WS, 'tree', rules), rules[0]);
+    assert.equal(findResolveRule(abs('src/a.lua'), WS, 'text', rules), rules[2]);
+  });
+
+  it('matches incoming/local only against described tree conflicts', () => {
+    const deleteVsEdit: TreeConflictDetails = {
+      operation: 'merge', action: 'delete', reason: 'edit', victimKind: 'file', versions: [],
+    };
+    const rules = [
+      { incoming: ['delete'], local: ['edit'], accept: 'fail' as const },
+      { types: ['tree' as const], accept: 'working' as const },
+    ];
+    assert.equal(findResolveRule(abs('src/a.lua'), WS, 'tree', rules, deleteVsEdit), rules[0]);
+    assert.equal(findResolveRule(abs('src/a.lua'), WS, 'tree', rules, { ...deleteVsEdit, reason: 'missing' }), rules[1]);
+    assert.equal(findResolveRule(abs('src/a.lua'), WS, 'tree', rules), rules[1]);
+  });
+});
+
+describe('describeTreeConflict', () => {
+  it('names the incoming and local change with node kinds', () => {
+    const version = (side: string, kind: 'file' | 'none') => ({ side, kind, pathInRepos: 'trunk/a.lua', reposUrl: '', revision: 1 });
+    assert.equal(
+      describeTreeConflict({
+        operation: 'merge', action: 'delete', reason: 'edit', victimKind: 'file',
+        versions: [version('source-left', 'file'), version('source-right', 'none')],
+      }),
+      'incoming file delete vs local file edit',
+    );
+    assert.equal(
+      describeTreeConflict({ operation: 'update', action: 'edit', reason: 'missing', victimKind: 'none', versions: [] }),
+      'update: incoming edit vs local missing',
+    );
+  });
+});
+
+describe('sortConflicts', () => {
+  it('orders by revision, then tree/text/property, then path', () => {
+    const sorted = sortConflicts([
+      { revision: 2, type: 'text' as const, relPath: 'a' },
+      { revision: 1, type: 'property' as const, relPath: 'a' },
+      { revision: 1, type: 'tree' as const, relPath: 'b' },
+      { revision: 1, type: 'tree' as const, relPath: 'a' },
+    ]);
+    assert.deepEqual(sorted.map((e) => `${e.revision}${e.type}${e.relPath}`), ['1treea', '1treeb', '1propertya', '2texta']);
+  });
+});
+
+describe('groupSummaryByType', () => {
+  const conflict = (rel: string, type: ConflictInfo['type'], ignored = false): ConflictInfo => ({
+    path: abs(rel),
+    type,
+    resolution: type === 'tree' ? 'working' : 'theirs-full',
+    isDirectory: false,
+    ignored,
+    ignoredBy: ignored ? 'gen' : undefined,
+  });
+
+  it('groups by type, deduplicates paths and lists ignored entries last', () => {
+    const groups = groupSummaryByType([
+      { conflicts: [conflict('src/b.lua', 'text'), conflict('gen/a.xlsx', 'text', true)] },
+      { conflicts: [conflict('src/a.lua', 'text'), conflict('src/b.lua', 'text'), conflict('src/m', 'tree')] },
+    ], WS);
+
+    assert.deepEqual([...groups.keys()], ['tree', 'text', 'property']);
+    assert.deepEqual(groups.get('text')!.map((e) => [e.relPath, e.resolution]), [
+      ['src/a.lua', 'theirs-full'],
+      ['src/b.lua', 'theirs-full'],
+      ['gen/a.xlsx', 'ignored'],
+    ]);
+    assert.equal(groups.get('text')![2].ignoredBy, 'gen');
+    assert.equal(groups.get('tree')!.length, 1);
+    assert.equal(groups.get('property')!.length, 0);
+  });
+});
+
+describe('targetFolderNames', () => {
+  it('uses the folder name, or the dashed full path when targets share it', () => {
+    assert.deepEqual(targetFolderNames(['/wc/a/release', '/wc/b/release', '/wc/rel-1.1']), ['wc-a-release', 'wc-b-release', 'rel-1.1']);
+  });
+});
+
+describe('targetOutputDirs', () => {
+  it('puts the output inside each working copy unless it is absolute', () => {
+    const [a, b] = [path.resolve('/wc/a/release'), path.resolve('/wc/b/release')];
+    assert.deepEqual(targetOutputDirs([a, b]), [path.join(a, '.svnmerge'), path.join(b, '.svnmerge')]);
+    assert.deepEqual(targetOutputDirs([a], 'logs'), [path.join(a, 'logs')]);
+    assert.deepEqual(targetOutputDirs([a], path.resolve('/out')), [path.resolve('/out')]);
+    const [dirA, dirB] = targetOutputDirs([a, b], path.resolve('/out'));
+    assert.equal(path.dirname(dirA), path.resolve('/out'));
+    assert.notEqual(dirA, dirB);
+  });
+});
+
+describe('findTargetOutputDir', () => {
+  it('finds the sub-folder a multi-target run gave the working copy in a shared output', () => {
+    const out = fs.mkdtempSync(path.join(os.tmpdir(), 'svnmerge-out-'));
+    try {
+      const ws = path.resolve('/wc/a/release');
+      assert.equal(findTargetOutputDir(ws, out), out);
+      fs.mkdirSync(path.join(out, 'release'));
+      assert.equal(findTargetOutputDir(ws, out), path.join(out, 'release'));
+      // Runs of the working copy on its own take precedence
+      fs.writeFileSync(path.join(out, 'svnmerge-20240101000000.log'), '', 'utf8');
+      assert.equal(findTargetOutputDir(ws, out), out);
+      assert.equal(findTargetOutputDir(ws, 'logs'), path.join(ws, 'logs'));
+    } finally {
+      fs.rmSync(out, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('formatTargetMatrix', () => {
+  const result = (revision: number, success: boolean, resolution?: ConflictInfo['resolution']): RevisionMergeResult => ({
+    revision,
+    success,
+    conflicts: resolution
+      ? [{ path: abs('src/a.lua'), type: 'text', resolution, isDirectory: false, ignored: false }]
+      : [],
+    reverted: [],
+    modified: [],
+  });
+
+  it('shows one row per revision and a commit row', () => {
+    const lines = formatTargetMatrix([
+      { label: 'rel-1.0', results: [result(101, true), result(102, true, 'theirs-full')], commit: { status: 'committed', revision: 5012 } },
+      { label: 'rel-1.1', results: [result(101, true, 'postpone'), result(102, false)], commit: { status: 'skipped' } },
+      { label: 'rel-2.0', results: [] },
+    ]);
+    assert.deepEqual(lines, [
+      'revision  rel-1.0   rel-1.1   rel-2.0',
+      'r101      ok        conflict  -',
+      'r102      resolved  FAILED    -',
+      'commit    r5012     skipped   -',
+    ]);
+  });
+
+  it('omits the commit row when auto-commit is off', () => {
+    assert.deepEqual(formatTargetMatrix([{ label: 'a', results: [result(7, true)], commit: { status: 'disabled' } }]), [
+      'revision  a',
+      'r7        ok',
+    ]);
+  });
+});
+
+describe('combineExitCodes', () => {
+  it('reports the most serious outcome and nothing-to-merge only when no target merged', () => {
+    const { success, failure, conflicts, nothingToMerge, aborted } = EXIT_CODES;
+    assert.equal(combineExitCodes([success, conflicts, failure]), failure);
+    assert.equal(combineExitCodes([nothingToMerge, conflicts]), conflicts);
+    assert.equal(combineExitCodes([success, aborted]), aborted);
+    assert.equal(combineExitCodes([nothingToMerge, success]), success);
+    assert.equal(combineExitCodes([nothingToMerge, nothingToMerge]), nothingToMerge);
+  });
+});